@@ -0,0 +1,33 @@
+// Purpose: Local MLLP receiver for testing the HL7 export without a hospital interface
+// Prints every received message and answers with an ACK (MLLP_STUB_ACK=AE or AR simulates errors,
+// MLLP_STUB_ACK_ID acknowledges a different control id); port 0 picks a free port
+
+import { createServer } from 'net';
+
+const port = Number(process.env.HL7_MLLP_PORT || process.argv[2] || 2575);
+const ackCode = process.env.MLLP_STUB_ACK || 'AA';
+const ackControlId = process.env.MLLP_STUB_ACK_ID;
+
+const server = createServer(socket => {
+  let buffer = '';
+  socket.setEncoding('utf8');
+  socket.on('data', chunk => {
+    buffer += chunk;
+    let end;
+    while ((end = buffer.indexOf('\x1c\r')) !== -1) {
+      const message = buffer.slice(buffer.indexOf('\x0b') + 1, end);
+      buffer = buffer.slice(end + 2);
+
+      const msh = message.split('\r')[0].split('|');
+      const timestamp = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+      console.log('[MLLP Stub] Received:\n' + message.replace(/\r/g, '\n'));
+      const ack = [
+        `MSH|^~\\&|${msh[4] || ''}|${msh[5] || ''}|${msh[2] || ''}|${msh[3] || ''}|${timestamp}||ACK^O01^ACK|ACK${msh[9] || ''}|P|2.5`,
+        `MSA|${ackCode}|${ackControlId ?? msh[9] ?? ''}${ackCode === 'AA' ? '' : '|Rejected by MLLP stub'}`
+      ].join('\r');
+      socket.write('\x0b' + ack + '\r\x1c\r');
+    }
+  });
+});
+
+server.listen(port, () => console.log(`[MLLP Stub] Listening on port ${server.address().port}, answering ${ackCode}`));
@@ -0,0 +1,27 @@
+// Purpose: Forward HL7 v2 messages from the browser to the configured MLLP endpoint
+// Target host and port come from HL7_MLLP_HOST / HL7_MLLP_PORT so clients cannot choose arbitrary hosts
+
+import { NextResponse } from 'next/server';
+import { sendMllpMessage } from '@/lib/mllp-client';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null) as { message?: unknown } | null;
+  if (!body || typeof body.message !== 'string' || !body.message.startsWith('MSH|')) {
+    return NextResponse.json({ error: 'Request body must contain an HL7 v2 message starting with MSH' }, { status: 400 });
+  }
+
+  const host = process.env.HL7_MLLP_HOST || '127.0.0.1';
+  const port = Number(process.env.HL7_MLLP_PORT || 2575);
+  try {
+    const ack = await sendMllpMessage(body.message, { host, port });
+    return NextResponse.json({ ack, endpoint: `${host}:${port}` });
+  } catch (error) {
+    console.error('[HL7 API] Sending failed:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Sending failed', endpoint: `${host}:${port}` },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+// Purpose: Parse raw PDF417 barcode text into ParsedBarcodeData without a browser
+// Accepts JSON { "text": "..." } or a text/plain body
+
+import { NextResponse } from 'next/server';
+import { BarcodeServiceError, parseBarcodeText } from '@/lib/barcode-service';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  try {
+    const contentType = request.headers.get('content-type') || '';
+    let text: unknown;
+    if (contentType.includes('application/json')) {
+      const body = await request.json().catch(() => null) as { text?: unknown } | null;
+      text = body?.text;
+    } else {
+      text = await request.text();
+    }
+    if (typeof text !== 'string') {
+      throw new BarcodeServiceError('BAD_REQUEST', 'Request body must be barcode text or JSON with a "text" string');
+    }
+
+    return NextResponse.json(parseBarcodeText(text));
+  } catch (error) {
+    if (error instanceof BarcodeServiceError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    console.error('[Parse API] Parsing failed:', error);
+    return NextResponse.json({ error: 'Parsing failed', code: 'INTERNAL_ERROR' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+// Purpose: Decode a PDF417 barcode from an uploaded PNG or JPEG image on the server and parse it
+// Accepts multipart/form-data with a "file" field or the raw image as request body
+
+import { NextResponse } from 'next/server';
+import { BarcodeServiceError, MAX_UPLOAD_BYTES, scanBarcodeImage } from '@/lib/barcode-service';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  try {
+    const declaredLength = Number(request.headers.get('content-length') || 0);
+    if (declaredLength > MAX_UPLOAD_BYTES + 64 * 1024) {
+      throw new BarcodeServiceError('PAYLOAD_TOO_LARGE', `Image exceeds ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+    }
+
+    let bytes: Uint8Array;
+    if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const formData = await request.formData().catch(() => null);
+      const file = formData?.get('file');
+      if (!file || typeof file === 'string') {
+        throw new BarcodeServiceError('BAD_REQUEST', 'Multipart request must contain the image in a "file" field');
+      }
+      bytes = new Uint8Array(await file.arrayBuffer());
+    } else {
+      bytes = new Uint8Array(await request.arrayBuffer());
+    }
+
+    const { parsed } = scanBarcodeImage(bytes);
+    return NextResponse.json(parsed);
+  } catch (error) {
+    if (error instanceof BarcodeServiceError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    console.error('[Scan API] Scanning failed:', error);
+    return NextResponse.json({ error: 'Scanning failed', code: 'INTERNAL_ERROR' }, { status: 500 });
+  }
+}
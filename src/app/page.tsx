@@ -3,19 +3,26 @@
 import { useState } from 'react';
 import { ParsedBarcodeData } from '@/types/healthcare';
 import { PDF417HealthcareParser } from '@/lib/pdf417-parser';
+import { ScanResult } from '@/lib/pixel-scanner';
 import { SimpleScanDropzone } from '@/components/features/simple-scan-dropzone';
 import { EditableHealthcareForm } from '@/components/features/editable-healthcare-form';
+import { ScanHistoryEntry, ScanHistoryExport } from '@/components/features/scan-history-export';
+import { ScanResultSummary } from '@/components/features/scan-result-summary';
 
 type AppState = 'scanning' | 'editing';
 
 export default function Home() {
   const [appState, setAppState] = useState<AppState>('scanning');
   const [parsedData, setParsedData] = useState<ParsedBarcodeData | null>(null);
+  const [scanResult, setScanResult] = useState<ScanResult | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
+  // Forms scanned in this session, kept in memory only for batch export
+  const [scanHistory, setScanHistory] = useState<ScanHistoryEntry[]>([]);
+  const [currentScanId, setCurrentScanId] = useState<string | null>(null);
   const parser = new PDF417HealthcareParser();
 
-  const handleScanSuccess = async (barcodeData: string) => {
+  const handleScanSuccess = async (barcodeData: string, result: ScanResult) => {
     console.log('[Home] Scan successful, parsing data...');
     setIsProcessing(true);
 
@@ -24,8 +31,12 @@ export default function Home() {
       await new Promise(resolve => setTimeout(resolve, 500));
 
       const parsed = parser.parse(barcodeData);
-      console.log('[Home] Parse result:', { isValid: parsed.isValid, errors: parsed.errors });
+      console.log('[Home] Parse result:', { isValid: parsed.isValid, issues: parsed.issues });
+      const scanId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      setScanHistory(history => [...history, { id: scanId, scannedAt: new Date(), parsed }]);
+      setCurrentScanId(scanId);
       setParsedData(parsed);
+      setScanResult(result);
       setAppState('editing');
     } catch (error) {
       console.error('[Home] Parse error:', error);
@@ -38,6 +49,8 @@ export default function Home() {
   const handleBackToScan = () => {
     setAppState('scanning');
     setParsedData(null);
+    setScanResult(null);
+    setCurrentScanId(null);
     setSaveStatus('idle');
   };
 
@@ -45,6 +58,11 @@ export default function Home() {
     console.log('[Home] Form data saved:', formData);
     setSaveStatus('saving');
 
+    // Export the reviewed values instead of the original scan
+    setScanHistory(history => history.map(entry =>
+      entry.id === currentScanId ? { ...entry, parsed: { ...entry.parsed, data: { ...entry.parsed.data, ...formData } } } : entry
+    ));
+
     try {
       // Simulate API call
       await new Promise(resolve => setTimeout(resolve, 1000));
@@ -118,6 +136,11 @@ export default function Home() {
                   <span className="px-3 py-1 bg-primary/10 text-primary rounded-full">Muster 6</span>
                   <span className="px-3 py-1 bg-primary/10 text-primary rounded-full">Muster 12</span>
                   <span className="px-3 py-1 bg-primary/10 text-primary rounded-full">Muster 16</span>
+                  <span className="px-3 py-1 bg-primary/10 text-primary rounded-full">Muster 17</span>
+                  <span className="px-3 py-1 bg-primary/10 text-primary rounded-full">Muster 18</span>
+                  <span className="px-3 py-1 bg-primary/10 text-primary rounded-full">Muster 39</span>
+                  <span className="px-3 py-1 bg-primary/10 text-primary rounded-full">Muster 52</span>
+                  <span className="px-3 py-1 bg-primary/10 text-primary rounded-full">Muster 61</span>
                   <span className="px-3 py-1 bg-muted text-muted-foreground rounded-full">+ more</span>
                 </div>
               </header>
@@ -126,11 +149,16 @@ export default function Home() {
               <div className="animate-slide-up">
                 <SimpleScanDropzone onScanSuccess={handleScanSuccess} />
               </div>
+
+              {/* Batch Export */}
+              <ScanHistoryExport entries={scanHistory} onClear={() => setScanHistory([])} />
             </section>
           )}
 
           {appState === 'editing' && parsedData && (
             <section className="max-w-7xl mx-auto animate-fade-in" aria-labelledby="form-heading">
+              {scanResult && <ScanResultSummary result={scanResult} className="mb-4" />}
+
               {/* Editable Form */}
               <EditableHealthcareForm
                 parsedData={parsedData}
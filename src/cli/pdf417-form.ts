@@ -0,0 +1,263 @@
+// Purpose: Command-line batch decoding of scanned forms (PNG, JPEG, TIFF, PDF) without a browser
+// Writes JSON, CSV or FHIR next to each scan (or into --out) and prints a summary of failures
+
+import { parseArgs } from 'node:util';
+import { statSync, watch } from 'node:fs';
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { NotFoundException } from '@zxing/library';
+import { ParsedBarcodeData } from '@/types/healthcare';
+import { BarcodeServiceError, parseBarcodeText } from '@/lib/barcode-service';
+import { decodeImagePages } from '@/lib/node-image-decoder';
+import { PixelBarcodeScanner } from '@/lib/pixel-scanner';
+import { TabularExporter } from '@/lib/tabular-export';
+import { FhirBundleExporter } from '@/lib/fhir-exporter';
+
+type OutputFormat = 'json' | 'csv' | 'fhir';
+
+interface CliOptions {
+  format: OutputFormat;
+  outDir?: string; // Default: next to the input file
+  recursive: boolean;
+  locale: string; // Date format of CSV output
+}
+
+interface FileResult {
+  file: string;
+  forms: ParsedBarcodeData[];
+  failures: { page?: number; code: string; message: string }[];
+  outputs: string[];
+}
+
+const SUPPORTED_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.tif', '.tiff', '.pdf'];
+// Scanners write files in chunks; a file counts as complete once its size stops changing
+const WATCH_SETTLE_MS = 1000;
+
+const USAGE = `Usage: pdf417-form scan <files|directories...> [options]
+
+Decodes PDF417 barcodes of German healthcare forms from PNG, JPEG, TIFF and PDF files.
+
+Options:
+  -f, --format <json|csv|fhir>  Output per input file (default: json)
+  -o, --out <dir>               Output directory (default: next to each input file)
+  -r, --recursive               Include subdirectories
+      --locale <locale>         Date format for CSV output (default: de-DE)
+  -w, --watch                   Keep running and process new files in the given directories
+  -v, --verbose                 Show decoder and parser logs
+  -h, --help                    Show this help
+
+Exit code 1 if any file failed, 2 on usage errors.`;
+
+const print = (line = '') => process.stdout.write(`${line}\n`);
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f', default: 'json' },
+      out: { type: 'string', short: 'o' },
+      recursive: { type: 'boolean', short: 'r', default: false },
+      locale: { type: 'string', default: 'de-DE' },
+      watch: { type: 'boolean', short: 'w', default: false },
+      verbose: { type: 'boolean', short: 'v', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+
+  const [command, ...inputs] = positionals;
+  if (values.help || command !== 'scan' || inputs.length === 0) {
+    print(USAGE);
+    return values.help ? 0 : 2;
+  }
+  if (!['json', 'csv', 'fhir'].includes(values.format!)) {
+    process.stderr.write(`Unknown format "${values.format}" (expected json, csv or fhir)\n`);
+    return 2;
+  }
+  if (!values.verbose) {
+    // The libraries log every step for the browser console; keep the CLI output readable
+    console.log = () => {};
+  }
+
+  const options: CliOptions = {
+    format: values.format as OutputFormat,
+    outDir: values.out,
+    recursive: values.recursive!,
+    locale: values.locale!
+  };
+  if (options.outDir) {
+    await mkdir(options.outDir, { recursive: true });
+  }
+
+  const results: FileResult[] = [];
+  for (const file of await collectFiles(inputs, options.recursive)) {
+    results.push(await processFile(file, options));
+  }
+
+  if (values.watch) {
+    await watchDirectories(inputs, options, results);
+  }
+  printSummary(results);
+  return results.some(result => result.failures.length > 0) ? 1 : 0;
+}
+
+/**
+ * Supported files among the arguments, expanding directories
+ */
+async function collectFiles(inputs: string[], recursive: boolean): Promise<string[]> {
+  const files: string[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    if (!info) {
+      process.stderr.write(`Not found: ${input}\n`);
+    } else if (info.isDirectory()) {
+      const entries = await readdir(input, { withFileTypes: true });
+      const children = entries
+        .filter(entry => entry.isFile() ? isSupported(entry.name) : recursive && entry.isDirectory())
+        .map(entry => path.join(input, entry.name))
+        .sort();
+      files.push(...await collectFiles(children, recursive));
+    } else {
+      files.push(input);
+    }
+  }
+  return files;
+}
+
+function isSupported(file: string): boolean {
+  return SUPPORTED_EXTENSIONS.includes(path.extname(file).toLowerCase());
+}
+
+/**
+ * Decode every page of a file, parse the barcodes and write the output files
+ */
+async function processFile(file: string, options: CliOptions): Promise<FileResult> {
+  const result: FileResult = { file, forms: [], failures: [], outputs: [] };
+  const scanner = new PixelBarcodeScanner();
+
+  try {
+    const pages = await decodeImagePages(new Uint8Array(await readFile(file)));
+    if (pages.length === 0) {
+      result.failures.push({ code: 'NO_IMAGE', message: 'No supported image found in file' });
+    }
+    pages.forEach((image, pageIndex) => {
+      const page = pages.length > 1 ? pageIndex + 1 : undefined;
+      try {
+        result.forms.push(parseBarcodeText(scanner.scan(image).text));
+      } catch (error) {
+        result.failures.push({ page, ...describeError(error) });
+      }
+    });
+  } catch (error) {
+    result.failures.push({ code: 'INVALID_DATA', message: `File could not be read: ${describeError(error).message}` });
+  }
+
+  // Decoded forms are kept in the result even if their output cannot be written (e.g., missing permissions)
+  if (result.forms.length > 0) {
+    try {
+      result.outputs = await writeOutputs(file, result.forms, options);
+    } catch (error) {
+      result.failures.push({ code: 'WRITE_FAILED', message: `Output could not be written: ${describeError(error).message}` });
+    }
+  }
+
+  const status = result.failures.length === 0
+    ? `OK   ${file} -> ${result.outputs.map(output => path.basename(output)).join(', ')}`
+    : `FAIL ${file}: ${result.failures.map(failure => `${failure.page ? `page ${failure.page}: ` : ''}${failure.code}`).join(', ')}`;
+  print(status);
+  return result;
+}
+
+function describeError(error: unknown): { code: string; message: string } {
+  if (error instanceof BarcodeServiceError) {
+    return { code: error.code, message: error.message };
+  }
+  if (error instanceof NotFoundException) {
+    return { code: 'NO_BARCODE', message: 'No PDF417 barcode found' };
+  }
+  return { code: 'INVALID_DATA', message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * One CSV per input file; JSON and FHIR get one file per form ("-p2" suffix from the second form on)
+ */
+async function writeOutputs(file: string, forms: ParsedBarcodeData[], options: CliOptions): Promise<string[]> {
+  const base = path.join(options.outDir || path.dirname(file), path.parse(file).name);
+  const outputs: { file: string; content: string }[] = [];
+
+  if (options.format === 'csv') {
+    outputs.push({ file: `${base}.csv`, content: new TabularExporter({ locale: options.locale }).toCSV(forms) });
+  } else {
+    const fhirExporter = new FhirBundleExporter();
+    forms.forEach((form, index) => {
+      const suffix = index === 0 ? '' : `-p${index + 1}`;
+      outputs.push(options.format === 'fhir'
+        ? { file: `${base}${suffix}.fhir.json`, content: JSON.stringify(fhirExporter.createBundle(form.formType, form.data), null, 2) }
+        : { file: `${base}${suffix}.json`, content: JSON.stringify(form, null, 2) });
+    });
+  }
+
+  for (const output of outputs) {
+    await writeFile(output.file, output.content);
+  }
+  return outputs.map(output => output.file);
+}
+
+/**
+ * Process files that appear in the input directories until interrupted (Ctrl+C)
+ */
+function watchDirectories(inputs: string[], options: CliOptions, results: FileResult[]): Promise<void> {
+  const seen = new Map(results.map(result => [path.resolve(result.file), 0]));
+  const pending = new Map<string, NodeJS.Timeout>();
+  let queue = Promise.resolve();
+
+  const settle = (file: string, lastSize = -1) => {
+    clearTimeout(pending.get(file));
+    pending.set(file, setTimeout(async () => {
+      const info = await stat(file).catch(() => null);
+      if (!info?.isFile()) {
+        pending.delete(file);
+      } else if (info.size !== lastSize || info.size === 0) {
+        settle(file, info.size);
+      } else if (seen.get(path.resolve(file)) !== info.mtimeMs) {
+        pending.delete(file);
+        seen.set(path.resolve(file), info.mtimeMs);
+        queue = queue.then(async () => { results.push(await processFile(file, options)); });
+      } else {
+        pending.delete(file);
+      }
+    }, WATCH_SETTLE_MS));
+  };
+
+  const directories = inputs.filter(input => statSync(input, { throwIfNoEntry: false })?.isDirectory());
+  return new Promise(resolve => {
+    const watchers = directories.map(input => watch(input, { recursive: options.recursive }, (_event, fileName) => {
+      const file = fileName && path.join(input, fileName.toString());
+      if (file && isSupported(file)) settle(file);
+    }));
+    print(`Watching ${directories.join(', ') || 'nothing (no directories given)'} for new scans (Ctrl+C to stop)`);
+
+    process.once('SIGINT', () => {
+      watchers.forEach(watcher => watcher.close());
+      pending.forEach(timeout => clearTimeout(timeout));
+      queue.then(() => resolve());
+    });
+  });
+}
+
+function printSummary(results: FileResult[]): void {
+  const failed = results.filter(result => result.failures.length > 0);
+  const formCount = results.reduce((sum, result) => sum + result.forms.length, 0);
+  print();
+  print(`${results.length} files, ${formCount} forms decoded, ${failed.length} files with failures`);
+  failed.forEach(result => result.failures.forEach(failure => {
+    print(`  ${result.file}${failure.page ? ` (page ${failure.page})` : ''}: ${failure.code} ${failure.message}`);
+  }));
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    process.stderr.write(`${error instanceof Error ? error.stack : error}\n`);
+    process.exit(2);
+  }
+);
@@ -11,7 +11,7 @@ import { ZXingTest } from './zxing-test';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Camera, TestTube2, FileText, Stethoscope, Activity } from 'lucide-react';
+import { Camera, TestTube2, FileText, Stethoscope, Activity, Footprints, Hand, Microscope, ClipboardList, HeartPulse } from 'lucide-react';
 
 interface BarcodeInputProps {
   onDataParsed: (data: ParsedBarcodeData | null) => void;
@@ -39,8 +39,8 @@ export function BarcodeInput({ onDataParsed }: BarcodeInputProps) {
       icon: TestTube2,
       data: [
         '10', 'a', '01', 'REQ12345', 'Mustermann', 'Max', '19850615', '20241231',
-        '123456789', 'AOK Bayern', 'BY', 'A123456789', '1', '00', '01',
-        '123456789', '987654321', '123456789', '987654321', '20241226', 'M',
+        '108310400', 'AOK Bayern', 'BY', 'A123456780', '1', '00', '01',
+        '711234500', '987654421', '711234500', '987654421', '20241226', 'M',
         'Dr.', '80331', 'München', 'Maximilianstraße', '1',
         'V70.9 - Routineuntersuchung', '', 'Ja', 'Blutbild, Leberwerte'
       ].join('\t')
@@ -51,7 +51,7 @@ export function BarcodeInput({ onDataParsed }: BarcodeInputProps) {
       data: [
         '06', '11', 'Leuthäuser', 'Angelika', '19740414', '', '105177505',
         'Techniker Krankenkasse', '46', 'Y207887976', '1', '00', '00',
-        '409601100', '948301053', '20231116', 'W', '', '', '60322', 'Frankfurt',
+        '469601100', '948301053', '20231116', 'W', '', '', '60322', 'Frankfurt',
         'Sömmerringstr.', '12', 'D', '', '', '', '', '', '', 'Radiologie', '', '3',
         '', 'bek. Multiple Sklerose, Thx: Thx- frei',
         '', 'Erbitte cMRT OHNE Kontrast mit der Frage nach  Befunddynamik gegenüber der Vorbildgebung, Danke'
@@ -62,16 +62,74 @@ export function BarcodeInput({ onDataParsed }: BarcodeInputProps) {
       icon: Stethoscope,
       data: [
         '12', 'a', '01', 'Weber', 'Hans', '19401205', '20241231',
-        '555666777', 'Barmer GEK', 'C555666777', '1', '07',
+        '104940005', 'Barmer GEK', 'C555666771', '1', '07',
         '20241226', 'M', 'Hauptstraße', '15', '10115', 'Berlin'
       ].join('\t')
     },
     '16': {
-      name: 'Muster 16 - Medizinische Rehabilitation',
+      name: 'Muster 16 - Arzneiverordnung',
       icon: Activity,
       data: [
-        '16', 'a', '01', 'Fischer', 'Maria', '19751120', '20241231',
-        '888999000', 'D888999000', '1', '20241226', 'W'
+        '16', 'a', '01', 'Fischer', 'Maria', '19751120', '20251231',
+        '104940005', 'BARMER', '20', 'D888999008', '1', '00', '00',
+        '201234500', '567890001', '20241226', 'W', '', '44135', 'Dortmund', 'Westenhellweg', '9',
+        '0', '1', '0', '0', '0', '0', '', '', '0', '0', '0', '0', '0',
+        '01234562', 'Ibuprofen 600 mg Filmtabletten', '1', 'N2', '1-1-1', '0',
+        '12345678', 'Pantoprazol 20 mg', '1', 'N1', '1-0-0', '1'
+      ].join('\t')
+    },
+    '17': {
+      name: 'Muster 17 - Podologie',
+      icon: Footprints,
+      data: [
+        '17', 'a', '01', 'Schulz', 'Peter', '19520309', '20251231',
+        '101575519', 'Techniker Krankenkasse', '71', 'S123456788', '5', '00', '01',
+        '711234500', '123456601', '20241226', 'M', '', '90402', 'Nürnberg', 'Königstraße', '7',
+        'E11.74', 'NF', 'Hyperkeratose, Nagelverdickung', 'Neuropathie beidseits', 'Podologische Komplexbehandlung',
+        '6', '1x monatlich', '0', '1', '0', 'Vermeidung von Druckstellen'
+      ].join('\t')
+    },
+    '18': {
+      name: 'Muster 18 - Ergotherapie',
+      icon: Hand,
+      data: [
+        '18', 'a', '01', 'Becker', 'Lena', '20150402', '20251231',
+        '104940005', 'BARMER', '38', 'B987654320', '3', '00', '00',
+        '381234500', '234567701', '20241226', 'W', '', '50667', 'Köln', 'Hohe Straße', '21',
+        'F82', 'EN2', 'Störung der Grob- und Feinmotorik', 'Sensomotorisch-perzeptive Behandlung', '',
+        '10', '1x wöchentlich', '0', '0', '1', '0', 'Verbesserung der Handgeschicklichkeit'
+      ].join('\t')
+    },
+    '39': {
+      name: 'Muster 39 - Krebsfrüherkennung',
+      icon: Microscope,
+      data: [
+        '39', 'a', '01', 'Wagner', 'Sabine', '19880721', '20251231',
+        '108310400', 'AOK Bayern', '71', 'W112233448', '1', '00', '00',
+        '711234500', '345678801', '20241226', 'W', '', '80331', 'München', 'Sendlinger Str.', '3',
+        '1', '0', '20241201', '0', '0', '1', '1', 'I', 'Portio unauffällig', ''
+      ].join('\t')
+    },
+    '52': {
+      name: 'Muster 52 - Bericht bei AU',
+      icon: ClipboardList,
+      data: [
+        '52', 'a', '01', 'Hoffmann', 'Jens', '19700115', '20251231',
+        '101575519', 'Techniker Krankenkasse', '46', 'H556677889', '1', '00', '00',
+        '461234500', '456789901', '20241226', 'M', '', '60311', 'Frankfurt', 'Zeil', '44',
+        '20241015', '20250115', 'Lumboischialgie links', 'M54.4', 'Physiotherapie, Analgesie',
+        '1', '0', '20241210'
+      ].join('\t')
+    },
+    '61': {
+      name: 'Muster 61 - Rehabilitation',
+      icon: HeartPulse,
+      data: [
+        '61', 'a', '01', 'Neumann', 'Ursula', '19580830', '20251231',
+        '108310400', 'AOK Bayern', '71', 'N445566778', '5', '00', '00',
+        '711234500', '678901101', '20241226', 'W', '', '93047', 'Regensburg', 'Domplatz', '2',
+        'Z.n. Hüft-TEP rechts', 'Z96.64', 'Selbstständige Mobilität im Alltag', '2',
+        'Eingeschränkte Gehstrecke, ambulante Therapie ausgeschöpft', 'Reha-Klinik Bad Abbach', '0'
       ].join('\t')
     }
   };
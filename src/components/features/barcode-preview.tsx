@@ -0,0 +1,109 @@
+// Purpose: Regenerated PDF417 barcode for the edited form data, with SVG and PNG download
+// Generation is triggered from the form's action bar through the component's ref
+
+'use client';
+
+import { Ref, useImperativeHandle, useState } from 'react';
+import { PDF417HealthcareEncoder, RoundTripDifference } from '@/lib/pdf417-encoder';
+import { downloadFile } from '@/lib/download';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Barcode, Download } from 'lucide-react';
+
+export interface BarcodePreviewHandle {
+  generate: () => void;
+}
+
+interface BarcodePreviewProps {
+  ref?: Ref<BarcodePreviewHandle>;
+  formType: string;
+  rawFields: string[]; // Raw fields of the original scan; reserved and unmapped columns are kept
+  getEditedData: () => Record<string, unknown>;
+  getFieldLabel: (fieldName: string) => string;
+}
+
+export function BarcodePreview({ ref, formType, rawFields, getEditedData, getFieldLabel }: BarcodePreviewProps) {
+  const [barcode, setBarcode] = useState<{ payload: string; svg: string; differences: RoundTripDifference[] } | null>(null);
+  const [barcodeError, setBarcodeError] = useState<string | null>(null);
+  const encoder = new PDF417HealthcareEncoder();
+
+  const handleGenerateBarcode = () => {
+    try {
+      const editedData = getEditedData();
+      const differences = encoder.verifyRoundTrip(editedData, { baseFields: rawFields });
+      const payload = encoder.serialize(editedData, { baseFields: rawFields });
+      setBarcode({ payload, svg: encoder.toSVG(payload), differences });
+      setBarcodeError(null);
+    } catch (error) {
+      console.error('[BarcodePreview] Barcode generation failed:', error);
+      setBarcode(null);
+      setBarcodeError(error instanceof Error ? error.message : 'Barcode generation failed');
+    }
+  };
+
+  useImperativeHandle(ref, () => ({ generate: handleGenerateBarcode }));
+
+  if (!barcode && !barcodeError) {
+    return null;
+  }
+
+  return (
+    <Card className="card-enhanced mt-8">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Barcode className="h-5 w-5" />
+          Regenerated PDF417 Barcode
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {barcodeError && (
+          <Alert variant="destructive">
+            <AlertDescription>{barcodeError}</AlertDescription>
+          </Alert>
+        )}
+        {barcode && (
+          <>
+            {barcode.differences.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  Round trip check failed; the barcode would read back differently:{' '}
+                  {barcode.differences.map(diff => `${getFieldLabel(diff.field)} ("${diff.expected}" → "${diff.actual}")`).join(', ')}
+                </AlertDescription>
+              </Alert>
+            )}
+            <img
+              src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(barcode.svg)}`}
+              alt="Regenerated PDF417 barcode"
+              className="max-w-full bg-white p-2 rounded-md border"
+            />
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadFile(
+                  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(barcode.svg)}`,
+                  `barcode-${formType}-${new Date().toISOString().split('T')[0]}.svg`
+                )}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                SVG
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadFile(
+                  encoder.toPNG(barcode.payload, { scale: 3 }),
+                  `barcode-${formType}-${new Date().toISOString().split('T')[0]}.png`
+                )}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                PNG
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
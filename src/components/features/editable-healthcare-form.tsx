@@ -3,13 +3,21 @@
 
 'use client';
 
-import { useState } from 'react';
-import { ParsedBarcodeData } from '@/types/healthcare';
-import { formatDate, cn } from '@/lib/utils';
+import { useRef, useState } from 'react';
+import { ParsedBarcodeData, ValidationIssue } from '@/types/healthcare';
+import { formatDate, parseDisplayDate, cn } from '@/lib/utils';
+import { FhirBundleExporter } from '@/lib/fhir-exporter';
+import { LdtWriter } from '@/lib/ldt-writer';
+import { downloadBlob, downloadFile } from '@/lib/download';
+import { BarcodePreview, BarcodePreviewHandle } from './barcode-preview';
+import { FormPdfPanel, FormPdfPanelHandle } from './form-pdf-panel';
+import { GdtPanel } from './gdt-panel';
+import { Hl7Panel } from './hl7-panel';
+import { ExportTemplateButtons, ExportTemplatePanel, useExportTemplates } from './export-template-panel';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { ArrowLeft, Save, AlertCircle, CheckCircle, FileText, User, Shield, Building2, Stethoscope, Download, Copy, Eye } from 'lucide-react';
+import { ArrowLeft, Save, AlertCircle, CheckCircle, FileText, User, Shield, Building2, Stethoscope, Download, Copy, Eye, Barcode, Printer, FileJson, TestTube2 } from 'lucide-react';
 
 interface EditableHealthcareFormProps {
   parsedData: ParsedBarcodeData;
@@ -19,7 +27,74 @@ interface EditableHealthcareFormProps {
   isProcessing?: boolean;
 }
 
+// English labels for form-specific fields rendered generically
+const formSpecificLabels: Record<string, string> = {
+  anforderungsIdent: 'Request Identifier',
+  verdachtsdiagnose: 'Suspected Diagnosis',
+  befundkopie: 'Copy of Findings',
+  bsnrUeberweiser: 'Referring Practice Number',
+  lanrUeberweiser: 'Referring Physician ID',
+  fachbereich: 'Department',
+  fachrichtung: 'Specialty',
+  icd10Code: 'ICD-10 Code',
+  diagnosegruppe: 'Diagnosis Group',
+  leitsymptomatik: 'Leading Symptoms',
+  fussbefund: 'Foot Findings',
+  heilmittel: 'Prescribed Therapy',
+  ergaenzendesHeilmittel: 'Complementary Therapy',
+  anzahlBehandlungen: 'Number of Treatments',
+  therapiefrequenz: 'Treatment Frequency',
+  gruppentherapie: 'Group Therapy',
+  hausbesuch: 'Home Visit',
+  therapiebericht: 'Therapy Report Requested',
+  dringlicherBehandlungsbedarf: 'Urgent Treatment',
+  therapieziele: 'Therapy Goals',
+  untersuchungsart: 'Examination Type',
+  wiederholungsuntersuchung: 'Repeat Examination',
+  letztePeriode: 'Last Period Date',
+  graviditaet: 'Pregnancy',
+  intrauterinpessar: 'IUD',
+  hormonanwendung: 'Hormone Use',
+  hpvImpfung: 'HPV Vaccination',
+  vorbefund: 'Previous Cytology Result',
+  klinischerBefund: 'Clinical Findings',
+  hpvTestErgebnis: 'HPV Test Result',
+  arbeitsunfaehigSeit: 'Incapacity Since Date',
+  voraussichtlichArbeitsunfaehigBis: 'Expected Incapacity End Date',
+  behandlungsmassnahmen: 'Treatment Measures',
+  stufenweiseWiedereingliederung: 'Gradual Reintegration',
+  rehabilitationEmpfohlen: 'Rehabilitation Recommended',
+  anfragedatum: 'Insurer Request Date',
+  gebuehrFrei: 'Co-payment Exempt',
+  gebuehrPflichtig: 'Co-payment Due',
+  noctu: 'Noctu',
+  sonstige: 'Other Payer',
+  unfall: 'Accident',
+  arbeitsunfall: 'Work Accident',
+  unfalltag: 'Accident Date',
+  unfallbetrieb: 'Employer at Accident',
+  bvg: 'BVG',
+  hilfsmittel: 'Medical Aid',
+  impfstoff: 'Vaccine',
+  sprechstundenbedarf: 'Practice Supplies',
+  begruendungspflicht: 'Justification Required',
+  verordnungen: 'Prescription',
+  pzn: 'PZN',
+  arzneimittel: 'Medication',
+  packungsanzahl: 'Packages',
+  normgroesse: 'Package Size',
+  dosierung: 'Dosage',
+  autIdem: 'Aut Idem Excluded',
+  rehaDiagnose: 'Rehabilitation Diagnosis',
+  rehabilitationsziel: 'Rehabilitation Goal',
+  rehaForm: 'Rehabilitation Type',
+  rehaBegruendung: 'Justification',
+  zuweisungsempfehlung: 'Recommended Facility',
+  begleitpersonErforderlich: 'Accompanying Person Required'
+};
+
 interface FormField {
+  name: string; // Schema field name, used to match validation issues
   label: string;
   value: string;
   fieldNumber?: number | string;
@@ -27,6 +102,7 @@ interface FormField {
   type?: 'text' | 'date' | 'select' | 'textarea';
   options?: string[];
   section: 'form' | 'patient' | 'insurance' | 'provider' | 'medical';
+  readOnly?: boolean; // Derived by the parser; shown but never written back
 }
 
 export function EditableHealthcareForm({
@@ -36,7 +112,17 @@ export function EditableHealthcareForm({
   saveStatus = 'idle',
   isProcessing = false
 }: EditableHealthcareFormProps) {
-  const { formType, isValid, errors, data } = parsedData;
+  const { formType, isValid, issues, data } = parsedData;
+
+  const getFieldIssues = (fieldName: string): ValidationIssue[] =>
+    issues.filter(issue => issue.field === fieldName);
+
+  const getFieldLabel = (fieldName: string): string =>
+    formFields.find(field => field.name === fieldName)?.label || fieldName;
+
+  // Partial birth dates ("1974", "1974-03") cannot be shown in a native date input
+  const isCompleteOrEmptyDate = (value?: string | null): boolean =>
+    !value || /^\d{4}-\d{2}-\d{2}$/.test(value);
 
   // Convert parsed data to editable form fields
   const getFormFields = (): FormField[] => {
@@ -44,60 +130,104 @@ export function EditableHealthcareForm({
 
     // Form Information
     fields.push(
-      { label: 'Form Type', value: data.formularcode || '', fieldNumber: 1, section: 'form', type: 'select', options: ['06', '10', '12', '16'] },
-      { label: 'Form Supplement', value: data.formularcodeergaenzung || '', fieldNumber: 2, section: 'form' },
-      { label: 'Version', value: data.versionsnummer || '', fieldNumber: 3, section: 'form' }
+      { name: 'formularcode', label: 'Form Type', value: data.formularcode || '', fieldNumber: 1, section: 'form', type: 'select', options: ['06', '10', '12', '16', '17', '18', '39', '52', '61'] },
+      { name: 'formularcodeergaenzung', label: 'Form Supplement', value: data.formularcodeergaenzung || '', fieldNumber: 2, section: 'form' },
+      { name: 'versionsnummer', label: 'Version', value: data.versionsnummer || '', fieldNumber: 3, section: 'form' }
     );
 
     // Patient Information
     fields.push(
-      { label: 'Last Name', value: data.nachname || '', fieldNumber: 4, section: 'patient', placeholder: 'Enter last name' },
-      { label: 'First Name', value: data.vorname || '', fieldNumber: 5, section: 'patient', placeholder: 'Enter first name' },
-      { label: 'Birth Date', value: formatDate(data.geburtsdatum) || '', fieldNumber: 6, section: 'patient', type: 'date' },
-      { label: 'Gender', value: data.geschlecht || '', fieldNumber: 18, section: 'patient', type: 'select', options: ['M', 'W', 'X', 'D'] },
-      { label: 'Title', value: data.titel || '', fieldNumber: 19, section: 'patient', placeholder: 'Dr., Prof., etc.' }
+      { name: 'nachname', label: 'Last Name', value: data.nachname || '', fieldNumber: 4, section: 'patient', placeholder: 'Enter last name' },
+      { name: 'vorname', label: 'First Name', value: data.vorname || '', fieldNumber: 5, section: 'patient', placeholder: 'Enter first name' },
+      { name: 'geburtsdatum', label: 'Birth Date', value: formatDate(data.geburtsdatum) || '', fieldNumber: 6, section: 'patient', type: isCompleteOrEmptyDate(data.geburtsdatum) ? 'date' : 'text', placeholder: 'DD.MM.YYYY, MM.YYYY or YYYY' },
+      { name: 'geschlecht', label: 'Gender', value: data.geschlecht || '', fieldNumber: 18, section: 'patient', type: 'select', options: ['M', 'W', 'X', 'D'] },
+      { name: 'titel', label: 'Title', value: data.titel || '', fieldNumber: 19, section: 'patient', placeholder: 'Dr., Prof., etc.' }
     );
 
     // Address
     fields.push(
-      { label: 'Street', value: data.strasse || '', fieldNumber: '23*', section: 'patient', placeholder: 'Street name' },
-      { label: 'House Number', value: data.hausnummer || '', fieldNumber: '24*', section: 'patient', placeholder: 'Number' },
-      { label: 'Postal Code', value: data.plz || '', fieldNumber: 22, section: 'patient', placeholder: '12345' },
-      { label: 'City', value: data.ort || '', fieldNumber: '25*', section: 'patient', placeholder: 'City name' }
+      { name: 'strasse', label: 'Street', value: data.strasse || '', fieldNumber: '23*', section: 'patient', placeholder: 'Street name' },
+      { name: 'hausnummer', label: 'House Number', value: data.hausnummer || '', fieldNumber: '24*', section: 'patient', placeholder: 'Number' },
+      { name: 'plz', label: 'Postal Code', value: data.plz || '', fieldNumber: 22, section: 'patient', placeholder: '12345' },
+      { name: 'ort', label: 'City', value: data.ort || '', fieldNumber: '25*', section: 'patient', placeholder: 'City name' }
     );
 
     // Insurance Information
     fields.push(
-      { label: 'Insurance Provider ID', value: data.kostentraegerkennung || '', fieldNumber: 8, section: 'insurance', placeholder: '9-digit ID' },
-      { label: 'Insurance Provider', value: data.kostentraegername || '', fieldNumber: '26*', section: 'insurance', placeholder: 'AOK, TK, Barmer, etc.' },
-      { label: 'Insured Person ID', value: data.versichertenId || '', fieldNumber: 9, section: 'insurance', placeholder: 'A123456789' },
-      { label: 'Insurance Type', value: data.versichertenart || '', fieldNumber: 10, section: 'insurance', type: 'select', options: ['1', '3', '5'] },
-      { label: 'Coverage End Date', value: formatDate(data.versicherungsschutzEnde) || '', fieldNumber: 7, section: 'insurance', type: 'date' },
-      { label: 'Special Person Group', value: data.besonderePersonengruppe || '', fieldNumber: 11, section: 'insurance', type: 'select', options: ['00', '04', '06', '07', '08', '09'] },
-      { label: 'DMP Identifier', value: data.dmpKennzeichnung || '', fieldNumber: 12, section: 'insurance', placeholder: '2-digit code' },
-      { label: 'WOP Identifier', value: data.wopKennzeichen || '', fieldNumber: '10*', section: 'insurance', placeholder: 'WOP identification' }
+      { name: 'kostentraegerkennung', label: 'Insurance Provider ID', value: data.kostentraegerkennung || '', fieldNumber: 8, section: 'insurance', placeholder: '9-digit ID' },
+      { name: 'kostentraegername', label: 'Insurance Provider', value: data.kostentraegername || '', fieldNumber: '26*', section: 'insurance', placeholder: 'AOK, TK, Barmer, etc.' },
+      { name: 'versichertenId', label: 'Insured Person ID', value: data.versichertenId || '', fieldNumber: 9, section: 'insurance', placeholder: 'A123456789' },
+      { name: 'versichertenart', label: 'Insurance Type', value: data.versichertenart || '', fieldNumber: 10, section: 'insurance', type: 'select', options: ['1', '3', '5'] },
+      { name: 'versicherungsschutzEnde', label: 'Coverage End Date', value: formatDate(data.versicherungsschutzEnde) || '', fieldNumber: 7, section: 'insurance', type: 'date' },
+      { name: 'besonderePersonengruppe', label: 'Special Person Group', value: data.besonderePersonengruppe || '', fieldNumber: 11, section: 'insurance', type: 'select', options: ['00', '04', '06', '07', '08', '09'] },
+      { name: 'dmpKennzeichnung', label: 'DMP Identifier', value: data.dmpKennzeichnung || '', fieldNumber: 12, section: 'insurance', placeholder: '2-digit code' },
+      { name: 'wopKennzeichen', label: 'WOP Identifier', value: data.wopKennzeichen || '', fieldNumber: '10*', section: 'insurance', placeholder: 'WOP identification' },
+      // Looked up in the Kostenträger directory while parsing
+      { name: 'kostentraegernameVerzeichnis', label: 'Insurance Provider (Directory)', value: data.kostentraegernameVerzeichnis || '', section: 'insurance', readOnly: true },
+      { name: 'kostentraegerTyp', label: 'Payer Type', value: data.kostentraegerTyp || '', section: 'insurance', readOnly: true },
+      { name: 'kostentraegernameAbweichung', label: 'Provider Name Mismatch', value: data.kostentraegernameAbweichung ? 'Yes' : '', section: 'insurance', readOnly: true }
     );
 
     // Provider Information
     fields.push(
-      { label: 'Issue Date', value: formatDate(data.ausstellungsdatum) || '', fieldNumber: 15, section: 'provider', type: 'date' },
-      { label: 'Practice Location Number', value: data.betriebsstaettennummer || data.bsnrErstveranlasser || '', fieldNumber: 13, section: 'provider', placeholder: '9-digit BSNR' },
-      { label: 'Physician ID (LANR)', value: data.lanr || data.lanrErstveranlasser || '', fieldNumber: 14, section: 'provider', placeholder: '9-digit LANR' }
+      { name: 'ausstellungsdatum', label: 'Issue Date', value: formatDate(data.ausstellungsdatum) || '', fieldNumber: 15, section: 'provider', type: 'date' },
+      { name: data.betriebsstaettennummer ? 'betriebsstaettennummer' : 'bsnrErstveranlasser', label: 'Practice Location Number', value: data.betriebsstaettennummer || data.bsnrErstveranlasser || '', fieldNumber: 13, section: 'provider', placeholder: '9-digit BSNR' },
+      { name: data.lanr ? 'lanr' : 'lanrErstveranlasser', label: 'Physician ID (LANR)', value: data.lanr || data.lanrErstveranlasser || '', fieldNumber: 14, section: 'provider', placeholder: '9-digit LANR' }
     );
 
     // Medical Information
     if (data.diagnose || data.auftrag || data.ueberweisungsgrund) {
       fields.push(
-        { label: 'Diagnosis', value: String(data.diagnose || ''), fieldNumber: '16*', section: 'medical', placeholder: 'Primary diagnosis' },
-        { label: 'Order/Assignment', value: String(data.auftrag || ''), fieldNumber: '27*', section: 'medical', placeholder: 'Lab tests, procedures, etc.' },
-        { label: 'Referral Reason', value: String(data.ueberweisungsgrund || ''), fieldNumber: '28*', section: 'medical', placeholder: 'Reason for referral', type: 'textarea' }
+        { name: 'diagnose', label: 'Diagnosis', value: String(data.diagnose || ''), fieldNumber: '16*', section: 'medical', placeholder: 'Primary diagnosis' },
+        { name: 'auftrag', label: 'Order/Assignment', value: String(data.auftrag || ''), fieldNumber: '27*', section: 'medical', placeholder: 'Lab tests, procedures, etc.' },
+        { name: 'ueberweisungsgrund', label: 'Referral Reason', value: String(data.ueberweisungsgrund || ''), fieldNumber: '28*', section: 'medical', placeholder: 'Reason for referral', type: 'textarea' }
       );
     }
 
-    return fields.filter(field => field.value || field.label.includes('Date') || field.type === 'select');
+    // Form-specific fields without a dedicated input above (e.g., Muster 17, 18, 39, 52)
+    const coveredFieldNames = new Set([
+      ...fields.map(field => field.name),
+      'betriebsstaettennummer', 'bsnrErstveranlasser', 'lanr', 'lanrErstveranlasser'
+    ]);
+    const getLabel = (name: string) =>
+      formSpecificLabels[name] || name.replace(/([a-z])([A-Z0-9])/g, '$1 $2').replace(/^./, c => c.toUpperCase());
+    const pushGenericField = (name: string, label: string, value: string) => {
+      const isDate = /^\d{4}-\d{2}-\d{2}$/.test(value);
+      fields.push({
+        name,
+        label,
+        value: isDate ? formatDate(value) || '' : value,
+        section: name.startsWith('bsnr') || name.startsWith('lanr') ? 'provider' : 'medical',
+        type: isDate ? 'date' : value.length > 60 ? 'textarea' : 'text'
+      });
+    };
+
+    Object.entries(data).forEach(([name, value]) => {
+      if (coveredFieldNames.has(name)) return;
+
+      if (typeof value === 'string') {
+        pushGenericField(name, getLabel(name), value);
+      } else if (Array.isArray(value)) {
+        // Repeated blocks (e.g., prescription lines) are flattened to "group[i].field"
+        value.forEach((entry: Record<string, unknown>, entryIndex) => {
+          Object.entries(entry).forEach(([entryField, entryValue]) => {
+            if (typeof entryValue !== 'string') return;
+            pushGenericField(`${name}[${entryIndex}].${entryField}`, `${getLabel(name)} ${entryIndex + 1}: ${getLabel(entryField)}`, entryValue);
+          });
+        });
+      }
+    });
+
+    return fields.filter(field =>
+      field.value || field.label.includes('Date') || field.type === 'select' || getFieldIssues(field.name).length > 0
+    );
   };
 
   const [formFields, setFormFields] = useState<FormField[]>(getFormFields());
+  const [copied, setCopied] = useState(false);
+  const [ldtError, setLdtError] = useState<string | null>(null);
+  const barcodePreview = useRef<BarcodePreviewHandle>(null);
+  const formPdfPanel = useRef<FormPdfPanelHandle>(null);
 
   const updateField = (index: number, value: string) => {
     const updated = [...formFields];
@@ -105,10 +235,75 @@ export function EditableHealthcareForm({
     setFormFields(updated);
   };
 
-  const handleSave = () => {
-    const formData = Object.fromEntries(
-      formFields.map(field => [field.label.toLowerCase().replace(/\s+/g, '_'), field.value])
+  // Map edited values back to schema field names: dates as ISO, "group[i].field" into entry arrays;
+  // read-only fields keep the parser's values
+  const getEditedData = (): Record<string, unknown> => {
+    const edited: Record<string, unknown> = { ...data };
+    formFields.forEach(field => {
+      if (field.readOnly) return;
+      const isDate = field.type === 'date' || field.name === 'geburtsdatum';
+      const value = isDate ? parseDisplayDate(field.value) || field.value : field.value;
+      const groupMatch = field.name.match(/^(\w+)\[(\d+)\]\.(\w+)$/);
+
+      if (groupMatch) {
+        const [, groupName, entryIndex, entryField] = groupMatch;
+        const entries = [...((edited[groupName] as Record<string, unknown>[] | undefined) || [])];
+        entries[Number(entryIndex)] = { ...entries[Number(entryIndex)], [entryField]: value };
+        edited[groupName] = entries;
+      } else {
+        edited[field.name] = value;
+      }
+    });
+    return edited;
+  };
+
+  // Templates are stored per configured practice and appear as buttons next to Copy
+  const exportTemplates = useExportTemplates(getEditedData);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(getEditedData(), null, 2));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('[EditableForm] Copying form data failed:', error);
+    }
+  };
+
+  // JSON keys are the schema field names, the same as the CSV/XLSX columns of the batch export
+  const handleExportJson = () => {
+    downloadFile(
+      'data:application/json;charset=utf-8,' + encodeURIComponent(JSON.stringify(getEditedData(), null, 2)),
+      `healthcare-form-${formType}-${new Date().toISOString().split('T')[0]}.json`
+    );
+  };
+
+  const handleExportFhir = () => {
+    const bundle = new FhirBundleExporter().createBundle(formType, getEditedData());
+    downloadFile(
+      'data:application/fhir+json;charset=utf-8,' + encodeURIComponent(JSON.stringify(bundle, null, 2)),
+      `fhir-bundle-${formType}-${new Date().toISOString().split('T')[0]}.json`
     );
+  };
+
+  // LDT files are ISO-8859-15 encoded for the lab's import
+  // The writer rejects forms that are no longer Muster 10 after editing the form code
+  const handleExportLdt = () => {
+    try {
+      const editedData = getEditedData();
+      downloadBlob(
+        new Blob([new LdtWriter().toBytes(editedData) as BlobPart], { type: 'text/plain;charset=iso-8859-15' }),
+        `auftrag-${editedData.anforderungsIdent || new Date().toISOString().split('T')[0]}.ldt`
+      );
+      setLdtError(null);
+    } catch (error) {
+      console.error('[EditableForm] LDT export failed:', error);
+      setLdtError(error instanceof Error ? error.message : 'LDT export failed');
+    }
+  };
+
+  const handleSave = () => {
+    const formData = getEditedData();
     console.log('[EditableForm] Saving form data:', formData);
     onSave?.(formData);
   };
@@ -118,7 +313,12 @@ export function EditableHealthcareForm({
       '10': 'Muster 10 - Laboratory Request',
       '6': 'Muster 6 - Referral',
       '12': 'Muster 12 - Nursing Care',
-      '16': 'Muster 16 - Rehabilitation'
+      '16': 'Muster 16 - Prescription',
+      '17': 'Muster 17 - Podiatry',
+      '18': 'Muster 18 - Occupational Therapy',
+      '39': 'Muster 39 - Cervical Cancer Screening',
+      '52': 'Muster 52 - Continued Incapacity Report',
+      '61': 'Muster 61 - Rehabilitation'
     };
     return formNames[type] || `Form ${type}`;
   };
@@ -179,6 +379,29 @@ export function EditableHealthcareForm({
                 <span>Form: {data.formularcode}{data.formularcodeergaenzung}</span>
                 <span>•</span>
                 <span>Version: {data.versionsnummer}</span>
+                {parsedData.schema && (
+                  <>
+                    <span>•</span>
+                    <span>
+                      Layout: v{parsedData.schema.validFromVersion || '00'}
+                      {parsedData.schema.validUntilVersion ? `–${parsedData.schema.validUntilVersion}` : '+'}
+                    </span>
+                  </>
+                )}
+                {parsedData.layoutFit && (
+                  <>
+                    <span>•</span>
+                    <span
+                      className={cn(
+                        parsedData.layoutFit.confidence === 'low' && 'text-destructive',
+                        parsedData.layoutFit.confidence === 'medium' && 'text-warning'
+                      )}
+                      title={parsedData.layoutFit.mismatchedFields.join(', ') || undefined}
+                    >
+                      Layout fit: {Math.round(parsedData.layoutFit.score * 100)}% ({parsedData.layoutFit.confidence})
+                    </span>
+                  </>
+                )}
                 {data.ausstellungsdatum && (
                   <>
                     <span>•</span>
@@ -201,32 +424,41 @@ export function EditableHealthcareForm({
             </div>
 
             {/* Action Buttons */}
-            <div className="flex gap-2">
-              <Button variant="outline" size="sm">
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => formPdfPanel.current?.render('full', 'open')}>
                 <Eye className="h-4 w-4 mr-2" />
                 Preview
               </Button>
-              <Button variant="outline" size="sm">
-                <Copy className="h-4 w-4 mr-2" />
-                Copy
+              <Button variant="outline" size="sm" onClick={handleCopy} title="Copy the form data as JSON">
+                {copied ? <CheckCircle className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+                {copied ? 'Copied' : 'Copy'}
               </Button>
+              <ExportTemplateButtons exportTemplates={exportTemplates} />
             </div>
           </div>
         </div>
       </div>
 
-      {/* Validation Errors */}
-      {!isValid && errors.length > 0 && (
-        <Alert variant="destructive" className="animate-slide-up">
+      {/* Validation Issues */}
+      {issues.length > 0 && (
+        <Alert variant={isValid ? 'default' : 'destructive'} className="animate-slide-up">
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
             <div className="space-y-3">
               <p className="font-semibold">Data validation issues found:</p>
               <ul className="space-y-2">
-                {errors.map((error, index) => (
+                {issues.map((issue, index) => (
                   <li key={index} className="flex items-start gap-2 text-sm">
-                    <div className="w-1.5 h-1.5 bg-destructive rounded-full mt-2 shrink-0" />
-                    {error}
+                    <div className={cn(
+                      'w-1.5 h-1.5 rounded-full mt-2 shrink-0',
+                      issue.severity === 'error' ? 'bg-destructive' : issue.severity === 'warning' ? 'bg-warning' : 'bg-muted-foreground'
+                    )} />
+                    <span>
+                      {issue.field && (
+                        <span className="font-medium">{getFieldLabel(issue.field)}: </span>
+                      )}
+                      {issue.message}
+                    </span>
                   </li>
                 ))}
               </ul>
@@ -272,98 +504,132 @@ export function EditableHealthcareForm({
               </CardHeader>
               <CardContent className="p-6">
                 <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-                  {sectionFields.map(field => (
-                    <div key={field.index} className={`space-y-3 group ${
-                      field.type === 'textarea' ? 'lg:col-span-2 xl:col-span-3' : ''
-                    }`}>
-                      <label
-                        htmlFor={`field-${field.index}`}
-                        className="text-sm font-semibold text-foreground flex items-center gap-2"
-                      >
-                        {field.fieldNumber && (
-                          <span
-                            className="inline-flex items-center justify-center min-w-[28px] h-6 px-2 bg-primary/10 text-primary text-xs font-mono rounded-md border border-primary/20"
-                            aria-label={`PDF417 field number ${field.fieldNumber}`}
+                  {sectionFields.map(field => {
+                    const fieldIssues = getFieldIssues(field.name);
+                    const inputStateClass = fieldIssues.some(issue => issue.severity === 'error')
+                      ? 'input-error'
+                      : fieldIssues.some(issue => issue.severity === 'warning') ? 'input-warning' : undefined;
+
+                    return (
+                      <div key={field.index} className={`space-y-3 group ${
+                        field.type === 'textarea' ? 'lg:col-span-2 xl:col-span-3' : ''
+                      }`}>
+                        <label
+                          htmlFor={`field-${field.index}`}
+                          className="text-sm font-semibold text-foreground flex items-center gap-2"
+                        >
+                          {field.fieldNumber && (
+                            <span
+                              className="inline-flex items-center justify-center min-w-[28px] h-6 px-2 bg-primary/10 text-primary text-xs font-mono rounded-md border border-primary/20"
+                              aria-label={`PDF417 field number ${field.fieldNumber}`}
+                            >
+                              {field.fieldNumber}
+                            </span>
+                          )}
+                          {field.label}
+                          {field.value && (
+                            <div
+                              className="w-2 h-2 bg-success rounded-full ml-auto opacity-60"
+                              aria-label="Field has value"
+                              role="status"
+                            />
+                          )}
+                        </label>
+
+                        {field.readOnly ? (
+                          <input
+                            id={`field-${field.index}`}
+                            name={field.label.toLowerCase().replace(/\s+/g, '_')}
+                            type="text"
+                            value={field.value}
+                            readOnly
+                            className="input-enhanced bg-muted/40 text-muted-foreground cursor-default"
+                            aria-describedby={field.fieldNumber ? `field-${field.index}-hint` : undefined}
+                          />
+                        ) : field.type === 'select' && field.options ? (
+                          <select
+                            id={`field-${field.index}`}
+                            name={field.label.toLowerCase().replace(/\s+/g, '_')}
+                            value={field.value}
+                            onChange={(e) => updateField(field.index, e.target.value)}
+                            className={cn('input-enhanced group-hover:border-primary/30', inputStateClass)}
+                            aria-describedby={field.fieldNumber ? `field-${field.index}-hint` : undefined}
+                            aria-invalid={fieldIssues.length > 0}
+                            aria-required={field.label.toLowerCase().includes('required')}
                           >
-                            {field.fieldNumber}
-                          </span>
-                        )}
-                        {field.label}
-                        {field.value && (
-                          <div
-                            className="w-2 h-2 bg-success rounded-full ml-auto opacity-60"
-                            aria-label="Field has value"
-                            role="status"
+                            <option value="">Select an option...</option>
+                            {field.options.map(option => (
+                              <option key={option} value={option}>{option}</option>
+                            ))}
+                          </select>
+                        ) : field.type === 'date' ? (
+                          <input
+                            id={`field-${field.index}`}
+                            name={field.label.toLowerCase().replace(/\s+/g, '_')}
+                            type="date"
+                            value={field.value ? field.value.split('.').reverse().join('-') : ''}
+                            onChange={(e) => {
+                              const date = e.target.value;
+                              const formatted = date ? date.split('-').reverse().join('.') : '';
+                              updateField(field.index, formatted);
+                            }}
+                            className={cn('input-enhanced group-hover:border-primary/30', inputStateClass)}
+                            aria-describedby={field.fieldNumber ? `field-${field.index}-hint` : undefined}
+                            aria-invalid={fieldIssues.length > 0}
+                            aria-required={field.label.toLowerCase().includes('required')}
+                          />
+                        ) : field.type === 'textarea' ? (
+                          <textarea
+                            id={`field-${field.index}`}
+                            name={field.label.toLowerCase().replace(/\s+/g, '_')}
+                            value={field.value}
+                            onChange={(e) => updateField(field.index, e.target.value)}
+                            placeholder={field.placeholder || `Enter ${field.label.toLowerCase()}`}
+                            className={cn('input-enhanced group-hover:border-primary/30 min-h-[6rem] resize-y', inputStateClass)}
+                            rows={4}
+                            aria-describedby={field.fieldNumber ? `field-${field.index}-hint` : undefined}
+                            aria-invalid={fieldIssues.length > 0}
+                            aria-required={field.label.toLowerCase().includes('required')}
+                          />
+                        ) : (
+                          <input
+                            id={`field-${field.index}`}
+                            name={field.label.toLowerCase().replace(/\s+/g, '_')}
+                            type="text"
+                            value={field.value}
+                            onChange={(e) => updateField(field.index, e.target.value)}
+                            placeholder={field.placeholder || `Enter ${field.label.toLowerCase()}`}
+                            className={cn('input-enhanced group-hover:border-primary/30', inputStateClass)}
+                            aria-describedby={field.fieldNumber ? `field-${field.index}-hint` : undefined}
+                            aria-invalid={fieldIssues.length > 0}
+                            aria-required={field.label.toLowerCase().includes('required')}
                           />
                         )}
-                      </label>
-
-                      {field.type === 'select' && field.options ? (
-                        <select
-                          id={`field-${field.index}`}
-                          name={field.label.toLowerCase().replace(/\s+/g, '_')}
-                          value={field.value}
-                          onChange={(e) => updateField(field.index, e.target.value)}
-                          className="input-enhanced group-hover:border-primary/30"
-                          aria-describedby={field.fieldNumber ? `field-${field.index}-hint` : undefined}
-                          aria-required={field.label.toLowerCase().includes('required')}
-                        >
-                          <option value="">Select an option...</option>
-                          {field.options.map(option => (
-                            <option key={option} value={option}>{option}</option>
-                          ))}
-                        </select>
-                      ) : field.type === 'date' ? (
-                        <input
-                          id={`field-${field.index}`}
-                          name={field.label.toLowerCase().replace(/\s+/g, '_')}
-                          type="date"
-                          value={field.value ? field.value.split('.').reverse().join('-') : ''}
-                          onChange={(e) => {
-                            const date = e.target.value;
-                            const formatted = date ? date.split('-').reverse().join('.') : '';
-                            updateField(field.index, formatted);
-                          }}
-                          className="input-enhanced group-hover:border-primary/30"
-                          aria-describedby={field.fieldNumber ? `field-${field.index}-hint` : undefined}
-                          aria-required={field.label.toLowerCase().includes('required')}
-                        />
-                      ) : field.type === 'textarea' ? (
-                        <textarea
-                          id={`field-${field.index}`}
-                          name={field.label.toLowerCase().replace(/\s+/g, '_')}
-                          value={field.value}
-                          onChange={(e) => updateField(field.index, e.target.value)}
-                          placeholder={field.placeholder || `Enter ${field.label.toLowerCase()}`}
-                          className="input-enhanced group-hover:border-primary/30 min-h-[6rem] resize-y"
-                          rows={4}
-                          aria-describedby={field.fieldNumber ? `field-${field.index}-hint` : undefined}
-                          aria-required={field.label.toLowerCase().includes('required')}
-                        />
-                      ) : (
-                        <input
-                          id={`field-${field.index}`}
-                          name={field.label.toLowerCase().replace(/\s+/g, '_')}
-                          type="text"
-                          value={field.value}
-                          onChange={(e) => updateField(field.index, e.target.value)}
-                          placeholder={field.placeholder || `Enter ${field.label.toLowerCase()}`}
-                          className="input-enhanced group-hover:border-primary/30"
-                          aria-describedby={field.fieldNumber ? `field-${field.index}-hint` : undefined}
-                          aria-required={field.label.toLowerCase().includes('required')}
-                        />
-                      )}
 
-                      {field.fieldNumber && (
-                        <div
-                          id={`field-${field.index}-hint`}
-                          className="text-xs text-muted-foreground sr-only"
-                        >
-                          PDF417 field number {field.fieldNumber}
-                        </div>
-                      )}
-                    </div>
-                  ))}
+                        {fieldIssues.map((issue, issueIndex) => (
+                          <p
+                            key={issueIndex}
+                            className={cn(
+                              'text-xs flex items-start gap-1.5',
+                              issue.severity === 'error' ? 'text-destructive' : issue.severity === 'warning' ? 'text-warning' : 'text-muted-foreground'
+                            )}
+                          >
+                            <AlertCircle className="h-3.5 w-3.5 mt-px shrink-0" />
+                            {issue.message}
+                          </p>
+                        ))}
+
+                        {field.fieldNumber && (
+                          <div
+                            id={`field-${field.index}-hint`}
+                            className="text-xs text-muted-foreground sr-only"
+                          >
+                            PDF417 field number {field.fieldNumber}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
               </CardContent>
             </Card>
@@ -371,6 +637,71 @@ export function EditableHealthcareForm({
         })}
       </div>
 
+      {/* Raw Barcode Fields */}
+      <details className="card-enhanced mt-8 p-4">
+        <summary className="cursor-pointer text-sm font-medium">
+          Raw Barcode Fields ({parsedData.rawFields.length} fields
+          {parsedData.unmappedFields.length > 0 && `, ${parsedData.unmappedFields.length} reserved or unmapped with values`})
+        </summary>
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-xs font-mono">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b">
+                <th className="py-1 pr-4">#</th>
+                <th className="py-1 pr-4">Field</th>
+                <th className="py-1">Raw Value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {parsedData.fieldRecords.map(record => (
+                <tr
+                  key={record.index}
+                  className={cn('border-b border-border/40', record.status !== 'mapped' && !!record.rawValue && 'text-warning')}
+                >
+                  <td className="py-1 pr-4">{record.index}</td>
+                  <td className="py-1 pr-4">{record.name || '(unmapped)'}</td>
+                  <td className="py-1 break-all">{record.rawValue}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </details>
+
+      {/* Print Settings */}
+      <FormPdfPanel
+        ref={formPdfPanel}
+        formType={formType}
+        rawFields={parsedData.rawFields}
+        getEditedData={getEditedData}
+      />
+
+      {/* Practice Software (GDT) */}
+      <GdtPanel formType={formType} getEditedData={getEditedData} getFieldLabel={getFieldLabel} />
+
+      {/* Hospital Interface (HL7) */}
+      {(formType === '10' || formType === '6') && (
+        <Hl7Panel formType={formType} getEditedData={getEditedData} />
+      )}
+
+      {/* Export Templates */}
+      <ExportTemplatePanel exportTemplates={exportTemplates} getEditedData={getEditedData} />
+
+      {/* Regenerated Barcode */}
+      <BarcodePreview
+        ref={barcodePreview}
+        formType={formType}
+        rawFields={parsedData.rawFields}
+        getEditedData={getEditedData}
+        getFieldLabel={getFieldLabel}
+      />
+
+      {ldtError && (
+        <Alert variant="destructive" className="mt-8">
+          <AlertDescription>{ldtError}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Action Buttons */}
       <div className="sticky bottom-0 bg-background/95 backdrop-blur-sm border-t border-border/50 -mx-6 px-6 py-6 mt-12">
                 <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
@@ -419,26 +750,65 @@ export function EditableHealthcareForm({
               <Button
                 variant="outline"
                 disabled={saveStatus === 'saving'}
-                onClick={() => {
-                  // Export functionality
-                  const formData = Object.fromEntries(
-                    formFields.map(field => [field.label.toLowerCase().replace(/\s+/g, '_'), field.value])
-                  );
-                  const dataStr = JSON.stringify(formData, null, 2);
-                  const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
-                  const exportFileDefaultName = `healthcare-form-${formType}-${new Date().toISOString().split('T')[0]}.json`;
-
-                  const linkElement = document.createElement('a');
-                  linkElement.setAttribute('href', dataUri);
-                  linkElement.setAttribute('download', exportFileDefaultName);
-                  linkElement.click();
-                }}
+                onClick={handleExportJson}
                 className="hover:bg-muted/80"
               >
                 <Download className="h-4 w-4 mr-2" />
                 Export
               </Button>
 
+              <Button
+                variant="outline"
+                disabled={saveStatus === 'saving'}
+                onClick={handleExportFhir}
+                className="hover:bg-muted/80"
+              >
+                <FileJson className="h-4 w-4 mr-2" />
+                FHIR
+              </Button>
+
+              {formType === '10' && (
+                <Button
+                  variant="outline"
+                  disabled={saveStatus === 'saving'}
+                  onClick={handleExportLdt}
+                  className="hover:bg-muted/80"
+                >
+                  <TestTube2 className="h-4 w-4 mr-2" />
+                  LDT
+                </Button>
+              )}
+
+              <Button
+                variant="outline"
+                disabled={saveStatus === 'saving'}
+                onClick={() => barcodePreview.current?.generate()}
+                className="hover:bg-muted/80"
+              >
+                <Barcode className="h-4 w-4 mr-2" />
+                Barcode
+              </Button>
+
+              <Button
+                variant="outline"
+                disabled={saveStatus === 'saving'}
+                onClick={() => formPdfPanel.current?.render('full', 'download')}
+                className="hover:bg-muted/80"
+              >
+                <FileText className="h-4 w-4 mr-2" />
+                PDF
+              </Button>
+
+              <Button
+                variant="outline"
+                disabled={saveStatus === 'saving'}
+                onClick={() => formPdfPanel.current?.render('overlay', 'download')}
+                className="hover:bg-muted/80"
+              >
+                <Printer className="h-4 w-4 mr-2" />
+                Overlay
+              </Button>
+
               <Button
                 onClick={handleSave}
                 disabled={saveStatus === 'saving'}
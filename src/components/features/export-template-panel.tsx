@@ -0,0 +1,298 @@
+// Purpose: User-defined export templates for the edited form, kept per browser and configured practice
+// The header buttons run templates, the panel edits them; both share the state of useExportTemplates
+
+'use client';
+
+import { useState } from 'react';
+import { ExportTemplate, ExportTemplateRenderer } from '@/lib/export-template';
+import { downloadBlob } from '@/lib/download';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CheckCircle, ClipboardCopy, Download, Pencil, Plus, Save, Trash2 } from 'lucide-react';
+
+// User-defined export templates, kept per browser and grouped by practice
+const EXPORT_TEMPLATES_STORAGE_KEY = 'pdf417-export-templates';
+// Practice using this browser (e.g. its BSNR); not taken from the scanned form, which names the issuing practice
+const PRACTICE_ID_STORAGE_KEY = 'pdf417-practice-id';
+
+const EMPTY_EXPORT_TEMPLATE: Omit<ExportTemplate, 'id'> = {
+  name: '',
+  body: '{{nachname}};{{vorname}};{{geburtsdatum|date:DD.MM.YYYY}};{{versichertenId}}',
+  output: 'copy',
+  lineEnding: 'LF',
+  encoding: 'utf-8'
+};
+
+export interface ExportTemplatesState {
+  practiceId: string; // Configured practice the templates are stored under ('' until set)
+  templates: ExportTemplate[];
+  status: { message: string; error?: boolean } | null; // Outcome of the last run
+  setPracticeId: (practiceId: string) => void;
+  save: (templates: ExportTemplate[]) => void;
+  run: (template: ExportTemplate) => Promise<void>;
+}
+
+/**
+ * Templates of a practice and the last run's outcome, shared by ExportTemplateButtons and ExportTemplatePanel
+ */
+export function useExportTemplates(getEditedData: () => Record<string, unknown>): ExportTemplatesState {
+  const [practiceId, setStoredPracticeId] = useState<string>(() => localStorage.getItem(PRACTICE_ID_STORAGE_KEY) || '');
+  const [templates, setTemplates] = useState<ExportTemplate[]>(() => loadTemplates(practiceId));
+  const [status, setStatus] = useState<ExportTemplatesState['status']>(null);
+  const templateRenderer = new ExportTemplateRenderer();
+
+  // Switching the practice shows that practice's templates
+  const setPracticeId = (updated: string) => {
+    const trimmed = updated.trim();
+    setStoredPracticeId(trimmed);
+    setTemplates(loadTemplates(trimmed));
+    localStorage.setItem(PRACTICE_ID_STORAGE_KEY, trimmed);
+  };
+
+  const save = (updated: ExportTemplate[]) => {
+    if (!practiceId) return;
+    setTemplates(updated);
+    try {
+      const stored = JSON.parse(localStorage.getItem(EXPORT_TEMPLATES_STORAGE_KEY) || '{}') as Record<string, ExportTemplate[]>;
+      localStorage.setItem(EXPORT_TEMPLATES_STORAGE_KEY, JSON.stringify({ ...stored, [practiceId]: updated }));
+    } catch (error) {
+      console.error('[ExportTemplates] Storing export templates failed:', error);
+    }
+  };
+
+  const run = async (template: ExportTemplate) => {
+    try {
+      if (template.output === 'download') {
+        const { fileName, content } = templateRenderer.renderFile(template, getEditedData());
+        downloadBlob(new Blob([content as BlobPart], {
+          type: `text/plain;charset=${template.encoding === 'iso-8859-15' ? 'iso-8859-15' : 'utf-8'}`
+        }), fileName);
+        setStatus({ message: `Downloaded ${fileName}` });
+      } else {
+        await navigator.clipboard.writeText(templateRenderer.renderTemplate(template, getEditedData()));
+        setStatus({ message: `Copied "${template.name}" to the clipboard` });
+      }
+    } catch (error) {
+      console.error('[ExportTemplates] Export template failed:', error);
+      setStatus({ message: error instanceof Error ? error.message : 'Export template failed', error: true });
+    }
+  };
+
+  return { practiceId, templates, status, setPracticeId, save, run };
+}
+
+function loadTemplates(practiceId: string): ExportTemplate[] {
+  if (!practiceId) return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(EXPORT_TEMPLATES_STORAGE_KEY) || '{}') as Record<string, ExportTemplate[]>;
+    return stored[practiceId] || [];
+  } catch {
+    return [];
+  }
+}
+
+interface ExportTemplateButtonsProps {
+  exportTemplates: ExportTemplatesState;
+}
+
+export function ExportTemplateButtons({ exportTemplates }: ExportTemplateButtonsProps) {
+  return (
+    <>
+      {exportTemplates.templates.map(template => (
+        <Button key={template.id} variant="outline" size="sm" onClick={() => exportTemplates.run(template)} title={template.output === 'download' ? 'Download' : 'Copy to clipboard'}>
+          {template.output === 'download' ? <Download className="h-4 w-4 mr-2" /> : <ClipboardCopy className="h-4 w-4 mr-2" />}
+          {template.name}
+        </Button>
+      ))}
+    </>
+  );
+}
+
+interface ExportTemplatePanelProps {
+  exportTemplates: ExportTemplatesState;
+  getEditedData: () => Record<string, unknown>;
+}
+
+export function ExportTemplatePanel({ exportTemplates, getEditedData }: ExportTemplatePanelProps) {
+  const { practiceId, templates, status } = exportTemplates;
+  const [templateDraft, setTemplateDraft] = useState<ExportTemplate | null>(null);
+  const templateRenderer = new ExportTemplateRenderer();
+  const templateErrors = templateDraft ? templateRenderer.validate(templateDraft.body) : [];
+
+  const handleSaveTemplateDraft = () => {
+    if (!templateDraft) return;
+    const exists = templates.some(template => template.id === templateDraft.id);
+    exportTemplates.save(exists
+      ? templates.map(template => template.id === templateDraft.id ? templateDraft : template)
+      : [...templates, templateDraft]);
+    setTemplateDraft(null);
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    exportTemplates.save(templates.filter(template => template.id !== id));
+    if (templateDraft?.id === id) setTemplateDraft(null);
+  };
+
+  return (
+    <details className="card-enhanced mt-8 p-4" open={!!templateDraft || !!status?.error}>
+      <summary className="cursor-pointer text-sm font-medium">
+        Export Templates ({practiceId ? `practice ${practiceId}` : 'no practice configured'})
+      </summary>
+      <div className="mt-4 space-y-4">
+        <label className="flex flex-col gap-1 text-sm sm:w-64">
+          Practice ID (BSNR of this practice)
+          <input
+            type="text"
+            value={practiceId}
+            onChange={(e) => exportTemplates.setPracticeId(e.target.value)}
+            className="input-enhanced"
+          />
+        </label>
+        <p className="text-xs text-muted-foreground">
+          Templates turn the form into text for other practice software and appear as buttons next to Copy.
+          Use field names in <code>{'{{nachname}}'}</code>, filters such as <code>{'{{geburtsdatum|date:YYYYMMDD}}'}</code>,{' '}
+          <code>{'{{plz|padStart:5:0}}'}</code>, <code>pad</code>, <code>truncate</code>, <code>upper</code>, <code>default</code>,
+          conditionals <code>{'{{#if geschlecht == "W"}}...{{else}}...{{/if}}'}</code> and loops{' '}
+          <code>{'{{#each verordnungen}}{{@number}} {{pzn}}{{/each}}'}</code>.
+        </p>
+
+        {templates.length > 0 && (
+          <ul className="divide-y divide-border/50 text-sm">
+            {templates.map(template => (
+              <li key={template.id} className="flex items-center gap-2 py-2">
+                <span className="font-medium">{template.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {template.output === 'download' ? `download${template.encoding === 'iso-8859-15' ? ', ISO-8859-15' : ''}` : 'clipboard'}
+                </span>
+                <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setTemplateDraft(template)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDeleteTemplate(template.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {templateDraft ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="flex flex-col gap-1 text-sm">
+                Name
+                <input
+                  type="text"
+                  value={templateDraft.name}
+                  onChange={(e) => setTemplateDraft({ ...templateDraft, name: e.target.value })}
+                  className="input-enhanced"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-sm">
+                Output
+                <select
+                  value={templateDraft.output}
+                  onChange={(e) => setTemplateDraft({ ...templateDraft, output: e.target.value as ExportTemplate['output'] })}
+                  className="input-enhanced"
+                >
+                  <option value="copy">Copy to clipboard</option>
+                  <option value="download">Download file</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-sm">
+                Line endings
+                <select
+                  value={templateDraft.lineEnding || 'LF'}
+                  onChange={(e) => setTemplateDraft({ ...templateDraft, lineEnding: e.target.value as ExportTemplate['lineEnding'] })}
+                  className="input-enhanced"
+                >
+                  <option value="LF">LF (Unix)</option>
+                  <option value="CRLF">CRLF (Windows)</option>
+                </select>
+              </label>
+              {templateDraft.output === 'download' && (
+                <>
+                  <label className="flex flex-col gap-1 text-sm">
+                    File name
+                    <input
+                      type="text"
+                      value={templateDraft.fileName || ''}
+                      placeholder={`${templateDraft.name || 'export'}.txt`}
+                      onChange={(e) => setTemplateDraft({ ...templateDraft, fileName: e.target.value })}
+                      className="input-enhanced"
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1 text-sm">
+                    Encoding
+                    <select
+                      value={templateDraft.encoding || 'utf-8'}
+                      onChange={(e) => setTemplateDraft({ ...templateDraft, encoding: e.target.value as ExportTemplate['encoding'] })}
+                      className="input-enhanced"
+                    >
+                      <option value="utf-8">UTF-8</option>
+                      <option value="iso-8859-15">ISO-8859-15</option>
+                    </select>
+                  </label>
+                </>
+              )}
+            </div>
+            <label className="flex flex-col gap-1 text-sm">
+              Template
+              <textarea
+                value={templateDraft.body}
+                onChange={(e) => setTemplateDraft({ ...templateDraft, body: e.target.value })}
+                rows={6}
+                className="input-enhanced font-mono text-xs"
+              />
+            </label>
+            {templateErrors.length > 0 ? (
+              <Alert variant="destructive">
+                <AlertDescription>{templateErrors.join(', ')}</AlertDescription>
+              </Alert>
+            ) : (
+              <pre className="max-h-48 overflow-auto rounded-md bg-muted/50 p-3 text-xs whitespace-pre-wrap">
+                {templateRenderer.render(templateDraft.body, getEditedData())}
+              </pre>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                onClick={handleSaveTemplateDraft}
+                disabled={!practiceId || !templateDraft.name.trim() || templateErrors.length > 0}
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Template
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setTemplateDraft(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setTemplateDraft({ ...EMPTY_EXPORT_TEMPLATE, id: `${Date.now()}` })}
+            disabled={!practiceId}
+            title={practiceId ? undefined : 'Set the practice ID first'}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </Button>
+        )}
+
+        {status && (
+          status.error ? (
+            <Alert variant="destructive">
+              <AlertDescription>{status.message}</AlertDescription>
+            </Alert>
+          ) : (
+            <p className="text-sm text-success flex items-center gap-2">
+              <CheckCircle className="h-4 w-4" />
+              {status.message}
+            </p>
+          )
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,104 @@
+// Purpose: Printable PDF output of the edited form with the printer offset for overlay prints
+// Rendering is triggered from the form's header and action bar through the component's ref
+
+'use client';
+
+import { Ref, useImperativeHandle, useState } from 'react';
+import { PDF417HealthcareEncoder } from '@/lib/pdf417-encoder';
+import { FormPdfMode, FormPdfRenderer } from '@/lib/form-pdf-renderer';
+import { downloadBlob, revokeObjectUrlLater } from '@/lib/download';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+// Printer calibration for overlay PDFs, kept per browser
+const PRINT_OFFSET_STORAGE_KEY = 'pdf417-print-offset';
+
+export interface FormPdfPanelHandle {
+  render: (mode: FormPdfMode, action: 'open' | 'download') => Promise<void>;
+}
+
+interface FormPdfPanelProps {
+  ref?: Ref<FormPdfPanelHandle>;
+  formType: string;
+  rawFields: string[]; // Raw fields of the original scan; reserved and unmapped columns are kept
+  getEditedData: () => Record<string, unknown>;
+}
+
+export function FormPdfPanel({ ref, formType, rawFields, getEditedData }: FormPdfPanelProps) {
+  const [printOffset, setPrintOffset] = useState<{ x: number; y: number }>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(PRINT_OFFSET_STORAGE_KEY) || '') as { x: number; y: number };
+    } catch {
+      return { x: 0, y: 0 };
+    }
+  });
+  const [printError, setPrintError] = useState<string | null>(null);
+  const encoder = new PDF417HealthcareEncoder();
+  const pdfRenderer = new FormPdfRenderer({ encoder });
+
+  // Full-page PDFs open in a new tab for preview; overlay PDFs are downloaded for printing onto blank forms
+  const handleRenderPdf = async (mode: FormPdfMode, action: 'open' | 'download') => {
+    try {
+      const editedData = getEditedData();
+      const payload = encoder.serialize(editedData, { baseFields: rawFields });
+      const pdf = await pdfRenderer.render(editedData, {
+        mode,
+        payload,
+        offsetX: mode === 'overlay' ? printOffset.x : 0,
+        offsetY: mode === 'overlay' ? printOffset.y : 0
+      });
+      const blob = new Blob([pdf as BlobPart], { type: 'application/pdf' });
+      if (action === 'open') {
+        const url = URL.createObjectURL(blob);
+        window.open(url, '_blank');
+        revokeObjectUrlLater(url);
+      } else {
+        downloadBlob(blob, `muster-${formType}-${mode}-${new Date().toISOString().split('T')[0]}.pdf`);
+      }
+      setPrintError(null);
+    } catch (error) {
+      console.error('[FormPdfPanel] PDF rendering failed:', error);
+      setPrintError(error instanceof Error ? error.message : 'PDF rendering failed');
+    }
+  };
+
+  useImperativeHandle(ref, () => ({ render: handleRenderPdf }));
+
+  const updatePrintOffset = (axis: 'x' | 'y', value: string) => {
+    const updated = { ...printOffset, [axis]: Number(value) || 0 };
+    setPrintOffset(updated);
+    localStorage.setItem(PRINT_OFFSET_STORAGE_KEY, JSON.stringify(updated));
+  };
+
+  return (
+    <details className="card-enhanced mt-8 p-4" open={!!printError}>
+      <summary className="cursor-pointer text-sm font-medium">
+        Print Settings (overlay offset {printOffset.x} / {printOffset.y} mm)
+      </summary>
+      <div className="mt-4 space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Overlay PDFs print only the values and the barcode onto pre-printed forms. Shift the output to match your printer
+          (positive values move right and down).
+        </p>
+        <div className="flex gap-4">
+          {(['x', 'y'] as const).map(axis => (
+            <label key={axis} className="flex items-center gap-2 text-sm">
+              {axis === 'x' ? 'Horizontal' : 'Vertical'} (mm)
+              <input
+                type="number"
+                step="0.5"
+                value={printOffset[axis]}
+                onChange={(e) => updatePrintOffset(axis, e.target.value)}
+                className="input-enhanced w-24"
+              />
+            </label>
+          ))}
+        </div>
+        {printError && (
+          <Alert variant="destructive">
+            <AlertDescription>{printError}</AlertDescription>
+          </Alert>
+        )}
+      </div>
+    </details>
+  );
+}
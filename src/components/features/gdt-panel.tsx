@@ -0,0 +1,119 @@
+// Purpose: GDT exchange with the practice software (PVS) for the edited form
+// Writes 6310/6301 records and compares a patient record exported by the PVS with the form
+
+'use client';
+
+import { useState } from 'react';
+import { formatDate } from '@/lib/utils';
+import { GdtPatient, GdtPatientConflict, GdtRecordType, GdtWriter, compareGdtPatient, parseGdtPatient } from '@/lib/gdt';
+import { downloadBlob } from '@/lib/download';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CheckCircle, Download, Upload } from 'lucide-react';
+
+interface GdtPanelProps {
+  formType: string;
+  getEditedData: () => Record<string, unknown>;
+  getFieldLabel: (fieldName: string) => string;
+}
+
+export function GdtPanel({ formType, getEditedData, getFieldLabel }: GdtPanelProps) {
+  const [gdtComparison, setGdtComparison] = useState<{ patient: GdtPatient; conflicts: GdtPatientConflict[] } | null>(null);
+  const [gdtError, setGdtError] = useState<string | null>(null);
+
+  // Patientennummer of the compared PVS patient; 6310 records cannot be assigned without it
+  const patientNumber = gdtComparison?.patient.patientNumber;
+
+  // GDT files are ISO-8859-15 encoded for the PVS import
+  const handleExportGdt = (recordType: GdtRecordType) => {
+    try {
+      const gdt = new GdtWriter({ patientNumber }).toBytes(getEditedData(), recordType);
+      downloadBlob(new Blob([gdt as BlobPart], { type: 'text/plain;charset=iso-8859-15' }), `patient-${formType}-${recordType}.gdt`);
+      setGdtError(null);
+    } catch (error) {
+      console.error('[GdtPanel] GDT export failed:', error);
+      setGdtError(error instanceof Error ? error.message : 'GDT export failed');
+    }
+  };
+
+  // Compare the patient of a GDT file exported by the PVS with the edited form data
+  const handleCompareGdt = async (file: File | undefined) => {
+    if (!file) return;
+    const patient = parseGdtPatient(new Uint8Array(await file.arrayBuffer()));
+    if (!patient) {
+      setGdtComparison(null);
+      setGdtError(`${file.name} contains no GDT patient record`);
+      return;
+    }
+    setGdtComparison({ patient, conflicts: compareGdtPatient(patient, getEditedData()) });
+    setGdtError(null);
+  };
+
+  return (
+    <details className="card-enhanced mt-8 p-4" open={!!gdtComparison || !!gdtError}>
+      <summary className="cursor-pointer text-sm font-medium">Practice Software (GDT)</summary>
+      <div className="mt-4 space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleExportGdt('6310')}
+            disabled={!patientNumber}
+            title={patientNumber ? `PVS patient ${patientNumber}` : 'Compare with a PVS patient first'}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Send Form Data (6310)
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExportGdt('6301')}>
+            <Download className="h-4 w-4 mr-2" />
+            Send Patient Data (6301)
+          </Button>
+          <label className="inline-flex">
+            <input
+              type="file"
+              accept=".gdt,.GDT,text/plain"
+              className="sr-only"
+              onChange={(e) => {
+                handleCompareGdt(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            <span className="inline-flex items-center rounded-md border px-3 py-1.5 text-sm cursor-pointer hover:bg-muted/80">
+              <Upload className="h-4 w-4 mr-2" />
+              Compare with PVS Patient
+            </span>
+          </label>
+        </div>
+        {!patientNumber && (
+          <p className="text-xs text-muted-foreground">
+            Form data (6310) needs the PVS Patientennummer: compare with a patient record exported by the PVS first.
+          </p>
+        )}
+        {gdtError && (
+          <Alert variant="destructive">
+            <AlertDescription>{gdtError}</AlertDescription>
+          </Alert>
+        )}
+        {gdtComparison && (
+          gdtComparison.conflicts.length > 0 ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                The PVS patient{gdtComparison.patient.patientNumber && ` ${gdtComparison.patient.patientNumber}`} differs from the scanned form:{' '}
+                {gdtComparison.conflicts.map(conflict => {
+                  const format = (value: string) => conflict.field === 'geburtsdatum' ? formatDate(value) || value : value;
+                  return `${getFieldLabel(conflict.field)} (PVS "${format(conflict.gdtValue)}", form "${format(conflict.scannedValue)}")`;
+                }).join(', ')}
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <p className="text-sm text-success flex items-center gap-2">
+              <CheckCircle className="h-4 w-4" />
+              Name, birth date and insurance number match the PVS patient
+              {gdtComparison.patient.patientNumber && ` ${gdtComparison.patient.patientNumber}`}.
+            </p>
+          )
+        )}
+      </div>
+    </details>
+  );
+}
@@ -3,8 +3,8 @@
 
 'use client';
 
-import { ParsedBarcodeData } from '@/types/healthcare';
-import { formatDate } from '@/lib/utils';
+import { ArzneimittelVerordnung, ParsedBarcodeData, ValidationIssue } from '@/types/healthcare';
+import { formatDate, cn } from '@/lib/utils';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 
@@ -31,14 +31,22 @@ export function HealthcareForm({ parsedData }: HealthcareFormProps) {
     );
   }
 
-  const { formType, isValid, errors, data } = parsedData;
+  const { formType, isValid, issues, data } = parsedData;
+
+  const fieldIssues = (...fieldNames: string[]): ValidationIssue[] =>
+    issues.filter(issue => issue.field && fieldNames.includes(issue.field));
 
   const getFormTypeName = (type: string): string => {
     const formNames: Record<string, string> = {
       '10': 'Muster 10 - Laborauftrag',
       '6': 'Muster 6 - Überweisung',
       '12': 'Muster 12 - Häusliche Krankenpflege',
-      '16': 'Muster 16 - Medizinische Rehabilitation'
+      '16': 'Muster 16 - Arzneiverordnung',
+      '17': 'Muster 17 - Heilmittelverordnung Podologie',
+      '18': 'Muster 18 - Heilmittelverordnung Ergotherapie',
+      '39': 'Muster 39 - Krebsfrüherkennung Zervix-Karzinom',
+      '52': 'Muster 52 - Bericht bei Fortbestehen der AU',
+      '61': 'Muster 61 - Medizinische Rehabilitation'
     };
     return formNames[type] || `Form ${type}`;
   };
@@ -57,20 +65,24 @@ export function HealthcareForm({ parsedData }: HealthcareFormProps) {
             </span>
           </CardTitle>
           <CardDescription>
-            Form: {String(data.formularcode)}{String(data.formularcodeergaenzung)} | Version: {String(data.versionsnummer)}
+            Form: {String(data.formularcode)}{String(data.formularcodeergaenzung || '')} | Version: {String(data.versionsnummer)}
+            {parsedData.layoutFit && ` | Layout fit: ${Math.round(parsedData.layoutFit.score * 100)}% (${parsedData.layoutFit.confidence})`}
           </CardDescription>
         </CardHeader>
       </Card>
 
-      {/* Validation Errors */}
-      {!isValid && errors.length > 0 && (
-        <Alert variant="destructive">
+      {/* Validation Issues */}
+      {issues.length > 0 && (
+        <Alert variant={isValid ? 'default' : 'destructive'}>
           <AlertDescription>
             <div className="space-y-1">
-              <p className="font-semibold">Validation Errors:</p>
+              <p className="font-semibold">Validation Issues:</p>
               <ul className="list-disc list-inside space-y-1">
-                {errors.map((error, index) => (
-                  <li key={index} className="text-sm">{error}</li>
+                {issues.map((issue, index) => (
+                  <li key={index} className="text-sm">
+                    <span className="uppercase text-xs font-semibold mr-1">{issue.severity}</span>
+                    {issue.message}
+                  </li>
                 ))}
               </ul>
             </div>
@@ -85,10 +97,10 @@ export function HealthcareForm({ parsedData }: HealthcareFormProps) {
             <CardTitle className="text-lg">Patient Information</CardTitle>
           </CardHeader>
           <CardContent className="space-y-3">
-            <InfoField label="Name" value={`${String(data.vorname || '')} ${String(data.nachname || '')}`.trim()} />
-            <InfoField label="Birth Date" value={formatDate(String(data.geburtsdatum || ''))} />
-            <InfoField label="Gender" value={String(data.geschlecht || '')} />
-            <InfoField label="Title" value={String(data.titel || '')} />
+            <InfoField label="Name" value={`${String(data.vorname || '')} ${String(data.nachname || '')}`.trim()} issues={fieldIssues('vorname', 'nachname')} />
+            <InfoField label="Birth Date" value={formatDate(String(data.geburtsdatum || ''))} issues={fieldIssues('geburtsdatum')} />
+            <InfoField label="Gender" value={String(data.geschlecht || '')} issues={fieldIssues('geschlecht')} />
+            <InfoField label="Title" value={String(data.titel || '')} issues={fieldIssues('titel')} />
 
             {(data.strasse || data.hausnummer || data.plz || data.ort) && (
               <>
@@ -98,10 +110,12 @@ export function HealthcareForm({ parsedData }: HealthcareFormProps) {
                 <InfoField
                   label="Street"
                   value={`${String(data.strasse || '')} ${String(data.hausnummer || '')}`.trim()}
+                  issues={fieldIssues('strasse', 'hausnummer')}
                 />
                 <InfoField
                   label="City"
                   value={`${String(data.plz || '')} ${String(data.ort || '')}`.trim()}
+                  issues={fieldIssues('plz', 'ort')}
                 />
               </>
             )}
@@ -114,14 +128,16 @@ export function HealthcareForm({ parsedData }: HealthcareFormProps) {
             <CardTitle className="text-lg">Insurance Information</CardTitle>
           </CardHeader>
           <CardContent className="space-y-3">
-            <InfoField label="Insurance Provider ID" value={String(data.kostentraegerkennung || '')} />
-            <InfoField label="Provider Name" value={String(data.kostentraegername || '')} />
-            <InfoField label="Insured Person ID" value={String(data.versichertenId || '')} />
-            <InfoField label="Insurance Type" value={String(data.versichertenart || '')} />
-            <InfoField label="Coverage End Date" value={formatDate(String(data.versicherungsschutzEnde || ''))} />
-            <InfoField label="Special Person Group" value={String(data.besonderePersonengruppe || '')} />
-            <InfoField label="DMP Identifier" value={String(data.dmpKennzeichnung || '')} />
-            <InfoField label="WOP Identifier" value={String(data.wopKennzeichen || '')} />
+            <InfoField label="Insurance Provider ID" value={String(data.kostentraegerkennung || '')} issues={fieldIssues('kostentraegerkennung')} />
+            <InfoField label="Provider Name" value={String(data.kostentraegername || '')} issues={fieldIssues('kostentraegername')} />
+            <InfoField label="Provider Name (Directory)" value={String(data.kostentraegernameVerzeichnis || '')} />
+            <InfoField label="Payer Type" value={String(data.kostentraegerTyp || '')} />
+            <InfoField label="Insured Person ID" value={String(data.versichertenId || '')} issues={fieldIssues('versichertenId')} />
+            <InfoField label="Insurance Type" value={String(data.versichertenart || '')} issues={fieldIssues('versichertenart')} />
+            <InfoField label="Coverage End Date" value={formatDate(String(data.versicherungsschutzEnde || ''))} issues={fieldIssues('versicherungsschutzEnde')} />
+            <InfoField label="Special Person Group" value={String(data.besonderePersonengruppe || '')} issues={fieldIssues('besonderePersonengruppe')} />
+            <InfoField label="DMP Identifier" value={String(data.dmpKennzeichnung || '')} issues={fieldIssues('dmpKennzeichnung')} />
+            <InfoField label="WOP Identifier" value={String(data.wopKennzeichen || '')} issues={fieldIssues('wopKennzeichen')} />
           </CardContent>
         </Card>
       </div>
@@ -133,13 +149,13 @@ export function HealthcareForm({ parsedData }: HealthcareFormProps) {
         </CardHeader>
         <CardContent>
           <div className="grid gap-3 md:grid-cols-2">
-            <InfoField label="Issue Date" value={formatDate(String(data.ausstellungsdatum || ''))} />
-            <InfoField label="Practice Location Number" value={String(data.betriebsstaettennummer || '')} />
-            <InfoField label="Physician ID (LANR)" value={String(data.lanr || '')} />
-            <InfoField label="First Requester Practice" value={String(data.bsnrErstveranlasser || '')} />
-            <InfoField label="First Requester Physician" value={String(data.lanrErstveranlasser || '')} />
-            <InfoField label="Referring Practice" value={String(data.bsnrUeberweiser || '')} />
-            <InfoField label="Referring Physician" value={String(data.lanrUeberweiser || '')} />
+            <InfoField label="Issue Date" value={formatDate(String(data.ausstellungsdatum || ''))} issues={fieldIssues('ausstellungsdatum')} />
+            <InfoField label="Practice Location Number" value={String(data.betriebsstaettennummer || '')} issues={fieldIssues('betriebsstaettennummer')} />
+            <InfoField label="Physician ID (LANR)" value={String(data.lanr || '')} issues={fieldIssues('lanr')} />
+            <InfoField label="First Requester Practice" value={String(data.bsnrErstveranlasser || '')} issues={fieldIssues('bsnrErstveranlasser')} />
+            <InfoField label="First Requester Physician" value={String(data.lanrErstveranlasser || '')} issues={fieldIssues('lanrErstveranlasser')} />
+            <InfoField label="Referring Practice" value={String(data.bsnrUeberweiser || '')} issues={fieldIssues('bsnrUeberweiser')} />
+            <InfoField label="Referring Physician" value={String(data.lanrUeberweiser || '')} issues={fieldIssues('lanrUeberweiser')} />
           </div>
         </CardContent>
       </Card>
@@ -151,12 +167,35 @@ export function HealthcareForm({ parsedData }: HealthcareFormProps) {
             <CardTitle className="text-lg">Medical Information</CardTitle>
           </CardHeader>
           <CardContent className="space-y-3">
-            <InfoField label="Diagnosis" value={String(data.diagnose || '')} />
-            <InfoField label="Suspected Diagnosis" value={String(data.verdachtsdiagnose || '')} />
-            <InfoField label="Assignment/Order" value={String(data.auftrag || '')} />
-            <InfoField label="Referral Reason" value={String(data.ueberweisungsgrund || '')} multiline={true} />
-            <InfoField label="Copy of Findings" value={String(data.befundkopie || '')} />
-            <InfoField label="Curative/Preventive Treatment" value={String(data.kurativePraeventivKur || '')} />
+            <InfoField label="Diagnosis" value={String(data.diagnose || '')} issues={fieldIssues('diagnose')} />
+            <InfoField label="Suspected Diagnosis" value={String(data.verdachtsdiagnose || '')} issues={fieldIssues('verdachtsdiagnose')} />
+            <InfoField label="Assignment/Order" value={String(data.auftrag || '')} issues={fieldIssues('auftrag')} />
+            <InfoField label="Referral Reason" value={String(data.ueberweisungsgrund || '')} multiline={true} issues={fieldIssues('ueberweisungsgrund')} />
+            <InfoField label="Copy of Findings" value={String(data.befundkopie || '')} issues={fieldIssues('befundkopie')} />
+            <InfoField label="Curative/Preventive Treatment" value={String(data.kurativePraeventivKur || '')} issues={fieldIssues('kurativePraeventivKur')} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Prescription Lines (for Muster 16) */}
+      {Array.isArray(data.verordnungen) && data.verordnungen.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Prescriptions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {(data.verordnungen as ArzneimittelVerordnung[]).map((line, lineIndex) => {
+              const lineIssues = (name: string) => fieldIssues(`verordnungen[${lineIndex}].${name}`);
+              return (
+                <div key={lineIndex} className="grid gap-3 md:grid-cols-3 border-b last:border-b-0 pb-3">
+                  <InfoField label={`Line ${lineIndex + 1} - Medication`} value={line.arzneimittel || ''} issues={lineIssues('arzneimittel')} />
+                  <InfoField label="PZN" value={line.pzn || ''} issues={lineIssues('pzn')} />
+                  <InfoField label="Quantity" value={[line.packungsanzahl, line.normgroesse].filter(Boolean).join(' x ')} issues={[...lineIssues('packungsanzahl'), ...lineIssues('normgroesse')]} />
+                  <InfoField label="Dosage" value={line.dosierung || ''} issues={lineIssues('dosierung')} />
+                  <InfoField label="Aut Idem Excluded" value={line.autIdem === '1' ? 'Yes' : line.autIdem === '0' ? 'No' : ''} issues={lineIssues('autIdem')} />
+                </div>
+              );
+            })}
           </CardContent>
         </Card>
       )}
@@ -168,7 +207,7 @@ export function HealthcareForm({ parsedData }: HealthcareFormProps) {
             <CardTitle className="text-lg">Request Information</CardTitle>
           </CardHeader>
           <CardContent>
-            <InfoField label="Request Identifier" value={String(data.anforderungsIdent || '')} />
+            <InfoField label="Request Identifier" value={String(data.anforderungsIdent || '')} issues={fieldIssues('anforderungsIdent')} />
           </CardContent>
         </Card>
       )}
@@ -180,28 +219,50 @@ interface InfoFieldProps {
   label: string;
   value?: string | null;
   multiline?: boolean;
+  issues?: ValidationIssue[];
 }
 
-function InfoField({ label, value, multiline = false }: InfoFieldProps) {
-  if (!value) return null;
+function InfoField({ label, value, multiline = false, issues = [] }: InfoFieldProps) {
+  if (!value && issues.length === 0) return null;
 
   // Auto-detect if text should be multiline based on length
-  const shouldBeMultiline = multiline || value.length > 60;
+  const shouldBeMultiline = multiline || (value?.length ?? 0) > 60;
+  const hasError = issues.some(issue => issue.severity === 'error');
+  const hasWarning = issues.some(issue => issue.severity === 'warning');
 
   return (
     <div className="flex flex-col space-y-1">
-      <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+      <span className={cn(
+        'text-xs font-medium uppercase tracking-wide',
+        hasError ? 'text-destructive' : hasWarning ? 'text-warning' : 'text-muted-foreground'
+      )}>
         {label}
       </span>
       {shouldBeMultiline ? (
-        <div className="text-sm font-mono bg-muted/30 p-3 rounded-md border min-h-[4rem] whitespace-pre-wrap break-words">
+        <div className={cn(
+          'text-sm font-mono bg-muted/30 p-3 rounded-md border min-h-[4rem] whitespace-pre-wrap break-words',
+          hasError && 'border-destructive',
+          !hasError && hasWarning && 'border-warning'
+        )}>
           {value}
         </div>
       ) : (
-        <span className="text-sm font-mono">
-          {value}
+        <span className={cn(
+          'text-sm font-mono',
+          hasError && 'text-destructive underline decoration-wavy decoration-destructive',
+          !hasError && hasWarning && 'underline decoration-wavy decoration-warning'
+        )}>
+          {value || '(empty)'}
         </span>
       )}
+      {issues.map((issue, index) => (
+        <span
+          key={index}
+          className={cn('text-xs', issue.severity === 'error' ? 'text-destructive' : 'text-muted-foreground')}
+        >
+          {issue.message}
+        </span>
+      ))}
     </div>
   );
 }
@@ -0,0 +1,124 @@
+// Purpose: HL7 v2 ORM^O01 export of the edited lab order or referral
+// Endpoints are kept per browser; sending goes through /api/hl7, which forwards the message over MLLP
+
+'use client';
+
+import { useState } from 'react';
+import { Hl7Ack, Hl7Endpoints, Hl7OrmExporter } from '@/lib/hl7-orm';
+import { downloadFile } from '@/lib/download';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CheckCircle, Download, Send } from 'lucide-react';
+
+// Sending/receiving application and facility for HL7 messages, kept per browser
+const HL7_ENDPOINTS_STORAGE_KEY = 'pdf417-hl7-endpoints';
+
+interface Hl7PanelProps {
+  formType: string;
+  getEditedData: () => Record<string, unknown>;
+}
+
+export function Hl7Panel({ formType, getEditedData }: Hl7PanelProps) {
+  const [hl7Endpoints, setHl7Endpoints] = useState<Hl7Endpoints>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(HL7_ENDPOINTS_STORAGE_KEY) || '{}') as Hl7Endpoints;
+    } catch {
+      return {};
+    }
+  });
+  const [hl7Status, setHl7Status] = useState<{ ack?: Hl7Ack; error?: string; sending?: boolean } | null>(null);
+
+  const updateHl7Endpoint = (key: keyof Hl7Endpoints, value: string) => {
+    const updated = { ...hl7Endpoints, [key]: value };
+    setHl7Endpoints(updated);
+    localStorage.setItem(HL7_ENDPOINTS_STORAGE_KEY, JSON.stringify(updated));
+  };
+
+  // The exporter rejects forms that are no longer Muster 6 or 10 after editing the form code
+  const handleExportHl7 = () => {
+    try {
+      const message = new Hl7OrmExporter(hl7Endpoints).createMessage(getEditedData());
+      downloadFile(
+        'data:application/hl7-v2;charset=utf-8,' + encodeURIComponent(message),
+        `orm-${formType}-${new Date().toISOString().split('T')[0]}.hl7`
+      );
+      setHl7Status(null);
+    } catch (error) {
+      console.error('[Hl7Panel] HL7 export failed:', error);
+      setHl7Status({ error: error instanceof Error ? error.message : 'HL7 export failed' });
+    }
+  };
+
+  // Browsers cannot open TCP connections; the API route forwards the message over MLLP
+  const handleSendHl7 = async () => {
+    setHl7Status({ sending: true });
+    try {
+      const message = new Hl7OrmExporter(hl7Endpoints).createMessage(getEditedData());
+      const response = await fetch('/api/hl7', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message })
+      });
+      const result = await response.json() as { ack?: Hl7Ack; error?: string };
+      setHl7Status(result.ack ? { ack: result.ack } : { error: result.error || `HTTP ${response.status}` });
+    } catch (error) {
+      console.error('[Hl7Panel] HL7 sending failed:', error);
+      setHl7Status({ error: error instanceof Error ? error.message : 'HL7 sending failed' });
+    }
+  };
+
+  return (
+    <details className="card-enhanced mt-8 p-4" open={!!hl7Status}>
+      <summary className="cursor-pointer text-sm font-medium">Hospital Interface (HL7 ORM^O01)</summary>
+      <div className="mt-4 space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {([
+            ['sendingApplication', 'Sending Application'],
+            ['sendingFacility', 'Sending Facility'],
+            ['receivingApplication', 'Receiving Application'],
+            ['receivingFacility', 'Receiving Facility']
+          ] as const).map(([key, label]) => (
+            <label key={key} className="flex flex-col gap-1 text-sm">
+              {label}
+              <input
+                type="text"
+                value={hl7Endpoints[key] || ''}
+                onChange={(e) => updateHl7Endpoint(key, e.target.value)}
+                className="input-enhanced"
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleExportHl7}>
+            <Download className="h-4 w-4 mr-2" />
+            Download Message
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleSendHl7} disabled={hl7Status?.sending}>
+            <Send className="h-4 w-4 mr-2" />
+            {hl7Status?.sending ? 'Sending...' : 'Send via MLLP'}
+          </Button>
+        </div>
+        {hl7Status?.error && (
+          <Alert variant="destructive">
+            <AlertDescription>{hl7Status.error}</AlertDescription>
+          </Alert>
+        )}
+        {hl7Status?.ack && (
+          hl7Status.ack.accepted ? (
+            <p className="text-sm text-success flex items-center gap-2">
+              <CheckCircle className="h-4 w-4" />
+              Accepted ({hl7Status.ack.code}) for message {hl7Status.ack.controlId}
+            </p>
+          ) : (
+            <Alert variant="destructive">
+              <AlertDescription>
+                Rejected with {hl7Status.ack.code}{hl7Status.ack.text && `: ${hl7Status.ack.text}`}
+              </AlertDescription>
+            </Alert>
+          )
+        )}
+      </div>
+    </details>
+  );
+}
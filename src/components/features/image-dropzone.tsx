@@ -41,7 +41,7 @@ export function ImageDropzone({ onBarcodeScanned, className }: ImageDropzoneProp
       let barcodeData: string;
 
       try {
-        barcodeData = await barcodeScanner.scanFromFile(file);
+        barcodeData = (await barcodeScanner.scanFromFile(file)).text;
         console.log('[ImageDropzone] Primary scanner succeeded:', barcodeData);
       } catch (primaryError) {
         console.warn('[ImageDropzone] Primary scanner failed, trying alternative:', primaryError);
@@ -76,7 +76,7 @@ export function ImageDropzone({ onBarcodeScanned, className }: ImageDropzoneProp
 
     try {
       console.log('[ImageDropzone] Calling barcodeScanner.scanFromCamera()...');
-      const barcodeData = await barcodeScanner.scanFromCamera();
+      const barcodeData = (await barcodeScanner.scanFromCamera()).text;
       console.log('[ImageDropzone] Camera scan completed:', barcodeData);
       onBarcodeScanned(barcodeData);
       console.log('[ImageDropzone] Camera barcode data passed to parent component');
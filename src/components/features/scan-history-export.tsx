@@ -0,0 +1,137 @@
+// Purpose: Scan history of the current session with batch export to CSV and XLSX
+// History lives in memory only; nothing is persisted in the browser
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ParsedBarcodeData } from '@/types/healthcare';
+import { META_COLUMNS, TabularExporter } from '@/lib/tabular-export';
+import { downloadBlob } from '@/lib/download';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, AlertCircle, Download, Sheet, Trash2 } from 'lucide-react';
+
+export interface ScanHistoryEntry {
+  id: string;
+  scannedAt: Date;
+  parsed: ParsedBarcodeData; // Parse result, with the edited data once the form was saved
+}
+
+interface ScanHistoryExportProps {
+  entries: ScanHistoryEntry[];
+  onClear?: () => void;
+}
+
+const EXPORT_LOCALES = [
+  { value: 'de-DE', label: 'Deutsch (TT.MM.JJJJ, ;)' },
+  { value: 'en-US', label: 'English (MM/DD/YYYY, ,)' }
+];
+
+export function ScanHistoryExport({ entries, onClear }: ScanHistoryExportProps) {
+  const [locale, setLocale] = useState('de-DE');
+  const [excludedColumns, setExcludedColumns] = useState<string[]>([]);
+
+  const forms = useMemo(() => entries.map(entry => entry.parsed), [entries]);
+  const availableColumns = useMemo(() => new TabularExporter().getAvailableColumns(forms), [forms]);
+  const selectedColumns = availableColumns.filter(column => !excludedColumns.includes(column));
+
+  const toggleColumn = (column: string) => {
+    setExcludedColumns(current =>
+      current.includes(column) ? current.filter(name => name !== column) : [...current, column]
+    );
+  };
+
+  const getExporter = () => new TabularExporter({
+    locale,
+    // Without a selection change the exporter drops columns no form uses
+    columns: excludedColumns.length > 0 ? selectedColumns : undefined
+  });
+
+  const handleExportCsv = () => {
+    downloadBlob(
+      new Blob([getExporter().toCSV(forms)], { type: 'text/csv;charset=utf-8' }),
+      `scans_${new Date().toISOString().split('T')[0]}.csv`
+    );
+  };
+
+  const handleExportXlsx = () => {
+    downloadBlob(
+      new Blob([getExporter().toXLSX(forms) as BlobPart], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+      `scans_${new Date().toISOString().split('T')[0]}.xlsx`
+    );
+  };
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <details className="card-enhanced mt-8 p-4">
+      <summary className="cursor-pointer text-sm font-medium">
+        Scan History ({entries.length} {entries.length === 1 ? 'form' : 'forms'})
+      </summary>
+      <div className="mt-4 space-y-4">
+        <ul className="divide-y divide-border/50 text-sm">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex items-center gap-3 py-2">
+              {entry.parsed.isValid
+                ? <CheckCircle className="h-4 w-4 text-success" />
+                : <AlertCircle className="h-4 w-4 text-warning" />}
+              <span className="font-medium">Muster {entry.parsed.formType}</span>
+              <span className="text-muted-foreground">
+                {[entry.parsed.data.nachname, entry.parsed.data.vorname].filter(Boolean).join(', ') || 'Unknown patient'}
+              </span>
+              <span className="ml-auto text-xs text-muted-foreground">
+                {entry.scannedAt.toLocaleTimeString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <label className="flex items-center gap-2 text-sm">
+          Date format
+          <select value={locale} onChange={(e) => setLocale(e.target.value)} className="input-enhanced w-auto">
+            {EXPORT_LOCALES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <details>
+          <summary className="cursor-pointer text-xs text-muted-foreground">
+            Columns ({selectedColumns.length} of {availableColumns.length})
+          </summary>
+          <div className="mt-2 grid max-h-64 grid-cols-2 gap-1 overflow-y-auto md:grid-cols-3">
+            {availableColumns.map(column => (
+              <label key={column} className="flex items-center gap-2 font-mono text-xs">
+                <input
+                  type="checkbox"
+                  checked={!excludedColumns.includes(column)}
+                  onChange={() => toggleColumn(column)}
+                />
+                {column}
+                {META_COLUMNS.includes(column) && <span className="text-muted-foreground">(meta)</span>}
+              </label>
+            ))}
+          </div>
+        </details>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={handleExportCsv} disabled={selectedColumns.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExportXlsx} disabled={selectedColumns.length === 0}>
+            <Sheet className="h-4 w-4 mr-2" />
+            Export XLSX
+          </Button>
+          {onClear && (
+            <Button variant="ghost" size="sm" onClick={onClear}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Clear History
+            </Button>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+}
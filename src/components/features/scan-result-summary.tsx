@@ -0,0 +1,42 @@
+// Purpose: One-line summary of where and how the barcode was found in the scanned image
+// Shown above the form so users (and we) can see which scan strategy succeeded
+
+'use client';
+
+import { ScanSearch } from 'lucide-react';
+import { ScanResult } from '@/lib/pixel-scanner';
+import { cn } from '@/lib/utils';
+
+interface ScanResultSummaryProps {
+  result: ScanResult;
+  className?: string;
+}
+
+export function ScanResultSummary({ result, className }: ScanResultSummaryProps) {
+  const details = [
+    result.region ? `${result.region.name} region` : result.strategy,
+    result.scale !== 1 && `${Math.round(result.scale * 100)}% scale`,
+    result.rotation !== 0 && `rotated ${result.rotation}°`,
+    result.errorCorrectionLevel !== null && `EC level ${result.errorCorrectionLevel}`,
+    `${result.elapsedMs} ms`
+  ].filter(Boolean);
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-muted-foreground', className)}>
+      <ScanSearch className="h-4 w-4" />
+      <span className="font-medium">Barcode found:</span>
+      <span>{details.join(' · ')}</span>
+      {result.corners.length === 4 && (
+        <span className="font-mono" title="Bounding box in image pixels">
+          {formatBoundingBox(result)}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function formatBoundingBox({ corners }: ScanResult): string {
+  const xs = corners.map(corner => Math.round(corner.x));
+  const ys = corners.map(corner => Math.round(corner.y));
+  return `x ${Math.min(...xs)}–${Math.max(...xs)}, y ${Math.min(...ys)}–${Math.max(...ys)}`;
+}
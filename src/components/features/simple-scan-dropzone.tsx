@@ -1,18 +1,19 @@
 // Purpose: Clean, simple dropzone for PDF417 barcode scanning
-// Just drag & drop → scan → callback with results
+// Just drag & drop → scan → callback with results; dropping another file cancels the running scan
 
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Camera, Upload, AlertCircle } from 'lucide-react';
+import { Camera, Upload, AlertCircle, X } from 'lucide-react';
 import { barcodeScanner } from '@/lib/barcode-scanner';
+import { ScanProgress, ScanResult } from '@/lib/pixel-scanner';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { cn } from '@/lib/utils';
 
 interface SimpleScanDropzoneProps {
-  onScanSuccess: (data: string) => void;
+  onScanSuccess: (data: string, result: ScanResult) => void;
   className?: string;
 }
 
@@ -21,34 +22,60 @@ export function SimpleScanDropzone({ onScanSuccess, className }: SimpleScanDropz
   const [error, setError] = useState<string | null>(null);
   const [isMobile, setIsMobile] = useState(false);
   const [isCameraSupported, setIsCameraSupported] = useState(false);
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  const scanControllerRef = useRef<AbortController | null>(null);
+
+  // File scans run in a worker, so the dropzone stays usable and a new drop replaces the running scan
+  const isDropDisabled = isLoading && !scanProgress;
 
   const handleImageScan = async (file: File) => {
+    scanControllerRef.current?.abort();
+    const controller = new AbortController();
+    scanControllerRef.current = controller;
+
     setIsLoading(true);
     setError(null);
+    setScanProgress(null);
 
     try {
       console.log('[SimpleScanDropzone] Scanning file:', file.name);
-      const barcodeData = await barcodeScanner.scanFromFile(file);
-      console.log('[SimpleScanDropzone] Scan successful, data length:', barcodeData.length);
-      onScanSuccess(barcodeData);
+      const result = await barcodeScanner.scanFromFile(file, {
+        signal: controller.signal,
+        onProgress: setScanProgress
+      });
+      console.log('[SimpleScanDropzone] Scan successful, data length:', result.text.length, 'strategy:', result.strategy);
+      onScanSuccess(result.text, result);
     } catch (err) {
+      if (controller.signal.aborted) {
+        console.log('[SimpleScanDropzone] Scan cancelled:', file.name);
+        return;
+      }
       console.error('[SimpleScanDropzone] Scan failed:', err);
       const errorMessage = err instanceof Error ? err.message : 'Failed to scan barcode';
       setError(errorMessage);
     } finally {
-      setIsLoading(false);
+      // A newer scan owns the loading state once it has replaced this one
+      if (scanControllerRef.current === controller) {
+        scanControllerRef.current = null;
+        setIsLoading(false);
+        setScanProgress(null);
+      }
     }
   };
 
+  const cancelImageScan = () => {
+    scanControllerRef.current?.abort();
+  };
+
   const handleCameraScan = async () => {
     setIsLoading(true);
     setError(null);
 
     try {
       console.log('[SimpleScanDropzone] Starting camera scan...');
-      const barcodeData = await barcodeScanner.scanFromCamera();
-      console.log('[SimpleScanDropzone] Camera scan successful, data length:', barcodeData.length);
-      onScanSuccess(barcodeData);
+      const result = await barcodeScanner.scanFromCamera();
+      console.log('[SimpleScanDropzone] Camera scan successful, data length:', result.text.length);
+      onScanSuccess(result.text, result);
     } catch (err) {
       console.error('[SimpleScanDropzone] Camera scan failed:', err);
       const errorMessage = err instanceof Error ? err.message : 'Camera scan failed';
@@ -71,9 +98,14 @@ export function SimpleScanDropzone({ onScanSuccess, className }: SimpleScanDropz
       'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp']
     },
     maxFiles: 1,
-    disabled: isLoading
+    disabled: isDropDisabled
   });
 
+  // Stop the worker when the user leaves the page
+  useEffect(() => {
+    return () => scanControllerRef.current?.abort();
+  }, []);
+
   // Detect mobile and camera support after component mounts to avoid hydration mismatch
   useEffect(() => {
     const checkIsMobile = () => {
@@ -98,7 +130,7 @@ export function SimpleScanDropzone({ onScanSuccess, className }: SimpleScanDropz
           {
             'border-primary bg-primary/10 scale-[1.02] animate-pulse-glow': isDragActive,
             'border-border/40 hover:border-primary/50 hover:bg-primary/5 hover:shadow-lg': !isLoading && !isDragActive,
-            'cursor-not-allowed opacity-60': isLoading,
+            'cursor-not-allowed opacity-60': isDropDisabled,
           }
         )}
         role="button"
@@ -108,7 +140,7 @@ export function SimpleScanDropzone({ onScanSuccess, className }: SimpleScanDropz
         onKeyDown={(e) => {
           if (e.key === 'Enter' || e.key === ' ') {
             e.preventDefault();
-            if (!isLoading) {
+            if (!isDropDisabled) {
               // Trigger file input click
               const input = document.querySelector('input[type="file"]') as HTMLInputElement;
               input?.click();
@@ -158,16 +190,40 @@ export function SimpleScanDropzone({ onScanSuccess, className }: SimpleScanDropz
             <div className="space-y-4">
               <div className="space-y-2">
                 <div className="h-2 w-48 bg-muted rounded-full mx-auto overflow-hidden">
-                  <div className="h-full bg-primary animate-pulse loading-shimmer" />
+                  {scanProgress && scanProgress.attempt > 0 ? (
+                    <div
+                      className="h-full bg-primary transition-all duration-300"
+                      style={{ width: `${(scanProgress.attempt / scanProgress.total) * 100}%` }}
+                    />
+                  ) : (
+                    <div className="h-full bg-primary animate-pulse loading-shimmer" />
+                  )}
                 </div>
                 <div className="h-1.5 w-32 bg-muted rounded-full mx-auto opacity-60" />
               </div>
-              <p className="text-base font-medium text-primary">
-                Analyzing barcode data...
+              <p className="text-base font-medium text-primary" aria-live="polite">
+                {!scanProgress
+                  ? 'Analyzing barcode data...'
+                  : scanProgress.attempt > 0
+                    ? `Trying ${scanProgress.strategy}… (${scanProgress.attempt}/${scanProgress.total})`
+                    : 'Loading image...'}
               </p>
               <p className="text-sm text-muted-foreground">
-                This may take a few seconds
+                {scanProgress ? 'Drop another image to scan it instead' : 'This may take a few seconds'}
               </p>
+              {scanProgress && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    cancelImageScan();
+                  }}
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel
+                </Button>
+              )}
             </div>
           ) : isDragActive ? (
             <div className="space-y-3">
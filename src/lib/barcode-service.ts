@@ -0,0 +1,101 @@
+// Purpose: Headless parse and scan used by the /api/parse and /api/scan route handlers
+// Maps failures to stable error codes so other tools can react without reading messages
+
+import { NotFoundException } from '@zxing/library';
+import { ParsedBarcodeData } from '@/types/healthcare';
+import { PDF417HealthcareParser } from './pdf417-parser';
+import { PixelBarcodeScanner } from './pixel-scanner';
+import { decodeImage, detectImageFormat } from './node-image-decoder';
+
+export type BarcodeServiceErrorCode =
+  | 'BAD_REQUEST' // Missing or malformed request body
+  | 'UNSUPPORTED_MEDIA_TYPE' // Upload is not a PNG or JPEG image
+  | 'PAYLOAD_TOO_LARGE' // Upload exceeds MAX_UPLOAD_BYTES
+  | 'NO_BARCODE' // No PDF417 barcode found in the image
+  | 'UNSUPPORTED_FORM' // Form code without a known layout
+  | 'INVALID_DATA'; // Not a form barcode (too few fields) or unreadable image data
+
+export const MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+
+const HTTP_STATUS: Record<BarcodeServiceErrorCode, number> = {
+  BAD_REQUEST: 400,
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  PAYLOAD_TOO_LARGE: 413,
+  NO_BARCODE: 422,
+  UNSUPPORTED_FORM: 422,
+  INVALID_DATA: 422
+};
+
+export class BarcodeServiceError extends Error {
+  readonly code: BarcodeServiceErrorCode;
+  readonly status: number;
+  readonly parsed?: ParsedBarcodeData; // Partial parse result, when there is one
+
+  constructor(code: BarcodeServiceErrorCode, message: string, parsed?: ParsedBarcodeData) {
+    super(message);
+    this.name = 'BarcodeServiceError';
+    this.code = code;
+    this.status = HTTP_STATUS[code];
+    this.parsed = parsed;
+  }
+
+  /**
+   * JSON body of an error response
+   */
+  toJSON(): { error: string; code: BarcodeServiceErrorCode; parsed?: ParsedBarcodeData } {
+    return { error: this.message, code: this.code, ...(this.parsed && { parsed: this.parsed }) };
+  }
+}
+
+/**
+ * Parse raw barcode text; forms with validation issues are returned, unreadable barcodes throw
+ */
+export function parseBarcodeText(text: string): ParsedBarcodeData {
+  if (!text.trim()) {
+    throw new BarcodeServiceError('BAD_REQUEST', 'Barcode text is empty');
+  }
+
+  const parsed = new PDF417HealthcareParser().parse(text);
+  const fatalIssue = parsed.issues.find(issue => issue.code === 'unsupportedForm' || issue.code === 'insufficientFields');
+  if (fatalIssue?.code === 'unsupportedForm') {
+    throw new BarcodeServiceError('UNSUPPORTED_FORM', fatalIssue.message, parsed);
+  }
+  if (fatalIssue) {
+    throw new BarcodeServiceError('INVALID_DATA', fatalIssue.message, parsed);
+  }
+  return parsed;
+}
+
+/**
+ * Decode a PNG or JPEG image, find the PDF417 barcode and parse it
+ */
+export function scanBarcodeImage(bytes: Uint8Array): { text: string; parsed: ParsedBarcodeData } {
+  if (bytes.length === 0) {
+    throw new BarcodeServiceError('BAD_REQUEST', 'Image is empty');
+  }
+  if (bytes.length > MAX_UPLOAD_BYTES) {
+    throw new BarcodeServiceError('PAYLOAD_TOO_LARGE', `Image exceeds ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+  }
+  const format = detectImageFormat(bytes);
+  if (format !== 'png' && format !== 'jpeg') {
+    throw new BarcodeServiceError('UNSUPPORTED_MEDIA_TYPE', 'Unsupported image format (expected PNG or JPEG)');
+  }
+
+  let image;
+  try {
+    image = decodeImage(bytes);
+  } catch (error) {
+    throw new BarcodeServiceError('INVALID_DATA', `Image could not be decoded: ${error instanceof Error ? error.message : error}`);
+  }
+
+  let text: string;
+  try {
+    text = new PixelBarcodeScanner().scan(image).text;
+  } catch (error) {
+    if (error instanceof NotFoundException) {
+      throw new BarcodeServiceError('NO_BARCODE', 'No PDF417 barcode found in image');
+    }
+    throw error;
+  }
+  return { text, parsed: parseBarcodeText(text) };
+}
@@ -0,0 +1,30 @@
+// Purpose: Browser downloads for generated exports (PDF, LDT, GDT, templates, tables)
+// Object URLs stay valid for a minute; revoking right after click() can cancel the download in some browsers
+
+const OBJECT_URL_LIFETIME_MS = 60000;
+
+/**
+ * Download a URL (data: or object URL) under the given file name
+ */
+export function downloadFile(href: string, fileName: string): void {
+  const linkElement = document.createElement('a');
+  linkElement.setAttribute('href', href);
+  linkElement.setAttribute('download', fileName);
+  linkElement.click();
+}
+
+/**
+ * Download generated content through an object URL that is revoked once the browser has picked it up
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  downloadFile(url, fileName);
+  revokeObjectUrlLater(url);
+}
+
+/**
+ * Revoke an object URL handed to the browser (download or new tab) after it had time to load
+ */
+export function revokeObjectUrlLater(url: string): void {
+  setTimeout(() => URL.revokeObjectURL(url), OBJECT_URL_LIFETIME_MS);
+}
@@ -0,0 +1,292 @@
+// Purpose: User-defined text export templates over the canonical schema field names
+// Supports placeholders with filters (date format, padding, case), conditionals and loops over repeated blocks
+
+import { encodeIso885915 } from './xdt';
+
+export interface ExportTemplate {
+  id: string;
+  name: string; // Button label in the edit view
+  body: string; // Template source, e.g. "{{nachname|upper}};{{geburtsdatum|date:DD.MM.YYYY}}"
+  output: 'copy' | 'download'; // Copy to the clipboard or download as a file
+  fileName?: string; // Download file name, may contain placeholders (default "<name>.txt")
+  lineEnding?: 'LF' | 'CRLF'; // Line breaks of the result (default LF)
+  encoding?: 'utf-8' | 'iso-8859-15'; // Encoding of downloaded files (default UTF-8)
+}
+
+// Parsed template: literal text and tags
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string; filters: TemplateFilter[] }
+  | { kind: 'if'; condition: TemplateCondition; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { kind: 'each'; path: string; body: TemplateNode[] };
+
+interface TemplateFilter {
+  name: string;
+  args: string[];
+}
+
+interface TemplateCondition {
+  path: string;
+  operator?: '==' | '!=';
+  value?: string;
+}
+
+// Open block while parsing; "else" switches the target list of an if block
+interface OpenBlock {
+  node: Extract<TemplateNode, { kind: 'if' | 'each' }>;
+  tag: 'if' | 'unless' | 'each';
+  target: TemplateNode[];
+}
+
+type FilterFunction = (value: string, args: string[]) => string;
+
+const FILTERS: Record<string, FilterFunction> = {
+  // Date in a custom format: DD, MM, YYYY, YY; unknown parts of partial dates become 00
+  date: (value, [format = 'DD.MM.YYYY']) => formatTemplateDate(value, format),
+  // Pad on the right (text columns) or left (numbers) to a fixed width
+  pad: (value, [width = '0', char = ' ']) => value.padEnd(Number(width), char || ' '),
+  padStart: (value, [width = '0', char = ' ']) => value.padStart(Number(width), char || ' '),
+  // Cut to a maximum length
+  truncate: (value, [length = '0']) => Array.from(value).slice(0, Number(length)).join(''),
+  upper: value => value.toLocaleUpperCase('de-DE'),
+  lower: value => value.toLocaleLowerCase('de-DE'),
+  trim: value => value.trim(),
+  default: (value, [fallback = '']) => value || fallback,
+  replace: (value, [search = '', replacement = '']) => search ? value.split(search).join(replacement) : value
+};
+
+const NUMERIC_FILTER_ARGS: Record<string, number> = { pad: 0, padStart: 0, truncate: 0 };
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PATH_PATTERN = /^@?\w+(\[\d+\])?(\.\w+)*$/;
+
+export class ExportTemplateRenderer {
+  private cache = new Map<string, TemplateNode[]>();
+
+  /**
+   * Render a template against edited form data; repeated blocks are available as arrays ("verordnungen")
+   */
+  render(body: string, data: Record<string, unknown>): string {
+    return this.renderNodes(this.parse(body), [data]);
+  }
+
+  /**
+   * Render an export template, applying its line ending
+   */
+  renderTemplate(template: ExportTemplate, data: Record<string, unknown>): string {
+    const text = this.render(template.body, data).replace(/\r\n|\r|\n/g, '\n');
+    return template.lineEnding === 'CRLF' ? text.replace(/\n/g, '\r\n') : text;
+  }
+
+  /**
+   * File name and content for downloading an export template
+   */
+  renderFile(template: ExportTemplate, data: Record<string, unknown>): { fileName: string; content: Uint8Array } {
+    const text = this.renderTemplate(template, data);
+    const fileName = (template.fileName ? this.render(template.fileName, data) : `${template.name}.txt`)
+      .replace(/[\\/:*?"<>|\r\n]+/g, '_');
+    const content = template.encoding === 'iso-8859-15' ? encodeIso885915(text) : new TextEncoder().encode(text);
+
+    console.log(`[ExportTemplate] Rendered "${template.name}" to ${fileName} (${content.length} bytes)`);
+    return { fileName, content };
+  }
+
+  /**
+   * Syntax errors of a template, empty when it can be rendered
+   */
+  validate(body: string): string[] {
+    try {
+      this.parse(body);
+      return [];
+    } catch (error) {
+      return [error instanceof Error ? error.message : String(error)];
+    }
+  }
+
+  private parse(body: string): TemplateNode[] {
+    const cached = this.cache.get(body);
+    if (cached) {
+      return cached;
+    }
+
+    const root: TemplateNode[] = [];
+    const stack: OpenBlock[] = [];
+    const current = () => stack.length > 0 ? stack[stack.length - 1].target : root;
+    let lastIndex = 0;
+
+    for (const match of body.matchAll(TAG_PATTERN)) {
+      if (match.index! > lastIndex) {
+        current().push({ kind: 'text', text: body.slice(lastIndex, match.index) });
+      }
+      lastIndex = match.index! + match[0].length;
+      const tag = match[1];
+      const position = `at position ${match.index! + 1}`;
+
+      const blockMatch = tag.match(/^#(if|unless|each)\s+([\s\S]+)$/);
+      if (blockMatch) {
+        const [, blockTag, expression] = blockMatch;
+        const node: OpenBlock['node'] = blockTag === 'each'
+          ? { kind: 'each', path: this.parsePath(expression, position), body: [] }
+          : { kind: 'if', condition: this.parseCondition(expression, position), negate: blockTag === 'unless', then: [], otherwise: [] };
+        current().push(node);
+        stack.push({ node, tag: blockTag as OpenBlock['tag'], target: node.kind === 'each' ? node.body : node.then });
+        continue;
+      }
+
+      if (tag === 'else') {
+        const block = stack[stack.length - 1];
+        if (!block || block.node.kind !== 'if' || block.target === block.node.otherwise) {
+          throw new Error(`Unexpected {{else}} ${position}`);
+        }
+        block.target = block.node.otherwise;
+        continue;
+      }
+
+      const closeMatch = tag.match(/^\/(if|unless|each)$/);
+      if (closeMatch) {
+        const block = stack.pop();
+        if (!block || block.tag !== closeMatch[1]) {
+          throw new Error(`Unexpected {{/${closeMatch[1]}}} ${position}`);
+        }
+        continue;
+      }
+
+      const [path, ...filterSources] = this.splitOutsideQuotes(tag, '|');
+      current().push({
+        kind: 'value',
+        path: this.parsePath(path, position),
+        filters: filterSources.map(source => this.parseFilter(source, position))
+      });
+    }
+
+    if (stack.length > 0) {
+      throw new Error(`Missing {{/${stack[stack.length - 1].tag}}}`);
+    }
+    if (lastIndex < body.length) {
+      root.push({ kind: 'text', text: body.slice(lastIndex) });
+    }
+
+    this.cache.set(body, root);
+    return root;
+  }
+
+  private parsePath(source: string, position: string): string {
+    const path = source.trim();
+    if (!PATH_PATTERN.test(path)) {
+      throw new Error(`Invalid field name "${path}" ${position}`);
+    }
+    return path;
+  }
+
+  private parseCondition(source: string, position: string): TemplateCondition {
+    const match = source.trim().match(/^(\S+)\s*(==|!=)\s*("(?:[^"]*)"|\S+)$/);
+    if (!match) {
+      return { path: this.parsePath(source, position) };
+    }
+    return {
+      path: this.parsePath(match[1], position),
+      operator: match[2] as TemplateCondition['operator'],
+      value: this.unquote(match[3])
+    };
+  }
+
+  private parseFilter(source: string, position: string): TemplateFilter {
+    const [name, ...args] = this.splitOutsideQuotes(source, ':').map((part, i) => i === 0 ? part.trim() : this.unquote(part));
+    if (!FILTERS[name]) {
+      throw new Error(`Unknown filter "${name}" ${position}`);
+    }
+    const numericArg = NUMERIC_FILTER_ARGS[name];
+    if (numericArg !== undefined && !/^\d+$/.test(args[numericArg] || '')) {
+      throw new Error(`Filter "${name}" needs a length ${position}`);
+    }
+    return { name, args };
+  }
+
+  private renderNodes(nodes: TemplateNode[], scopes: Record<string, unknown>[]): string {
+    return nodes.map(node => {
+      switch (node.kind) {
+        case 'text':
+          return node.text;
+        case 'value':
+          return node.filters.reduce(
+            (value, filter) => FILTERS[filter.name](value, filter.args),
+            toText(this.lookup(node.path, scopes))
+          );
+        case 'if':
+          return this.renderNodes(this.test(node.condition, scopes) !== node.negate ? node.then : node.otherwise, scopes);
+        case 'each': {
+          const entries = this.lookup(node.path, scopes);
+          if (!Array.isArray(entries)) {
+            return '';
+          }
+          // Empty entries of repeated blocks (unused prescription lines) are skipped
+          return entries
+            .filter(entry => entry && typeof entry === 'object' && Object.values(entry).some(value => toText(value) !== ''))
+            .map((entry, index) => this.renderNodes(node.body, [
+              { ...(entry as Record<string, unknown>), '@index': index, '@number': index + 1 },
+              ...scopes
+            ]))
+            .join('');
+        }
+      }
+    }).join('');
+  }
+
+  private test(condition: TemplateCondition, scopes: Record<string, unknown>[]): boolean {
+    const value = this.lookup(condition.path, scopes);
+    if (condition.operator) {
+      return (toText(value) === condition.value) === (condition.operator === '==');
+    }
+    return Array.isArray(value) ? value.length > 0 : value !== false && toText(value) !== '';
+  }
+
+  /**
+   * Resolve a field in the innermost scope that has it ("pzn" inside a loop, "nachname" outside)
+   */
+  private lookup(path: string, scopes: Record<string, unknown>[]): unknown {
+    const parts = path.split(/\.|\[(\d+)\]/).filter(part => part !== undefined && part !== '');
+    const scope = scopes.find(candidate => candidate[parts[0]] !== undefined);
+    return parts.reduce<unknown>(
+      (value, part) => value && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined,
+      scope
+    );
+  }
+
+  private splitOutsideQuotes(source: string, separator: string): string[] {
+    const parts: string[] = [];
+    let part = '';
+    let quoted = false;
+    for (const char of source) {
+      if (char === '"') quoted = !quoted;
+      if (char === separator && !quoted) {
+        parts.push(part);
+        part = '';
+      } else {
+        part += char;
+      }
+    }
+    return [...parts, part];
+  }
+
+  private unquote(value: string): string {
+    return /^"[\s\S]*"$/.test(value) ? value.slice(1, -1) : value;
+  }
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null || typeof value === 'object') return '';
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  return String(value);
+}
+
+/**
+ * Format an ISO date (full or partial) with DD, MM, YYYY and YY tokens
+ */
+function formatTemplateDate(isoDate: string, format: string): string {
+  const match = isoDate.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/);
+  if (!match) {
+    return isoDate;
+  }
+  const [, year, month = '00', day = '00'] = match;
+  return format.replace(/YYYY|YY|MM|DD/g, token => ({ YYYY: year, YY: year.slice(2), MM: month, DD: day })[token]!);
+}
@@ -0,0 +1,327 @@
+// Purpose: Export parsed healthcare forms as HL7 FHIR R4 transaction Bundles
+// Identifiers and extensions follow the German base profiles (de.basisprofil.r4) and KBV naming systems
+
+import { FhirBundle, FhirBundleEntry, FhirResource, KostentraegerTyp } from '@/types/healthcare';
+import { FormSchemaRegistry } from './schema-registry';
+
+export interface FhirExporterOptions {
+  idGenerator?: () => string; // UUIDs for urn:uuid references (defaults to crypto.randomUUID)
+  now?: () => Date; // Bundle timestamp source
+}
+
+// Naming systems and code systems
+const SYSTEMS = {
+  kvid10: 'http://fhir.de/sid/gkv/kvid-10',
+  identifierTypeDe: 'http://fhir.de/CodeSystem/identifier-type-de-basis',
+  identifierTypeV2: 'http://terminology.hl7.org/CodeSystem/v2-0203',
+  iknr: 'http://fhir.de/sid/arge-ik/iknr',
+  lanr: 'https://fhir.kbv.de/NamingSystem/KBV_NS_Base_ANR',
+  bsnr: 'https://fhir.kbv.de/NamingSystem/KBV_NS_Base_BSNR',
+  versicherungsart: 'http://fhir.de/CodeSystem/versicherungsart-de-basis',
+  versichertenstatus: 'https://fhir.kbv.de/CodeSystem/KBV_CS_SFHIR_KBV_VERSICHERTENSTATUS',
+  personengruppe: 'https://fhir.kbv.de/CodeSystem/KBV_CS_SFHIR_KBV_PERSONENGRUPPE',
+  dmp: 'https://fhir.kbv.de/CodeSystem/KBV_CS_SFHIR_KBV_DMP',
+  wop: 'https://fhir.kbv.de/CodeSystem/KBV_CS_SFHIR_ITA_WOP',
+  genderAmtlich: 'http://fhir.de/CodeSystem/gender-amtlich-de',
+  pzn: 'http://fhir.de/CodeSystem/ifa/pzn',
+  snomed: 'http://snomed.info/sct'
+};
+
+const EXTENSIONS = {
+  versichertenart: 'http://fhir.de/StructureDefinition/gkv/versichertenart',
+  personengruppe: 'http://fhir.de/StructureDefinition/gkv/besondere-personengruppe',
+  dmp: 'http://fhir.de/StructureDefinition/gkv/dmp-kennzeichen',
+  wop: 'http://fhir.de/StructureDefinition/gkv/wop',
+  genderAmtlich: 'http://fhir.de/StructureDefinition/gender-amtlich-de',
+  nameQualifier: 'http://hl7.org/fhir/StructureDefinition/iso21090-EN-qualifier',
+  streetName: 'http://hl7.org/fhir/StructureDefinition/iso21090-ADXP-streetName',
+  houseNumber: 'http://hl7.org/fhir/StructureDefinition/iso21090-ADXP-houseNumber'
+};
+
+const VERSICHERUNGSART_CODES: Record<KostentraegerTyp, string | undefined> = {
+  GKV: 'GKV',
+  BG: 'BG',
+  Sozialamt: 'SOZ',
+  sonstige: undefined
+};
+
+// Muster 10 and Muster 6 both become a ServiceRequest; the category tells them apart
+const SERVICE_REQUEST_CATEGORIES: Record<string, { code: string; display: string }> = {
+  '10': { code: '108252007', display: 'Laboratory procedure' },
+  '6': { code: '3457005', display: 'Patient referral' }
+};
+
+type FhirReference = { reference: string };
+
+// References and dates shared by the request resources of a Bundle
+interface RequestContext {
+  subject: FhirReference;
+  coverage: FhirReference;
+  requester?: FhirReference;
+  authoredOn?: string;
+}
+
+export class FhirBundleExporter {
+  private idGenerator: () => string;
+  private now: () => Date;
+
+  constructor(options: FhirExporterOptions = {}) {
+    this.idGenerator = options.idGenerator || (() => crypto.randomUUID());
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Build a transaction Bundle with Patient, Coverage, requester and the form-specific request resources
+   */
+  createBundle(formType: string, data: Record<string, unknown>): FhirBundle {
+    const formCode = FormSchemaRegistry.normalizeFormCode(formType);
+    const entries: FhirBundleEntry[] = [];
+    const addEntry = (resource: FhirResource, ifNoneExist?: string): FhirReference => {
+      const fullUrl = `urn:uuid:${this.idGenerator()}`;
+      entries.push({
+        fullUrl,
+        resource: this.compact(resource),
+        request: this.compact({ method: 'POST', url: resource.resourceType, ifNoneExist }) as FhirBundleEntry['request']
+      });
+      return { reference: fullUrl };
+    };
+
+    const versichertenId = this.getText(data, 'versichertenId');
+    const patient = addEntry(
+      this.createPatient(data),
+      this.isKvnr(versichertenId) ? `identifier=${SYSTEMS.kvid10}|${versichertenId}` : undefined
+    );
+    const coverage = addEntry(this.createCoverage(data, patient));
+    const requester = this.addRequester(data, addEntry);
+    const context = { subject: patient, coverage, requester, authoredOn: this.getText(data, 'ausstellungsdatum') };
+
+    if (SERVICE_REQUEST_CATEGORIES[formCode]) {
+      addEntry(this.createServiceRequest(formCode, data, context));
+    } else if (formCode === '16') {
+      const prescriptions = Array.isArray(data.verordnungen) ? data.verordnungen as Record<string, unknown>[] : [];
+      prescriptions
+        .filter(prescription => this.getText(prescription, 'pzn') || this.getText(prescription, 'arzneimittel'))
+        .forEach(prescription => addEntry(this.createMedicationRequest(prescription, context)));
+    }
+
+    console.log(`[FhirExporter] Bundle for Muster ${formCode} with ${entries.length} resources`);
+    return {
+      resourceType: 'Bundle',
+      type: 'transaction',
+      timestamp: this.now().toISOString(),
+      entry: entries
+    };
+  }
+
+  private createPatient(data: Record<string, unknown>): FhirResource {
+    const versichertenId = this.getText(data, 'versichertenId');
+    const titel = this.getText(data, 'titel');
+    const strasse = this.getText(data, 'strasse');
+    const hausnummer = this.getText(data, 'hausnummer');
+    const laenderkennzeichen = this.getText(data, 'laenderkennzeichen');
+
+    return {
+      resourceType: 'Patient',
+      identifier: versichertenId ? [this.isKvnr(versichertenId)
+        ? {
+          type: { coding: [{ system: SYSTEMS.identifierTypeDe, code: 'KVZ10' }] },
+          system: SYSTEMS.kvid10,
+          value: versichertenId
+        }
+        : { type: { text: 'Versichertennummer' }, value: versichertenId }] : undefined,
+      name: [{
+        use: 'official',
+        family: this.getText(data, 'nachname'),
+        given: this.list(this.getText(data, 'vorname')),
+        prefix: this.list(titel),
+        _prefix: titel ? [{ extension: [{ url: EXTENSIONS.nameQualifier, valueCode: 'AC' }] }] : undefined
+      }],
+      ...this.createGender(this.getText(data, 'geschlecht')),
+      birthDate: this.getText(data, 'geburtsdatum'), // FHIR dates accept "YYYY" and "YYYY-MM"
+      address: strasse || this.getText(data, 'ort') ? [{
+        type: 'both',
+        line: this.list([strasse, hausnummer].filter(Boolean).join(' ')),
+        _line: strasse ? [{
+          extension: [
+            { url: EXTENSIONS.streetName, valueString: strasse },
+            hausnummer ? { url: EXTENSIONS.houseNumber, valueString: hausnummer } : undefined
+          ]
+        }] : undefined,
+        city: this.getText(data, 'ort'),
+        postalCode: this.getText(data, 'plz'),
+        country: !laenderkennzeichen || laenderkennzeichen === 'D' ? 'DE' : laenderkennzeichen
+      }] : undefined
+    };
+  }
+
+  /**
+   * Administrative gender; "D" and "X" keep the German civil status in the gender-amtlich-de extension
+   */
+  private createGender(geschlecht: string | undefined): Record<string, unknown> {
+    switch (geschlecht) {
+      case 'M':
+        return { gender: 'male' };
+      case 'W':
+        return { gender: 'female' };
+      case 'D':
+      case 'X':
+        return {
+          gender: geschlecht === 'D' ? 'other' : 'unknown',
+          _gender: { extension: [{ url: EXTENSIONS.genderAmtlich, valueCoding: { system: SYSTEMS.genderAmtlich, code: geschlecht } }] }
+        };
+      default:
+        return {};
+    }
+  }
+
+  private createCoverage(data: Record<string, unknown>, beneficiary: FhirReference): FhirResource {
+    const typ = (this.getText(data, 'kostentraegerTyp') || 'GKV') as KostentraegerTyp;
+    const versicherungsart = VERSICHERUNGSART_CODES[typ];
+    const ik = this.getText(data, 'kostentraegerkennung');
+    const statusExtension = (url: string, system: string, code: string | undefined) =>
+      code ? { url, valueCoding: { system, code } } : undefined;
+
+    return {
+      resourceType: 'Coverage',
+      extension: [
+        statusExtension(EXTENSIONS.versichertenart, SYSTEMS.versichertenstatus, this.getText(data, 'versichertenart')),
+        statusExtension(EXTENSIONS.personengruppe, SYSTEMS.personengruppe, this.getText(data, 'besonderePersonengruppe')),
+        statusExtension(EXTENSIONS.dmp, SYSTEMS.dmp, this.getText(data, 'dmpKennzeichnung')),
+        statusExtension(EXTENSIONS.wop, SYSTEMS.wop, this.getText(data, 'wopKennzeichen'))
+      ],
+      status: 'active',
+      type: versicherungsart
+        ? { coding: [{ system: SYSTEMS.versicherungsart, code: versicherungsart }] }
+        : { text: typ },
+      beneficiary,
+      period: this.getText(data, 'versicherungsschutzEnde') ? { end: this.getText(data, 'versicherungsschutzEnde') } : undefined,
+      payor: [{
+        identifier: ik ? { system: SYSTEMS.iknr, value: ik } : undefined,
+        display: this.getText(data, 'kostentraegernameVerzeichnis') || this.getText(data, 'kostentraegername') || 'Unbekannter Kostenträger'
+      }]
+    };
+  }
+
+  /**
+   * Practitioner (LANR) and Organization (BSNR), linked by a PractitionerRole when both are known
+   */
+  private addRequester(
+    data: Record<string, unknown>,
+    addEntry: (resource: FhirResource) => FhirReference
+  ): FhirReference | undefined {
+    const lanr = this.getText(data, 'lanr') || this.getText(data, 'lanrErstveranlasser');
+    const bsnr = this.getText(data, 'betriebsstaettennummer') || this.getText(data, 'bsnrErstveranlasser');
+    const identifier = (system: string, code: string, value: string) => [{
+      type: { coding: [{ system: SYSTEMS.identifierTypeV2, code }] },
+      system,
+      value
+    }];
+
+    const practitioner = lanr
+      ? addEntry({ resourceType: 'Practitioner', identifier: identifier(SYSTEMS.lanr, 'LANR', lanr) })
+      : undefined;
+    const organization = bsnr
+      ? addEntry({ resourceType: 'Organization', identifier: identifier(SYSTEMS.bsnr, 'BSNR', bsnr) })
+      : undefined;
+
+    if (practitioner && organization) {
+      return addEntry({ resourceType: 'PractitionerRole', practitioner, organization });
+    }
+    return practitioner || organization;
+  }
+
+  /**
+   * Lab order (Muster 10) or referral (Muster 6)
+   */
+  private createServiceRequest(formCode: string, data: Record<string, unknown>, context: RequestContext): FhirResource {
+    const category = SERVICE_REQUEST_CATEGORIES[formCode];
+    const isLabOrder = formCode === '10';
+    const anforderungsIdent = this.getText(data, 'anforderungsIdent');
+    const performerType = this.getText(data, 'fachrichtung') || this.getText(data, 'fachbereich');
+
+    return {
+      resourceType: 'ServiceRequest',
+      requisition: anforderungsIdent ? { value: anforderungsIdent } : undefined,
+      status: 'active',
+      intent: 'order',
+      category: [{ coding: [{ system: SYSTEMS.snomed, ...category }] }],
+      code: isLabOrder && this.getText(data, 'auftrag') ? { text: this.getText(data, 'auftrag') } : undefined,
+      subject: context.subject,
+      authoredOn: context.authoredOn,
+      requester: context.requester,
+      performerType: performerType ? { text: performerType } : undefined,
+      reasonCode: [
+        this.getText(data, 'diagnose'),
+        this.getText(data, 'verdachtsdiagnose') && `V.a. ${this.getText(data, 'verdachtsdiagnose')}`
+      ].filter(Boolean).map(text => ({ text })),
+      insurance: [context.coverage],
+      note: isLabOrder ? undefined : this.list(this.getText(data, 'ueberweisungsgrund'))?.map(text => ({ text }))
+    };
+  }
+
+  /**
+   * One MedicationRequest per prescription line of Muster 16
+   */
+  private createMedicationRequest(prescription: Record<string, unknown>, context: RequestContext): FhirResource {
+    const pzn = this.getText(prescription, 'pzn');
+    const packungsanzahl = Number(this.getText(prescription, 'packungsanzahl'));
+    const name = [this.getText(prescription, 'arzneimittel'), this.getText(prescription, 'normgroesse')].filter(Boolean).join(' ');
+
+    return {
+      resourceType: 'MedicationRequest',
+      status: 'active',
+      intent: 'order',
+      medicationCodeableConcept: {
+        coding: pzn ? [{ system: SYSTEMS.pzn, code: pzn }] : undefined,
+        text: name || undefined
+      },
+      subject: context.subject,
+      authoredOn: context.authoredOn,
+      requester: context.requester,
+      insurance: [context.coverage],
+      dosageInstruction: this.list(this.getText(prescription, 'dosierung'))?.map(text => ({ text })),
+      dispenseRequest: packungsanzahl > 0 ? { quantity: { value: packungsanzahl, unit: 'Packung' } } : undefined,
+      substitution: { allowedBoolean: this.getText(prescription, 'autIdem') !== '1' } // aut idem crossed out
+    };
+  }
+
+  private getText(data: Record<string, unknown>, field: string): string | undefined {
+    const value = data[field];
+    if (value === undefined || value === null || typeof value === 'object') {
+      return undefined;
+    }
+    return String(value).trim() || undefined;
+  }
+
+  private isKvnr(value: string | undefined): boolean {
+    return !!value && /^[A-Z]\d{9}$/.test(value);
+  }
+
+  private list(value: string | undefined): string[] | undefined {
+    return value ? [value] : undefined;
+  }
+
+  /**
+   * FHIR forbids empty elements: drop undefined values, empty arrays and empty objects recursively
+   */
+  private compact<T>(value: T): T {
+    if (Array.isArray(value)) {
+      return value.map(item => this.compact(item)).filter(item => !this.isEmpty(item)) as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value)
+          .map(([key, item]) => [key, this.compact(item)])
+          .filter(([, item]) => !this.isEmpty(item))
+      ) as T;
+    }
+    return value;
+  }
+
+  private isEmpty(value: unknown): boolean {
+    if (value === undefined || value === null || value === '') return true;
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === 'object') return Object.keys(value).length === 0;
+    return false;
+  }
+}
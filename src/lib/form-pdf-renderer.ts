@@ -0,0 +1,248 @@
+// Purpose: Render filled Muster forms as printable PDF documents (offline, client-side)
+// Full-page mode draws a complete form with captions; overlay mode prints only values and barcode onto pre-printed blanks
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { FormPrintLayout, PrintFieldPosition } from '@/types/healthcare';
+import { formatDate } from './utils';
+import { getDefaultPrintLayouts } from './form-print-layouts';
+import { PDF417HealthcareEncoder } from './pdf417-encoder';
+import { FormSchemaRegistry } from './schema-registry';
+
+export type FormPdfMode = 'full' | 'overlay';
+
+export interface FormPdfRendererOptions {
+  layouts?: FormPrintLayout[]; // Print layouts (defaults to the built-in layouts)
+  encoder?: PDF417HealthcareEncoder; // Barcode encoder for the regenerated symbol
+}
+
+export interface FormPdfRenderOptions {
+  mode?: FormPdfMode; // Default 'full'
+  payload?: string; // Barcode payload; no barcode is printed if omitted
+  offsetX?: number; // Printer calibration in mm (positive moves right)
+  offsetY?: number; // Printer calibration in mm (positive moves down)
+}
+
+const POINTS_PER_MM = 72 / 25.4;
+const DEFAULT_FONT_SIZE = 9;
+const LABEL_FONT_SIZE = 5.5;
+const CHECKBOX_VALUES = ['1', 'X', 'x', 'J', 'j', 'true'];
+
+export class FormPdfRenderer {
+  private layouts = new Map<string, FormPrintLayout>();
+  private encoder: PDF417HealthcareEncoder;
+
+  constructor(options: FormPdfRendererOptions = {}) {
+    (options.layouts || getDefaultPrintLayouts()).forEach(layout => {
+      this.layouts.set(FormSchemaRegistry.normalizeFormCode(layout.formCode), layout);
+    });
+    this.encoder = options.encoder || new PDF417HealthcareEncoder();
+  }
+
+  /**
+   * Print layout for a form code
+   */
+  getLayout(formCode: string): FormPrintLayout | undefined {
+    return this.layouts.get(FormSchemaRegistry.normalizeFormCode(formCode));
+  }
+
+  /**
+   * Render form data as single-page PDF
+   */
+  async render(data: Record<string, unknown>, options: FormPdfRenderOptions = {}): Promise<Uint8Array> {
+    const formCode = String(data.formularcode || '');
+    const layout = this.getLayout(formCode);
+    if (!layout) {
+      throw new Error(`No print layout for form type: ${formCode}`);
+    }
+
+    const mode = options.mode || 'full';
+    const offsetX = options.offsetX ?? 0;
+    const offsetY = options.offsetY ?? 0;
+    const document = await PDFDocument.create();
+    document.setTitle(layout.name);
+    document.setCreator('PDF417 Healthcare Form Scanner');
+    const page = document.addPage([layout.pageWidth * POINTS_PER_MM, layout.pageHeight * POINTS_PER_MM]);
+    const font = await document.embedFont(StandardFonts.Helvetica);
+    const boldFont = await document.embedFont(StandardFonts.HelveticaBold);
+
+    if (mode === 'full') {
+      this.drawText(page, boldFont, layout.name, 8, 5, 10, offsetX, offsetY);
+    }
+
+    layout.fields.forEach(position => {
+      if (mode === 'full') {
+        this.drawCaption(page, font, position, offsetX, offsetY);
+      }
+      const value = this.getFieldText(data, position);
+      if (value) {
+        this.drawValue(page, font, position, value, offsetX, offsetY);
+      }
+    });
+
+    if (options.payload) {
+      this.drawBarcode(page, layout.barcode, options.payload, offsetX, offsetY);
+    }
+
+    console.log(`[FormPdfRenderer] Rendered ${layout.name} (${mode})`);
+    return document.save();
+  }
+
+  /**
+   * Printable text of a position; several fields are joined with a space
+   */
+  private getFieldText(data: Record<string, unknown>, position: PrintFieldPosition): string {
+    const names = Array.isArray(position.field) ? position.field : [position.field];
+    const values = names.map(name => this.getValue(data, name)).filter(Boolean);
+
+    if (position.format === 'checkbox') {
+      return values.some(value => CHECKBOX_VALUES.includes(value)) ? 'X' : '';
+    }
+    if (position.format === 'date') {
+      return values.map(value => formatDate(value)).join(' ');
+    }
+    return values.join(' ');
+  }
+
+  /**
+   * Value of a data field; "group[i].field" addresses entries of repeated blocks
+   */
+  private getValue(data: Record<string, unknown>, name: string): string {
+    const groupMatch = name.match(/^(\w+)\[(\d+)\]\.(\w+)$/);
+    const value = groupMatch
+      ? (data[groupMatch[1]] as Record<string, unknown>[] | undefined)?.[Number(groupMatch[2])]?.[groupMatch[3]]
+      : data[name];
+    return value === undefined || value === null ? '' : String(value).trim();
+  }
+
+  private drawCaption(page: PDFPage, font: PDFFont, position: PrintFieldPosition, offsetX: number, offsetY: number) {
+    const fontSize = position.fontSize ?? DEFAULT_FONT_SIZE;
+    const boxTop = position.y - fontSize / POINTS_PER_MM - 2.5;
+    const boxHeight = (position.lines ?? 1) * fontSize * 1.2 / POINTS_PER_MM + 3.5;
+
+    if (position.label) {
+      this.drawText(page, font, position.label, position.x, boxTop + 1.8, LABEL_FONT_SIZE, offsetX, offsetY);
+    }
+    if (position.format === 'checkbox') {
+      const size = 3.5;
+      page.drawRectangle({
+        ...this.toPoints(page, position.x, position.y + 0.8, offsetX, offsetY),
+        width: size * POINTS_PER_MM,
+        height: size * POINTS_PER_MM,
+        borderColor: rgb(0.6, 0.6, 0.6),
+        borderWidth: 0.5
+      });
+      return;
+    }
+    page.drawRectangle({
+      ...this.toPoints(page, position.x - 1, boxTop + boxHeight, offsetX, offsetY),
+      width: (position.width + 2) * POINTS_PER_MM,
+      height: boxHeight * POINTS_PER_MM,
+      borderColor: rgb(0.8, 0.8, 0.8),
+      borderWidth: 0.5
+    });
+  }
+
+  private drawValue(page: PDFPage, font: PDFFont, position: PrintFieldPosition, value: string, offsetX: number, offsetY: number) {
+    if (position.format === 'checkbox') {
+      this.drawText(page, font, value, position.x + 0.7, position.y, DEFAULT_FONT_SIZE, offsetX, offsetY);
+      return;
+    }
+
+    const text = this.toPrintableText(font, value);
+    const maxWidth = position.width * POINTS_PER_MM;
+    const maxLines = position.lines ?? 1;
+    let fontSize = position.fontSize ?? DEFAULT_FONT_SIZE;
+
+    // Single-line boxes shrink the text; multi-line boxes wrap and truncate
+    if (maxLines === 1) {
+      while (fontSize > 5 && font.widthOfTextAtSize(text, fontSize) > maxWidth) fontSize -= 0.5;
+      this.drawText(page, font, this.truncate(font, text, fontSize, maxWidth), position.x, position.y, fontSize, offsetX, offsetY);
+      return;
+    }
+
+    const lineHeight = fontSize * 1.2 / POINTS_PER_MM;
+    this.wrapText(font, text, fontSize, maxWidth, maxLines).forEach((line, lineIndex) => {
+      this.drawText(page, font, line, position.x, position.y + lineIndex * lineHeight, fontSize, offsetX, offsetY);
+    });
+  }
+
+  /**
+   * Draw the PDF417 symbol as vector modules, keeping the 1:3 module aspect ratio within the reserved area
+   */
+  private drawBarcode(page: PDFPage, area: FormPrintLayout['barcode'], payload: string, offsetX: number, offsetY: number) {
+    const matrix = this.encoder.toMatrix(payload);
+    const moduleWidth = Math.min(area.width / matrix.columns, area.height / matrix.rows / 3);
+    const moduleHeight = moduleWidth * 3;
+
+    for (let row = 0; row < matrix.rows; row++) {
+      let column = 0;
+      while (column < matrix.columns) {
+        if (!matrix.modules[row * matrix.columns + column]) {
+          column++;
+          continue;
+        }
+        const runStart = column;
+        while (column < matrix.columns && matrix.modules[row * matrix.columns + column]) column++;
+        page.drawRectangle({
+          ...this.toPoints(page, area.x + runStart * moduleWidth, area.y + (row + 1) * moduleHeight, offsetX, offsetY),
+          width: (column - runStart) * moduleWidth * POINTS_PER_MM,
+          height: moduleHeight * POINTS_PER_MM,
+          color: rgb(0, 0, 0)
+        });
+      }
+    }
+  }
+
+  private drawText(page: PDFPage, font: PDFFont, text: string, x: number, y: number, size: number, offsetX: number, offsetY: number) {
+    page.drawText(this.toPrintableText(font, text), { ...this.toPoints(page, x, y, offsetX, offsetY), size, font, color: rgb(0, 0, 0) });
+  }
+
+  /**
+   * Convert mm from the top-left corner to PDF points from the bottom-left corner
+   */
+  private toPoints(page: PDFPage, x: number, y: number, offsetX: number, offsetY: number): { x: number; y: number } {
+    return {
+      x: (x + offsetX) * POINTS_PER_MM,
+      y: page.getHeight() - (y + offsetY) * POINTS_PER_MM
+    };
+  }
+
+  /**
+   * Standard fonts only cover WinAnsi; other characters are replaced
+   */
+  private toPrintableText(font: PDFFont, text: string): string {
+    const supported = new Set(font.getCharacterSet());
+    return Array.from(text.replace(/\s+/g, ' '))
+      .map(char => supported.has(char.codePointAt(0) ?? 0) ? char : '?')
+      .join('');
+  }
+
+  private wrapText(font: PDFFont, text: string, fontSize: number, maxWidth: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+
+    for (const word of text.split(' ')) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, fontSize) <= maxWidth || !current) {
+        current = candidate;
+        continue;
+      }
+      lines.push(current);
+      current = word;
+    }
+    if (current) lines.push(current);
+
+    if (lines.length > maxLines) {
+      console.log(`[FormPdfRenderer] Text truncated to ${maxLines} lines`);
+    }
+    return lines.slice(0, maxLines).map(line => this.truncate(font, line, fontSize, maxWidth));
+  }
+
+  private truncate(font: PDFFont, text: string, fontSize: number, maxWidth: number): string {
+    let result = text;
+    while (result.length > 1 && font.widthOfTextAtSize(result, fontSize) > maxWidth) {
+      result = result.slice(0, -1);
+    }
+    return result;
+  }
+}
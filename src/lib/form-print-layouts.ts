@@ -0,0 +1,266 @@
+// Purpose: Print layouts placing form data at the positions of the printed Muster forms
+// Coordinates in mm from the top-left corner; the Personalienfeld sits at the standard top-left position
+
+import { FormPrintLayout, PrintFieldPosition } from '@/types/healthcare';
+
+// DIN page sizes in mm (width x height)
+const A4_PORTRAIT = { pageWidth: 210, pageHeight: 297 };
+const A5_PORTRAIT = { pageWidth: 148, pageHeight: 210 };
+const A5_LANDSCAPE = { pageWidth: 210, pageHeight: 148 };
+const A6_LANDSCAPE = { pageWidth: 148, pageHeight: 105 };
+
+/**
+ * Personalienfeld (patient, insurance and practice block) shared by all forms
+ */
+function getPersonalienfeldPositions(x: number, y: number, bsnrField: string, lanrField: string): PrintFieldPosition[] {
+  return [
+    { field: 'kostentraegername', label: 'Krankenkasse bzw. Kostenträger', x: x + 1, y: y + 4, width: 78 },
+    { field: ['titel', 'nachname', 'vorname'], label: 'Name, Vorname des Versicherten', x: x + 1, y: y + 10, width: 56 },
+    { field: 'geburtsdatum', label: 'geb. am', x: x + 60, y: y + 10, width: 19, format: 'date' },
+    { field: ['strasse', 'hausnummer'], x: x + 1, y: y + 14, width: 56, fontSize: 8 },
+    { field: ['plz', 'ort'], x: x + 1, y: y + 18, width: 56, fontSize: 8 },
+    { field: 'kostentraegerkennung', label: 'Kostenträgerkennung', x: x + 1, y: y + 25, width: 20 },
+    { field: 'versichertenId', label: 'Versicherten-Nr.', x: x + 23, y: y + 25, width: 30 },
+    { field: ['versichertenart', 'besonderePersonengruppe', 'dmpKennzeichnung'], label: 'Status', x: x + 55, y: y + 25, width: 24 },
+    { field: bsnrField, label: 'Betriebsstätten-Nr.', x: x + 1, y: y + 32, width: 20 },
+    { field: lanrField, label: 'Arzt-Nr.', x: x + 23, y: y + 32, width: 30 },
+    { field: 'ausstellungsdatum', label: 'Datum', x: x + 55, y: y + 32, width: 24, format: 'date' }
+  ];
+}
+
+/**
+ * Muster 10 - Laborauftrag (A5 portrait)
+ */
+export function getMuster10PrintLayout(): FormPrintLayout {
+  return {
+    formCode: '10',
+    name: 'Muster 10 - Laborauftrag',
+    ...A5_PORTRAIT,
+    barcode: { x: 92, y: 8, width: 50, height: 20 },
+    fields: [
+      ...getPersonalienfeldPositions(8, 8, 'bsnrErstveranlasser', 'lanrErstveranlasser'),
+      { field: 'anforderungsIdent', label: 'Auftragsnummer', x: 92, y: 34, width: 50 },
+      { field: 'befundkopie', label: 'Befundkopie', x: 92, y: 42, width: 8, format: 'checkbox' },
+      { field: 'diagnose', label: 'Diagnose', x: 9, y: 58, width: 130, lines: 2 },
+      { field: 'verdachtsdiagnose', label: 'Verdachtsdiagnose', x: 9, y: 70, width: 130, lines: 2 },
+      { field: 'auftrag', label: 'Auftrag', x: 9, y: 84, width: 130, lines: 8 },
+      { field: 'bsnrUeberweiser', label: 'BSNR Überweiser', x: 9, y: 190, width: 35 },
+      { field: 'lanrUeberweiser', label: 'LANR Überweiser', x: 50, y: 190, width: 35 }
+    ]
+  };
+}
+
+/**
+ * Muster 6 - Überweisung (A5 portrait)
+ */
+export function getMuster6PrintLayout(): FormPrintLayout {
+  return {
+    formCode: '6',
+    name: 'Muster 6 - Überweisung',
+    ...A5_PORTRAIT,
+    barcode: { x: 92, y: 8, width: 50, height: 20 },
+    fields: [
+      ...getPersonalienfeldPositions(8, 8, 'bsnrErstveranlasser', 'lanrErstveranlasser'),
+      { field: ['fachrichtung', 'fachbereich'], label: 'Überweisung an', x: 92, y: 34, width: 50 },
+      { field: 'auftragsart', label: 'Auftragsart', x: 92, y: 42, width: 20 },
+      { field: 'diagnose', label: 'Diagnose/Verdachtsdiagnose', x: 9, y: 58, width: 130, lines: 3 },
+      { field: 'ueberweisungsgrund', label: 'Befund/Medikation/Auftrag', x: 9, y: 78, width: 130, lines: 8 }
+    ]
+  };
+}
+
+/**
+ * Muster 12 - Häusliche Krankenpflege (A4 portrait)
+ */
+export function getMuster12PrintLayout(): FormPrintLayout {
+  return {
+    formCode: '12',
+    name: 'Muster 12 - Häusliche Krankenpflege',
+    ...A4_PORTRAIT,
+    barcode: { x: 140, y: 8, width: 60, height: 22 },
+    fields: [
+      ...getPersonalienfeldPositions(8, 8, 'betriebsstaettennummer', 'lanr'),
+      { field: 'geschlecht', label: 'Geschlecht', x: 92, y: 40, width: 20 }
+    ]
+  };
+}
+
+/**
+ * Muster 16 - Arzneiverordnung (A6 landscape): status boxes left, three prescription lines
+ */
+export function getMuster16PrintLayout(): FormPrintLayout {
+  const prescriptionLines = [0, 1, 2].flatMap((line): PrintFieldPosition[] => [
+    { field: `verordnungen[${line}].autIdem`, label: line === 0 ? 'aut idem' : undefined, x: 4, y: 56 + line * 12, width: 8, format: 'checkbox' },
+    {
+      field: [`verordnungen[${line}].arzneimittel`, `verordnungen[${line}].normgroesse`, `verordnungen[${line}].packungsanzahl`],
+      label: line === 0 ? 'Rp. (Bitte Leerräume durchstreichen)' : undefined,
+      x: 14,
+      y: 56 + line * 12,
+      width: 82
+    },
+    { field: `verordnungen[${line}].pzn`, label: line === 0 ? 'PZN' : undefined, x: 98, y: 56 + line * 12, width: 22 },
+    { field: `verordnungen[${line}].dosierung`, x: 14, y: 60 + line * 12, width: 82, fontSize: 8 }
+  ]);
+
+  return {
+    formCode: '16',
+    name: 'Muster 16 - Arzneiverordnung',
+    ...A6_LANDSCAPE,
+    barcode: { x: 98, y: 30, width: 45, height: 14 },
+    fields: [
+      ...getPersonalienfeldPositions(14, 8, 'betriebsstaettennummer', 'lanr'),
+      { field: 'gebuehrFrei', label: 'Gebühr frei', x: 3, y: 12, width: 8, format: 'checkbox' },
+      { field: 'gebuehrPflichtig', label: 'Geb.-pfl.', x: 3, y: 18, width: 8, format: 'checkbox' },
+      { field: 'noctu', label: 'noctu', x: 3, y: 24, width: 8, format: 'checkbox' },
+      { field: 'sonstige', label: 'Sonstige', x: 3, y: 30, width: 8, format: 'checkbox' },
+      { field: 'unfall', label: 'Unfall', x: 3, y: 36, width: 8, format: 'checkbox' },
+      { field: 'arbeitsunfall', label: 'Arbeitsunfall', x: 3, y: 42, width: 8, format: 'checkbox' },
+      { field: 'bvg', label: 'BVG', x: 98, y: 10, width: 8, format: 'checkbox' },
+      { field: 'hilfsmittel', label: 'Hilfsmittel', x: 108, y: 10, width: 8, format: 'checkbox' },
+      { field: 'impfstoff', label: 'Impfstoff', x: 118, y: 10, width: 8, format: 'checkbox' },
+      { field: 'sprechstundenbedarf', label: 'Spr.-St.-Bedarf', x: 128, y: 10, width: 8, format: 'checkbox' },
+      { field: 'begruendungspflicht', label: 'Begr.-Pflicht', x: 98, y: 18, width: 8, format: 'checkbox' },
+      { field: 'unfalltag', label: 'Unfalltag', x: 108, y: 18, width: 18, format: 'date' },
+      { field: 'unfallbetrieb', label: 'Unfallbetrieb oder Arbeitgebernummer', x: 98, y: 25, width: 45, fontSize: 7 },
+      ...prescriptionLines
+    ]
+  };
+}
+
+/**
+ * Heilmittelverordnung (A5 landscape) shared by Muster 17 and 18
+ */
+function getHeilmittelPrintFields(extraFields: PrintFieldPosition[]): PrintFieldPosition[] {
+  return [
+    ...getPersonalienfeldPositions(8, 8, 'betriebsstaettennummer', 'lanr'),
+    { field: 'icd10Code', label: 'ICD-10-Code', x: 9, y: 55, width: 40 },
+    { field: 'diagnosegruppe', label: 'Diagnosegruppe', x: 52, y: 55, width: 30 },
+    { field: 'leitsymptomatik', label: 'Leitsymptomatik', x: 85, y: 55, width: 115, lines: 2 },
+    { field: 'heilmittel', label: 'Heilmittel', x: 9, y: 82, width: 120 },
+    { field: 'anzahlBehandlungen', label: 'Behandlungseinheiten', x: 135, y: 82, width: 25 },
+    { field: 'therapiefrequenz', label: 'Therapiefrequenz', x: 165, y: 82, width: 35 },
+    { field: 'hausbesuch', label: 'Hausbesuch', x: 9, y: 100, width: 8, format: 'checkbox' },
+    { field: 'therapiebericht', label: 'Therapiebericht', x: 40, y: 100, width: 8, format: 'checkbox' },
+    { field: 'dringlicherBehandlungsbedarf', label: 'Dringlicher Behandlungsbedarf', x: 75, y: 100, width: 8, format: 'checkbox' },
+    { field: 'therapieziele', label: 'Therapieziele / weitere med. Befunde', x: 9, y: 112, width: 190, lines: 3 },
+    ...extraFields
+  ];
+}
+
+/**
+ * Muster 17 - Heilmittelverordnung Podologie
+ */
+export function getMuster17PrintLayout(): FormPrintLayout {
+  return {
+    formCode: '17',
+    name: 'Muster 17 - Heilmittelverordnung Podologie',
+    ...A5_LANDSCAPE,
+    barcode: { x: 150, y: 8, width: 52, height: 20 },
+    fields: getHeilmittelPrintFields([
+      { field: 'fussbefund', label: 'Fußbefund', x: 9, y: 68, width: 190, lines: 2 }
+    ])
+  };
+}
+
+/**
+ * Muster 18 - Heilmittelverordnung Ergotherapie
+ */
+export function getMuster18PrintLayout(): FormPrintLayout {
+  return {
+    formCode: '18',
+    name: 'Muster 18 - Heilmittelverordnung Ergotherapie',
+    ...A5_LANDSCAPE,
+    barcode: { x: 150, y: 8, width: 52, height: 20 },
+    fields: getHeilmittelPrintFields([
+      { field: 'ergaenzendesHeilmittel', label: 'Ergänzendes Heilmittel', x: 9, y: 90, width: 120 },
+      { field: 'gruppentherapie', label: 'Gruppentherapie', x: 120, y: 100, width: 8, format: 'checkbox' }
+    ])
+  };
+}
+
+/**
+ * Muster 39 - Krebsfrüherkennung Zervix-Karzinom (A5 portrait)
+ */
+export function getMuster39PrintLayout(): FormPrintLayout {
+  return {
+    formCode: '39',
+    name: 'Muster 39 - Krebsfrüherkennung Zervix-Karzinom',
+    ...A5_PORTRAIT,
+    barcode: { x: 92, y: 8, width: 50, height: 20 },
+    fields: [
+      ...getPersonalienfeldPositions(8, 8, 'betriebsstaettennummer', 'lanr'),
+      { field: 'untersuchungsart', label: 'Untersuchung', x: 9, y: 55, width: 60 },
+      { field: 'wiederholungsuntersuchung', label: 'Wiederholungsuntersuchung', x: 75, y: 55, width: 8, format: 'checkbox' },
+      { field: 'letztePeriode', label: 'Letzte Periode', x: 9, y: 65, width: 25, format: 'date' },
+      { field: 'graviditaet', label: 'Gravidität', x: 50, y: 65, width: 8, format: 'checkbox' },
+      { field: 'intrauterinpessar', label: 'IUP', x: 80, y: 65, width: 8, format: 'checkbox' },
+      { field: 'hormonanwendung', label: 'Hormonanwendung', x: 110, y: 65, width: 8, format: 'checkbox' },
+      { field: 'hpvImpfung', label: 'HPV-Impfung', x: 9, y: 75, width: 8, format: 'checkbox' },
+      { field: 'vorbefund', label: 'Vorbefund', x: 9, y: 85, width: 130, lines: 2 },
+      { field: 'klinischerBefund', label: 'Klinischer Befund', x: 9, y: 100, width: 130, lines: 3 },
+      { field: 'hpvTestErgebnis', label: 'HPV-Test', x: 9, y: 120, width: 60 }
+    ]
+  };
+}
+
+/**
+ * Muster 52 - Bericht bei Fortbestehen der Arbeitsunfähigkeit (A5 portrait)
+ */
+export function getMuster52PrintLayout(): FormPrintLayout {
+  return {
+    formCode: '52',
+    name: 'Muster 52 - Bericht bei Fortbestehen der AU',
+    ...A5_PORTRAIT,
+    barcode: { x: 92, y: 8, width: 50, height: 20 },
+    fields: [
+      ...getPersonalienfeldPositions(8, 8, 'betriebsstaettennummer', 'lanr'),
+      { field: 'arbeitsunfaehigSeit', label: 'Arbeitsunfähig seit', x: 9, y: 55, width: 25, format: 'date' },
+      { field: 'voraussichtlichArbeitsunfaehigBis', label: 'Voraussichtlich bis', x: 60, y: 55, width: 25, format: 'date' },
+      { field: 'icd10Code', label: 'ICD-10-Code', x: 9, y: 65, width: 40 },
+      { field: 'diagnose', label: 'Diagnose', x: 52, y: 65, width: 88, lines: 2 },
+      { field: 'behandlungsmassnahmen', label: 'Behandlungsmaßnahmen', x: 9, y: 80, width: 130, lines: 4 },
+      { field: 'stufenweiseWiedereingliederung', label: 'Stufenweise Wiedereingliederung', x: 9, y: 105, width: 8, format: 'checkbox' },
+      { field: 'rehabilitationEmpfohlen', label: 'Rehabilitation empfohlen', x: 75, y: 105, width: 8, format: 'checkbox' },
+      { field: 'anfragedatum', label: 'Anfrage vom', x: 9, y: 115, width: 25, format: 'date' }
+    ]
+  };
+}
+
+/**
+ * Muster 61 - Verordnung von medizinischer Rehabilitation (A4 portrait)
+ */
+export function getMuster61PrintLayout(): FormPrintLayout {
+  return {
+    formCode: '61',
+    name: 'Muster 61 - Medizinische Rehabilitation',
+    ...A4_PORTRAIT,
+    barcode: { x: 140, y: 8, width: 60, height: 22 },
+    fields: [
+      ...getPersonalienfeldPositions(8, 8, 'betriebsstaettennummer', 'lanr'),
+      { field: 'rehaDiagnose', label: 'Rehabilitationsrelevante Diagnose', x: 9, y: 60, width: 190, lines: 2 },
+      { field: 'icd10Code', label: 'ICD-10-Code', x: 9, y: 72, width: 40 },
+      { field: 'rehaForm', label: 'Rehabilitationsform', x: 60, y: 72, width: 60 },
+      { field: 'rehabilitationsziel', label: 'Rehabilitationsziel', x: 9, y: 85, width: 190, lines: 3 },
+      { field: 'rehaBegruendung', label: 'Begründung', x: 9, y: 105, width: 190, lines: 5 },
+      { field: 'zuweisungsempfehlung', label: 'Zuweisungsempfehlung', x: 9, y: 135, width: 190, lines: 2 },
+      { field: 'begleitpersonErforderlich', label: 'Begleitperson erforderlich', x: 9, y: 150, width: 8, format: 'checkbox' }
+    ]
+  };
+}
+
+/**
+ * Print layouts for every supported form
+ */
+export function getDefaultPrintLayouts(): FormPrintLayout[] {
+  return [
+    getMuster10PrintLayout(),
+    getMuster6PrintLayout(),
+    getMuster12PrintLayout(),
+    getMuster16PrintLayout(),
+    getMuster17PrintLayout(),
+    getMuster18PrintLayout(),
+    getMuster39PrintLayout(),
+    getMuster52PrintLayout(),
+    getMuster61PrintLayout()
+  ];
+}
@@ -0,0 +1,398 @@
+// Purpose: Barcode field layouts for the supported German healthcare forms
+// Each schema describes one layout; version ranges are resolved by FormSchemaRegistry
+
+import { BarcodeFieldDefinition, FormSchema } from '@/types/healthcare';
+
+/**
+ * Muster 10 - Laboratory Request Form
+ */
+export function getMuster10Schema(): FormSchema {
+  return {
+    formCode: '10',
+    name: 'Muster 10 - Laborauftrag',
+    validFromVersion: '01',
+    fields: [
+      { name: 'formularcode', index: 0, required: true },
+      { name: 'formularcodeergaenzung', index: 1, required: true },
+      { name: 'versionsnummer', index: 2, required: true },
+      { name: 'anforderungsIdent', index: 3 },
+      { name: 'nachname', index: 4, maxLength: 45 },
+      { name: 'vorname', index: 5, maxLength: 45 },
+      { name: 'geburtsdatum', index: 6, type: 'date', allowPartialDate: true },
+      { name: 'versicherungsschutzEnde', index: 7, type: 'date' },
+      { name: 'kostentraegerkennung', index: 8, type: 'numeric', maxLength: 9, format: 'ik' },
+      { name: 'kostentraegername', index: 9 },
+      { name: 'wopKennzeichen', index: 10 },
+      { name: 'versichertenId', index: 11, maxLength: 12, format: 'kvnr' },
+      { name: 'versichertenart', index: 12, allowedValues: ['1', '3', '5'] },
+      { name: 'besonderePersonengruppe', index: 13, allowedValues: ['00', '04', '06', '07', '08', '09'] },
+      { name: 'dmpKennzeichnung', index: 14, type: 'numeric', maxLength: 2 },
+      { name: 'bsnrErstveranlasser', index: 15, type: 'numeric', maxLength: 9, format: 'bsnr' },
+      { name: 'lanrErstveranlasser', index: 16, type: 'numeric', maxLength: 9, format: 'lanr' },
+      { name: 'bsnrUeberweiser', index: 17, type: 'numeric', maxLength: 9, format: 'bsnr' },
+      { name: 'lanrUeberweiser', index: 18, type: 'numeric', maxLength: 9, format: 'lanr' },
+      { name: 'ausstellungsdatum', index: 19, type: 'date' },
+      { name: 'geschlecht', index: 20, allowedValues: ['M', 'W', 'X', 'D'] },
+      { name: 'titel', index: 21, maxLength: 20 },
+      { name: 'plz', index: 22, maxLength: 10 },
+      { name: 'ort', index: 23, maxLength: 40 },
+      { name: 'strasse', index: 24, maxLength: 46 },
+      { name: 'hausnummer', index: 25, maxLength: 9 },
+      { name: 'diagnose', index: 26, maxLength: 70 },
+      { name: 'verdachtsdiagnose', index: 27 },
+      { name: 'befundkopie', index: 28 },
+      { name: 'auftrag', index: 29 }
+    ]
+  };
+}
+
+/**
+ * Muster 6 - Referral Form
+ * Based on actual barcode data structure with empty fields
+ */
+export function getMuster6Schema(): FormSchema {
+  return {
+    formCode: '6',
+    name: 'Muster 6 - Überweisung',
+    validFromVersion: '01',
+    validUntilVersion: '10',
+    fields: [
+      { name: 'formularcode', index: 0, required: true },
+      { name: 'formularcodeergaenzung', index: 1 }, // often empty
+      { name: 'versionsnummer', index: 2, required: true },
+      { name: 'reserved1', index: 3 }, // often empty
+      { name: 'nachname', index: 4, maxLength: 45 },
+      { name: 'vorname', index: 5, maxLength: 45 },
+      { name: 'geburtsdatum', index: 6, type: 'date', allowPartialDate: true },
+      { name: 'reserved2', index: 7 }, // often empty
+      { name: 'kostentraegerkennung', index: 8, type: 'numeric', maxLength: 9, format: 'ik' },
+      { name: 'kostentraegername', index: 9 },
+      { name: 'wopKennzeichen', index: 10 },
+      { name: 'versichertenId', index: 11, maxLength: 12, format: 'kvnr' },
+      { name: 'versichertenart', index: 12, allowedValues: ['1', '3', '5'] },
+      { name: 'besonderePersonengruppe', index: 13, allowedValues: ['00', '04', '06', '07', '08', '09'] },
+      { name: 'dmpKennzeichnung', index: 14, type: 'numeric', maxLength: 2 },
+      { name: 'bsnrErstveranlasser', index: 15, type: 'numeric', maxLength: 9, format: 'bsnr' },
+      { name: 'lanrErstveranlasser', index: 16, type: 'numeric', maxLength: 9, format: 'lanr' },
+      { name: 'ausstellungsdatum', index: 17, type: 'date' },
+      { name: 'geschlecht', index: 18, allowedValues: ['M', 'W', 'X', 'D'] },
+      { name: 'titel', index: 19, maxLength: 20 },
+      { name: 'reserved3', index: 20 }, // often empty
+      { name: 'reserved4', index: 21 }, // often empty
+      { name: 'plz', index: 22, maxLength: 10 },
+      { name: 'ort', index: 23, maxLength: 40 },
+      { name: 'strasse', index: 24, maxLength: 46 },
+      { name: 'hausnummer', index: 25, maxLength: 9 },
+      { name: 'reserved5', index: 26 }, // often empty
+      // Additional fields may follow based on specific form requirements
+      { name: 'fachbereich', index: 27 }, // Medical department
+      { name: 'reserved6', index: 28 },
+      { name: 'reserved7', index: 29 },
+      { name: 'reserved8', index: 30 },
+      { name: 'reserved9', index: 31 },
+      { name: 'reserved10', index: 32 },
+      { name: 'reserved11', index: 33 },
+      { name: 'reserved12', index: 34 },
+      { name: 'fachrichtung', index: 35 }, // Medical specialty
+      { name: 'reserved13', index: 36 },
+      { name: 'reserved14', index: 37 },
+      { name: 'reserved15', index: 38 },
+      { name: 'diagnose', index: 39 }, // Diagnosis
+      { name: 'ueberweisungsgrund', index: 40 } // Referral reason
+    ]
+  };
+}
+
+/**
+ * Muster 6 - Referral Form, layout without a form supplement column
+ * Version 11 prints put the version directly after the form code (e.g., "06", "11", "Leuthäuser", ...)
+ */
+export function getMuster6SchemaV11(): FormSchema {
+  return {
+    formCode: '6',
+    name: 'Muster 6 - Überweisung',
+    validFromVersion: '11',
+    fields: [
+      { name: 'formularcode', index: 0, required: true },
+      { name: 'versionsnummer', index: 1, required: true },
+      { name: 'nachname', index: 2, maxLength: 45 },
+      { name: 'vorname', index: 3, maxLength: 45 },
+      { name: 'geburtsdatum', index: 4, type: 'date', allowPartialDate: true },
+      { name: 'versicherungsschutzEnde', index: 5, type: 'date' },
+      { name: 'kostentraegerkennung', index: 6, type: 'numeric', maxLength: 9, format: 'ik' },
+      { name: 'kostentraegername', index: 7 },
+      { name: 'wopKennzeichen', index: 8, type: 'numeric', maxLength: 2 },
+      { name: 'versichertenId', index: 9, maxLength: 12, format: 'kvnr' },
+      { name: 'versichertenart', index: 10, allowedValues: ['1', '3', '5'] },
+      { name: 'besonderePersonengruppe', index: 11, allowedValues: ['00', '04', '06', '07', '08', '09'] },
+      { name: 'dmpKennzeichnung', index: 12, type: 'numeric', maxLength: 2 },
+      { name: 'bsnrErstveranlasser', index: 13, type: 'numeric', maxLength: 9, format: 'bsnr' },
+      { name: 'lanrErstveranlasser', index: 14, type: 'numeric', maxLength: 9, format: 'lanr' },
+      { name: 'ausstellungsdatum', index: 15, type: 'date' },
+      { name: 'geschlecht', index: 16, allowedValues: ['M', 'W', 'X', 'D'] },
+      { name: 'titel', index: 17, maxLength: 20 },
+      { name: 'reserved1', index: 18 }, // often empty
+      { name: 'plz', index: 19, maxLength: 10 },
+      { name: 'ort', index: 20, maxLength: 40 },
+      { name: 'strasse', index: 21, maxLength: 46 },
+      { name: 'hausnummer', index: 22, maxLength: 9 },
+      { name: 'laenderkennzeichen', index: 23, maxLength: 3 }, // Country code (e.g., "D")
+      { name: 'reserved2', index: 24 },
+      { name: 'reserved3', index: 25 },
+      { name: 'reserved4', index: 26 },
+      { name: 'reserved5', index: 27 },
+      { name: 'reserved6', index: 28 },
+      { name: 'reserved7', index: 29 },
+      { name: 'fachrichtung', index: 30 }, // Medical specialty the patient is referred to
+      { name: 'reserved8', index: 31 },
+      { name: 'auftragsart', index: 32, maxLength: 1 }, // Order type checkbox as printed
+      { name: 'reserved9', index: 33 },
+      { name: 'diagnose', index: 34 }, // Diagnosis
+      { name: 'reserved10', index: 35 },
+      { name: 'ueberweisungsgrund', index: 36 } // Referral reason
+    ]
+  };
+}
+
+/**
+ * Muster 12 - Nursing Care Request
+ */
+export function getMuster12Schema(): FormSchema {
+  return {
+    formCode: '12',
+    name: 'Muster 12 - Verordnung häuslicher Krankenpflege',
+    validFromVersion: '01',
+    fields: [
+      { name: 'formularcode', index: 0, required: true },
+      { name: 'formularcodeergaenzung', index: 1, required: true },
+      { name: 'versionsnummer', index: 2, required: true },
+      { name: 'nachname', index: 3, maxLength: 45 },
+      { name: 'vorname', index: 4, maxLength: 45 },
+      { name: 'geburtsdatum', index: 5, type: 'date', allowPartialDate: true },
+      { name: 'versicherungsschutzEnde', index: 6, type: 'date' },
+      { name: 'kostentraegerkennung', index: 7, type: 'numeric', maxLength: 9, format: 'ik' },
+      { name: 'kostentraegername', index: 8 },
+      { name: 'versichertenId', index: 9, maxLength: 12, format: 'kvnr' },
+      { name: 'versichertenart', index: 10, allowedValues: ['1', '3', '5'] },
+      { name: 'besonderePersonengruppe', index: 11, allowedValues: ['00', '04', '06', '07', '08', '09'] },
+      { name: 'ausstellungsdatum', index: 12, type: 'date' },
+      { name: 'geschlecht', index: 13, allowedValues: ['M', 'W', 'X', 'D'] },
+      { name: 'strasse', index: 14, maxLength: 46 },
+      { name: 'hausnummer', index: 15, maxLength: 9 },
+      { name: 'plz', index: 16, maxLength: 10 },
+      { name: 'ort', index: 17, maxLength: 40 }
+    ]
+  };
+}
+
+/**
+ * Identification, patient, insurance and provider block shared by the
+ * Blankoformular layouts below (indices 0-22); form-specific fields start at 23
+ */
+function getStandardBlockFields(): BarcodeFieldDefinition[] {
+  return [
+    { name: 'formularcode', index: 0, required: true },
+    { name: 'formularcodeergaenzung', index: 1 },
+    { name: 'versionsnummer', index: 2, required: true },
+    { name: 'nachname', index: 3, maxLength: 45 },
+    { name: 'vorname', index: 4, maxLength: 45 },
+    { name: 'geburtsdatum', index: 5, type: 'date', allowPartialDate: true },
+    { name: 'versicherungsschutzEnde', index: 6, type: 'date' },
+    { name: 'kostentraegerkennung', index: 7, type: 'numeric', maxLength: 9, format: 'ik' },
+    { name: 'kostentraegername', index: 8 },
+    { name: 'wopKennzeichen', index: 9 },
+    { name: 'versichertenId', index: 10, maxLength: 12, format: 'kvnr' },
+    { name: 'versichertenart', index: 11, allowedValues: ['1', '3', '5'] },
+    { name: 'besonderePersonengruppe', index: 12, allowedValues: ['00', '04', '06', '07', '08', '09'] },
+    { name: 'dmpKennzeichnung', index: 13, type: 'numeric', maxLength: 2 },
+    { name: 'betriebsstaettennummer', index: 14, type: 'numeric', maxLength: 9, format: 'bsnr' },
+    { name: 'lanr', index: 15, type: 'numeric', maxLength: 9, format: 'lanr' },
+    { name: 'ausstellungsdatum', index: 16, type: 'date' },
+    { name: 'geschlecht', index: 17, allowedValues: ['M', 'W', 'X', 'D'] },
+    { name: 'titel', index: 18, maxLength: 20 },
+    { name: 'plz', index: 19, maxLength: 10 },
+    { name: 'ort', index: 20, maxLength: 40 },
+    { name: 'strasse', index: 21, maxLength: 46 },
+    { name: 'hausnummer', index: 22, maxLength: 9 }
+  ];
+}
+
+/**
+ * Muster 17 - Podiatry Prescription
+ */
+export function getMuster17Schema(): FormSchema {
+  return {
+    formCode: '17',
+    name: 'Muster 17 - Heilmittelverordnung Podologie',
+    validFromVersion: '01',
+    fields: [
+      ...getStandardBlockFields(),
+      { name: 'icd10Code', index: 23, maxLength: 12 },
+      { name: 'diagnosegruppe', index: 24, allowedValues: ['DF', 'NF', 'QF'] },
+      { name: 'leitsymptomatik', index: 25, maxLength: 70 },
+      { name: 'fussbefund', index: 26, maxLength: 70 },
+      { name: 'heilmittel', index: 27, maxLength: 60 },
+      { name: 'anzahlBehandlungen', index: 28, type: 'numeric', maxLength: 2 },
+      { name: 'therapiefrequenz', index: 29, maxLength: 20 },
+      { name: 'hausbesuch', index: 30, allowedValues: ['0', '1'] },
+      { name: 'therapiebericht', index: 31, allowedValues: ['0', '1'] },
+      { name: 'dringlicherBehandlungsbedarf', index: 32, allowedValues: ['0', '1'] },
+      { name: 'therapieziele', index: 33, maxLength: 140 }
+    ]
+  };
+}
+
+/**
+ * Muster 18 - Occupational Therapy Prescription
+ */
+export function getMuster18Schema(): FormSchema {
+  return {
+    formCode: '18',
+    name: 'Muster 18 - Heilmittelverordnung Ergotherapie',
+    validFromVersion: '01',
+    fields: [
+      ...getStandardBlockFields(),
+      { name: 'icd10Code', index: 23, maxLength: 12 },
+      { name: 'diagnosegruppe', index: 24, allowedValues: ['SB1', 'SB2', 'SB3', 'SB4', 'EN1', 'EN2', 'EN3', 'PS1', 'PS2', 'PS3', 'PS4', 'PS5'] },
+      { name: 'leitsymptomatik', index: 25, maxLength: 70 },
+      { name: 'heilmittel', index: 26, maxLength: 60 },
+      { name: 'ergaenzendesHeilmittel', index: 27, maxLength: 60 },
+      { name: 'anzahlBehandlungen', index: 28, type: 'numeric', maxLength: 2 },
+      { name: 'therapiefrequenz', index: 29, maxLength: 20 },
+      { name: 'gruppentherapie', index: 30, allowedValues: ['0', '1'] },
+      { name: 'hausbesuch', index: 31, allowedValues: ['0', '1'] },
+      { name: 'therapiebericht', index: 32, allowedValues: ['0', '1'] },
+      { name: 'dringlicherBehandlungsbedarf', index: 33, allowedValues: ['0', '1'] },
+      { name: 'therapieziele', index: 34, maxLength: 140 }
+    ]
+  };
+}
+
+/**
+ * Muster 39 - Cervical Cancer Screening
+ */
+export function getMuster39Schema(): FormSchema {
+  return {
+    formCode: '39',
+    name: 'Muster 39 - Krebsfrüherkennung Zervix-Karzinom',
+    validFromVersion: '01',
+    fields: [
+      ...getStandardBlockFields(),
+      { name: 'untersuchungsart', index: 23, allowedValues: ['1', '2'] },
+      { name: 'wiederholungsuntersuchung', index: 24, allowedValues: ['0', '1'] },
+      { name: 'letztePeriode', index: 25, type: 'date' },
+      { name: 'graviditaet', index: 26, allowedValues: ['0', '1'] },
+      { name: 'intrauterinpessar', index: 27, allowedValues: ['0', '1'] },
+      { name: 'hormonanwendung', index: 28, allowedValues: ['0', '1'] },
+      { name: 'hpvImpfung', index: 29, allowedValues: ['0', '1', '2'] },
+      { name: 'vorbefund', index: 30, maxLength: 10 },
+      { name: 'klinischerBefund', index: 31, maxLength: 140 },
+      { name: 'hpvTestErgebnis', index: 32, maxLength: 20 }
+    ]
+  };
+}
+
+/**
+ * Muster 52 - Report on Continued Incapacity for Work
+ */
+export function getMuster52Schema(): FormSchema {
+  return {
+    formCode: '52',
+    name: 'Muster 52 - Bericht bei Fortbestehen der Arbeitsunfähigkeit',
+    validFromVersion: '01',
+    fields: [
+      ...getStandardBlockFields(),
+      { name: 'arbeitsunfaehigSeit', index: 23, type: 'date' },
+      { name: 'voraussichtlichArbeitsunfaehigBis', index: 24, type: 'date' },
+      { name: 'diagnose', index: 25, maxLength: 140 },
+      { name: 'icd10Code', index: 26, maxLength: 12 },
+      { name: 'behandlungsmassnahmen', index: 27, maxLength: 280 },
+      { name: 'stufenweiseWiedereingliederung', index: 28, allowedValues: ['0', '1'] },
+      { name: 'rehabilitationEmpfohlen', index: 29, allowedValues: ['0', '1'] },
+      { name: 'anfragedatum', index: 30, type: 'date' }
+    ]
+  };
+}
+
+/**
+ * Muster 16 - Statutory Prescription (Kassenrezept)
+ * Carries up to three prescription lines of six fields each, starting at index 36
+ */
+export function getMuster16Schema(): FormSchema {
+  const flag = ['0', '1'];
+  return {
+    formCode: '16',
+    name: 'Muster 16 - Arzneiverordnung',
+    validFromVersion: '01',
+    fields: [
+      ...getStandardBlockFields(),
+      { name: 'gebuehrFrei', index: 23, allowedValues: flag },
+      { name: 'gebuehrPflichtig', index: 24, allowedValues: flag },
+      { name: 'noctu', index: 25, allowedValues: flag },
+      { name: 'sonstige', index: 26, allowedValues: flag },
+      { name: 'unfall', index: 27, allowedValues: flag },
+      { name: 'arbeitsunfall', index: 28, allowedValues: flag },
+      { name: 'unfalltag', index: 29, type: 'date' },
+      { name: 'unfallbetrieb', index: 30, maxLength: 40 },
+      { name: 'bvg', index: 31, allowedValues: flag },
+      { name: 'hilfsmittel', index: 32, allowedValues: flag },
+      { name: 'impfstoff', index: 33, allowedValues: flag },
+      { name: 'sprechstundenbedarf', index: 34, allowedValues: flag },
+      { name: 'begruendungspflicht', index: 35, allowedValues: flag }
+    ],
+    groups: [
+      {
+        name: 'verordnungen',
+        startIndex: 36,
+        count: 3,
+        fields: [
+          { name: 'pzn', index: 0, type: 'numeric', maxLength: 8, format: 'pzn' },
+          { name: 'arzneimittel', index: 1, maxLength: 60 },
+          { name: 'packungsanzahl', index: 2, type: 'numeric', maxLength: 2 },
+          { name: 'normgroesse', index: 3, allowedValues: ['N1', 'N2', 'N3'] },
+          { name: 'dosierung', index: 4, maxLength: 20 },
+          { name: 'autIdem', index: 5, allowedValues: flag }
+        ]
+      }
+    ]
+  };
+}
+
+/**
+ * Muster 61 - Medical Rehabilitation
+ */
+export function getMuster61Schema(): FormSchema {
+  return {
+    formCode: '61',
+    name: 'Muster 61 - Verordnung medizinischer Rehabilitation',
+    validFromVersion: '01',
+    fields: [
+      ...getStandardBlockFields(),
+      { name: 'rehaDiagnose', index: 23, maxLength: 280 },
+      { name: 'icd10Code', index: 24, maxLength: 12 },
+      { name: 'rehabilitationsziel', index: 25, maxLength: 280 },
+      { name: 'rehaForm', index: 26, allowedValues: ['1', '2', '3'] },
+      { name: 'rehaBegruendung', index: 27, maxLength: 280 },
+      { name: 'zuweisungsempfehlung', index: 28, maxLength: 70 },
+      { name: 'begleitpersonErforderlich', index: 29, allowedValues: ['0', '1'] }
+    ]
+  };
+}
+
+/**
+ * All built-in schemas, registered by the parser's default registry
+ */
+export function getDefaultFormSchemas(): FormSchema[] {
+  return [
+    getMuster10Schema(),
+    getMuster6Schema(),
+    getMuster6SchemaV11(),
+    getMuster12Schema(),
+    getMuster16Schema(),
+    getMuster17Schema(),
+    getMuster18Schema(),
+    getMuster39Schema(),
+    getMuster52Schema(),
+    getMuster61Schema()
+  ];
+}
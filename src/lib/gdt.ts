@@ -0,0 +1,220 @@
+// Purpose: GDT 3.0 (Gerätedatentransfer) exchange with practice management systems (PVS)
+// Writes patient records (6301/6310) from scanned forms and compares incoming PVS patient records with the scan
+
+import { XdtField, XdtRecord, decodeIso885915, encodeIso885915, parseXdtRecords, serializeXdtRecords } from './xdt';
+import { formatDate, parseGermanDate, toGermanDate } from './utils';
+import { FormSchemaRegistry } from './schema-registry';
+
+export type GdtRecordType =
+  | '6301' // Stammdaten übermitteln
+  | '6310'; // Daten einer Untersuchung übermitteln
+
+export interface GdtWriterOptions {
+  receiverId?: string; // GDT-ID of the PVS (field 8315)
+  senderId?: string; // GDT-ID of this application (field 8316)
+  patientNumber?: string; // Patientennummer in the PVS (field 3000), taken from a PVS patient record
+  now?: () => Date; // Source of the storage date and time
+}
+
+export interface GdtPatient {
+  patientNumber?: string; // Patientennummer in the PVS (3000)
+  nachname?: string;
+  vorname?: string;
+  geburtsdatum?: string; // ISO 8601, partial dates keep their precision
+  versichertenId?: string;
+  geschlecht?: string;
+}
+
+export interface GdtPatientConflict {
+  field: 'nachname' | 'vorname' | 'geburtsdatum' | 'versichertenId';
+  gdtValue: string; // Value in the PVS record
+  scannedValue: string; // Value on the scanned form
+}
+
+const GDT_VERSION = '03.00';
+const CHARSET_ISO_8859 = '3'; // Field 9206: ISO 8859
+const DEVICE_FIELD = 'ALLG00'; // Field 8402: general examination data
+
+// Field identifiers (Feldkennungen)
+const FK = {
+  receiverId: '8315',
+  senderId: '8316',
+  charset: '9206',
+  version: '9218',
+  patientNumber: '3000',
+  nachname: '3101',
+  vorname: '3102',
+  geburtsdatum: '3103',
+  titel: '3104',
+  versichertennummer: '3105',
+  wohnort: '3106',
+  strasse: '3107',
+  geschlecht: '3110',
+  versichertenId: '3119',
+  deviceField: '8402',
+  storageDate: '6200',
+  storageTime: '6201',
+  findings: '6220',
+  comment: '6227'
+};
+
+// Clinical content summarized in the findings lines of a 6310 record
+const FINDINGS_FIELDS: [string, string][] = [
+  ['fachrichtung', 'Überweisung an'],
+  ['diagnose', 'Diagnose'],
+  ['verdachtsdiagnose', 'Verdachtsdiagnose'],
+  ['icd10Code', 'ICD-10'],
+  ['ueberweisungsgrund', 'Auftrag'],
+  ['auftrag', 'Auftrag'],
+  ['heilmittel', 'Heilmittel'],
+  ['rehaDiagnose', 'Reha-Diagnose']
+];
+
+export class GdtWriter {
+  private receiverId: string;
+  private senderId: string;
+  private patientNumber: string;
+  private now: () => Date;
+
+  constructor(options: GdtWriterOptions = {}) {
+    this.receiverId = options.receiverId || 'PVS';
+    this.senderId = options.senderId || 'PDF417FS';
+    this.patientNumber = options.patientNumber?.trim() || '';
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Patient record for the PVS; 6310 adds storage date and a summary of the form as findings
+   * 6310 requires the Patientennummer so the PVS can assign the examination data to its patient
+   */
+  createRecord(data: Record<string, unknown>, recordType: GdtRecordType = '6310'): XdtRecord {
+    if (recordType === '6310' && !this.patientNumber) {
+      throw new Error('GDT record 6310 requires the Patientennummer (3000) of the PVS patient');
+    }
+    if (!this.patientNumber) {
+      console.log(`[GdtWriter] Record ${recordType} without Patientennummer`);
+    }
+
+    const text = (field: string) => getText(data, field);
+    const field = (id: string, value: string): XdtField => ({ id, value });
+    const fields: XdtField[] = [
+      field(FK.receiverId, this.receiverId),
+      field(FK.senderId, this.senderId),
+      field(FK.charset, CHARSET_ISO_8859),
+      field(FK.version, GDT_VERSION),
+      field(FK.patientNumber, this.patientNumber),
+      field(FK.nachname, text('nachname')),
+      field(FK.vorname, text('vorname')),
+      field(FK.titel, text('titel')),
+      field(FK.geburtsdatum, toGdtDate(text('geburtsdatum'))),
+      field(FK.geschlecht, text('geschlecht')),
+      field(FK.strasse, [text('strasse'), text('hausnummer')].filter(Boolean).join(' ')),
+      field(FK.wohnort, [text('plz'), text('ort')].filter(Boolean).join(' ')),
+      field(FK.versichertenId, text('versichertenId'))
+    ];
+
+    if (recordType === '6310') {
+      const now = this.now();
+      const pad = (value: number) => String(value).padStart(2, '0');
+      const formCode = FormSchemaRegistry.normalizeFormCode(text('formularcode'));
+      const issued = text('ausstellungsdatum');
+      fields.push(
+        field(FK.deviceField, DEVICE_FIELD),
+        field(FK.storageDate, `${pad(now.getDate())}${pad(now.getMonth() + 1)}${now.getFullYear()}`),
+        field(FK.storageTime, `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`),
+        field(FK.findings, issued ? `Muster ${formCode} vom ${formatDate(issued)}` : `Muster ${formCode}`),
+        ...FINDINGS_FIELDS
+          .filter(([name]) => text(name))
+          .map(([name, label]) => field(FK.findings, `${label}: ${text(name)}`)),
+        field(FK.comment, 'Übernommen aus PDF417-Barcode')
+      );
+    }
+
+    return { type: recordType, fields };
+  }
+
+  /**
+   * GDT file content with record length (8100)
+   */
+  toText(data: Record<string, unknown>, recordType: GdtRecordType = '6310'): string {
+    const gdt = serializeXdtRecords([this.createRecord(data, recordType)], { recordLength: true });
+    console.log(`[GdtWriter] Wrote GDT record ${recordType}`);
+    return gdt;
+  }
+
+  /**
+   * GDT file content encoded as ISO-8859-15
+   */
+  toBytes(data: Record<string, unknown>, recordType: GdtRecordType = '6310'): Uint8Array {
+    return encodeIso885915(this.toText(data, recordType));
+  }
+}
+
+/**
+ * Read the patient from the first GDT record that carries patient data
+ */
+export function parseGdtPatient(input: string | Uint8Array): GdtPatient | null {
+  const text = typeof input === 'string' ? input : decodeIso885915(input);
+  const record = parseXdtRecords(text).find(candidate =>
+    candidate.fields.some(field => field.id === FK.nachname || field.id === FK.patientNumber)
+  );
+  if (!record) {
+    console.log('[GDT] No patient record found');
+    return null;
+  }
+
+  const value = (id: string) => record.fields.find(field => field.id === id)?.value.trim() || undefined;
+  const birthDate = value(FK.geburtsdatum);
+  return {
+    patientNumber: value(FK.patientNumber),
+    nachname: value(FK.nachname),
+    vorname: value(FK.vorname),
+    geburtsdatum: birthDate ? fromGdtDate(birthDate) : undefined,
+    versichertenId: value(FK.versichertenId) || value(FK.versichertennummer),
+    geschlecht: value(FK.geschlecht)
+  };
+}
+
+/**
+ * Fields where the PVS patient and the scanned form disagree; fields missing on either side are not compared
+ */
+export function compareGdtPatient(patient: GdtPatient, data: Record<string, unknown>): GdtPatientConflict[] {
+  const conflicts: GdtPatientConflict[] = [];
+  const compare = (field: GdtPatientConflict['field'], equals: (a: string, b: string) => boolean) => {
+    const gdtValue = patient[field];
+    const scannedValue = getText(data, field);
+    if (gdtValue && scannedValue && !equals(gdtValue, scannedValue)) {
+      conflicts.push({ field, gdtValue, scannedValue });
+    }
+  };
+  const sameName = (a: string, b: string) => a.trim().localeCompare(b.trim(), 'de', { sensitivity: 'accent' }) === 0;
+
+  compare('nachname', sameName);
+  compare('vorname', sameName);
+  compare('geburtsdatum', (a, b) => a === b);
+  compare('versichertenId', (a, b) => a.toUpperCase() === b.toUpperCase());
+
+  if (conflicts.length > 0) {
+    console.log('[GDT] Patient conflicts:', conflicts);
+  }
+  return conflicts;
+}
+
+function getText(data: Record<string, unknown>, field: string): string {
+  const value = data[field];
+  return value === undefined || value === null || typeof value === 'object' ? '' : String(value).trim();
+}
+
+/**
+ * ISO date to the GDT notation TTMMJJJJ (unknown parts as 00)
+ */
+function toGdtDate(isoDate: string): string {
+  const germanDate = toGermanDate(isoDate);
+  return germanDate ? `${germanDate.slice(6, 8)}${germanDate.slice(4, 6)}${germanDate.slice(0, 4)}` : isoDate;
+}
+
+function fromGdtDate(gdtDate: string): string {
+  if (!/^\d{8}$/.test(gdtDate)) return gdtDate;
+  const yyyymmdd = `${gdtDate.slice(4, 8)}${gdtDate.slice(2, 4)}${gdtDate.slice(0, 2)}`;
+  return parseGermanDate(yyyymmdd) ?? gdtDate;
+}
@@ -0,0 +1,228 @@
+// Purpose: HL7 v2.5 ORM^O01 order messages for Muster 10 lab orders and Muster 6 referrals
+// Builds MSH, PID, IN1, ORC and OBR segments and reads the MSA segment of acknowledgements
+
+import { toGermanDate } from './utils';
+import { FormSchemaRegistry } from './schema-registry';
+
+export interface Hl7Endpoints {
+  sendingApplication?: string; // MSH-3
+  sendingFacility?: string; // MSH-4
+  receivingApplication?: string; // MSH-5
+  receivingFacility?: string; // MSH-6
+}
+
+export interface Hl7OrmOptions extends Hl7Endpoints {
+  processingId?: 'P' | 'T' | 'D'; // MSH-11: production, training, debugging
+  now?: () => Date;
+  controlIdGenerator?: () => string; // MSH-10 message control id
+}
+
+export interface Hl7Ack {
+  code: string; // MSA-1: AA/CA accepted, AE/CE error, AR/CR rejected
+  accepted: boolean;
+  controlId: string; // MSA-2: control id of the acknowledged message
+  text?: string; // MSA-3 or ERR details
+}
+
+const HL7_VERSION = '2.5';
+const SEGMENT_SEPARATOR = '\r';
+const KVNR_AUTHORITY = 'GKV&1.2.276.0.76.4.8&ISO';
+const IK_AUTHORITY = 'ARGE-IK&1.2.276.0.76.4.5&ISO';
+
+const SEX_CODES: Record<string, string> = { M: 'M', W: 'F', D: 'O', X: 'U' };
+
+// Universal service id (OBR-4) by form
+const ORDER_TYPES: Record<string, { service: string; description: string }> = {
+  '10': { service: 'LAB', description: 'Laborauftrag' },
+  '6': { service: 'REF', description: 'Überweisung' }
+};
+
+export class Hl7OrmExporter {
+  private endpoints: Required<Hl7Endpoints>;
+  private processingId: string;
+  private now: () => Date;
+  private controlIdGenerator: () => string;
+
+  constructor(options: Hl7OrmOptions = {}) {
+    this.endpoints = {
+      sendingApplication: options.sendingApplication || 'PDF417FS',
+      sendingFacility: options.sendingFacility || '',
+      receivingApplication: options.receivingApplication || '',
+      receivingFacility: options.receivingFacility || ''
+    };
+    this.processingId = options.processingId || 'P';
+    this.now = options.now || (() => new Date());
+    this.controlIdGenerator = options.controlIdGenerator || (() => `${Date.now()}${Math.floor(Math.random() * 1000)}`);
+  }
+
+  /**
+   * Build an ORM^O01 message; segments are separated by CR as required by HL7 v2
+   */
+  createMessage(data: Record<string, unknown>): string {
+    const formCode = FormSchemaRegistry.normalizeFormCode(String(data.formularcode || ''));
+    const orderType = ORDER_TYPES[formCode];
+    if (!orderType) {
+      throw new Error(`HL7 ORM export is only available for Muster 10 and Muster 6 (got Muster ${formCode})`);
+    }
+
+    const text = (field: string) => this.escape(getText(data, field));
+    const date = (field: string) => toGermanDate(getText(data, field)) ?? '';
+    const controlId = this.controlIdGenerator();
+    const placerOrderNumber = text('anforderungsIdent') || controlId;
+    const lanr = text('lanrErstveranlasser') || text('lanr');
+    const bsnr = text('bsnrErstveranlasser') || text('betriebsstaettennummer');
+    const orderingProvider = lanr ? `${lanr}${'^'.repeat(12)}LANR` : '';
+    const orderingFacility = bsnr ? `${'^'.repeat(6)}BSNR^^^${bsnr}` : '';
+    const issued = date('ausstellungsdatum');
+    const versichertenId = text('versichertenId');
+    const country = getText(data, 'laenderkennzeichen');
+
+    const serviceText = formCode === '10'
+      ? text('auftrag') || orderType.description
+      : [orderType.description, text('fachrichtung') || text('fachbereich')].filter(Boolean).join(' ');
+    const clinicalInfo = formCode === '10'
+      ? text('verdachtsdiagnose') && `V.a. ${text('verdachtsdiagnose')}`
+      : text('ueberweisungsgrund');
+
+    const segments = [
+      // MSH-1 is the field separator itself, so the list starts with MSH-2
+      this.segment('MSH', [
+        '^~\\&',
+        this.escape(this.endpoints.sendingApplication),
+        this.escape(this.endpoints.sendingFacility),
+        this.escape(this.endpoints.receivingApplication),
+        this.escape(this.endpoints.receivingFacility),
+        this.formatTimestamp(this.now()),
+        '',
+        'ORM^O01^ORM_O01',
+        controlId,
+        this.processingId,
+        HL7_VERSION,
+        '', '', 'AL', 'NE', '',
+        'UNICODE UTF-8'
+      ]),
+      this.segment('PID', [
+        '1',
+        '',
+        versichertenId ? `${versichertenId}^^^${KVNR_AUTHORITY}^KVZ10` : '',
+        '',
+        this.components([text('nachname'), text('vorname'), '', '', text('titel')]),
+        '',
+        date('geburtsdatum').replace(/(0000|00)$/, ''), // HL7 dates may be reduced to YYYY or YYYYMM
+        SEX_CODES[getText(data, 'geschlecht')] || '',
+        '', '',
+        this.components([
+          [text('strasse'), text('hausnummer')].filter(Boolean).join(' '),
+          '',
+          text('ort'),
+          '',
+          text('plz'),
+          !country || country === 'D' ? 'DEU' : this.escape(country)
+        ])
+      ]),
+      this.segment('IN1', [
+        '1',
+        getText(data, 'kostentraegerTyp') === 'BG' ? 'BG' : 'GKV',
+        text('kostentraegerkennung') ? `${text('kostentraegerkennung')}^^^${IK_AUTHORITY}^NIIP` : '',
+        text('kostentraegernameVerzeichnis') || text('kostentraegername'),
+        '', '', '', '', '', '', '', '',
+        date('versicherungsschutzEnde'),
+        '',
+        text('versichertenart'),
+        ...Array(20).fill(''),
+        versichertenId
+      ]),
+      this.segment('ORC', [
+        'NW',
+        placerOrderNumber,
+        '', '', '', '', '', '',
+        issued,
+        '', '',
+        orderingProvider,
+        ...Array(8).fill(''),
+        orderingFacility
+      ]),
+      this.segment('OBR', [
+        '1',
+        placerOrderNumber,
+        '',
+        `${orderType.service}^${serviceText}^L`,
+        '', '',
+        issued,
+        '', '', '', '', '',
+        clinicalInfo,
+        '', '',
+        orderingProvider,
+        ...Array(14).fill(''),
+        text('diagnose') ? `^${text('diagnose')}` : ''
+      ])
+    ];
+
+    console.log(`[HL7] ORM^O01 for Muster ${formCode}, control id ${controlId}`);
+    return segments.join(SEGMENT_SEPARATOR) + SEGMENT_SEPARATOR;
+  }
+
+  /**
+   * Escape HL7 delimiters in a value (field, component, repetition, escape, subcomponent)
+   */
+  private escape(value: string): string {
+    return value
+      .replace(/\\/g, '\\E\\')
+      .replace(/\|/g, '\\F\\')
+      .replace(/\^/g, '\\S\\')
+      .replace(/~/g, '\\R\\')
+      .replace(/&/g, '\\T\\')
+      .replace(/[\r\n]+/g, ' ');
+  }
+
+  /**
+   * Join the fields of a segment without trailing empty fields
+   */
+  private segment(name: string, fields: string[]): string {
+    const values = [...fields];
+    while (values.length > 0 && !values[values.length - 1]) values.pop();
+    return [name, ...values].join('|');
+  }
+
+  private components(values: string[]): string {
+    return values.join('^').replace(/\^+$/, '');
+  }
+
+  private formatTimestamp(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  }
+}
+
+/**
+ * Read the acknowledgement code from an ACK message (MSA segment)
+ */
+export function parseHl7Ack(message: string): Hl7Ack {
+  const segments = message.split(/\r\n|\r|\n/).filter(Boolean);
+  const msa = segments.find(segment => segment.startsWith('MSA|'))?.split('|');
+  if (!msa) {
+    throw new Error('Acknowledgement contains no MSA segment');
+  }
+
+  const errorText = segments.find(segment => segment.startsWith('ERR|'))?.split('|').slice(1).filter(Boolean).join(' ');
+  const code = msa[1] || '';
+  return {
+    code,
+    accepted: code === 'AA' || code === 'CA',
+    controlId: msa[2] || '',
+    text: msa[3] || errorText || undefined
+  };
+}
+
+/**
+ * Read the message control id (MSH-10) of a message; MSH-1 is the field separator itself, so MSH-n is field n - 1
+ */
+export function readHl7ControlId(message: string): string {
+  const msh = message.split(/\r\n|\r|\n/).find(segment => segment.startsWith('MSH|'))?.split('|');
+  return msh?.[9] || '';
+}
+
+function getText(data: Record<string, unknown>, field: string): string {
+  const value = data[field];
+  return value === undefined || value === null || typeof value === 'object' ? '' : String(value).trim();
+}
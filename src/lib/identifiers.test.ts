@@ -0,0 +1,121 @@
+// Purpose: Tests for the check digit algorithms of KVNR, LANR, IK and PZN and the BSNR region check
+// Each identifier is tested with known-valid values and the same value with one digit changed
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateBsnr, validateIdentifier, validateIk, validateKvnr, validateLanr, validatePzn } from './identifiers';
+
+describe('validateKvnr', () => {
+  it('accepts valid insurance numbers in either case', () => {
+    ['A123456780', 'X110411675', 'T555558879', 'Y207887976', 'a123456780'].forEach(kvnr =>
+      assert.deepEqual(validateKvnr(kvnr), { valid: true }, kvnr)
+    );
+  });
+
+  it('rejects a changed digit or letter', () => {
+    assert.equal(validateKvnr('A123456781').code, 'checkDigit');
+    assert.equal(validateKvnr('A123457780').code, 'checkDigit');
+    assert.equal(validateKvnr('B123456780').code, 'checkDigit');
+    assert.match(validateKvnr('A123456781').message!, /expected 0/);
+  });
+
+  it('rejects malformed numbers', () => {
+    ['123456780', 'A12345678', 'AB12345678'].forEach(kvnr => assert.equal(validateKvnr(kvnr).code, 'identifierFormat', kvnr));
+  });
+});
+
+describe('validateLanr', () => {
+  it('accepts valid physician numbers and pseudo-LANRs', () => {
+    ['123456601', '987654421', '948301053', '999999900'].forEach(lanr =>
+      assert.deepEqual(validateLanr(lanr), { valid: true }, lanr)
+    );
+  });
+
+  it('rejects a changed serial or check digit', () => {
+    assert.equal(validateLanr('123456701').code, 'checkDigit');
+    assert.equal(validateLanr('123457601').code, 'checkDigit');
+    assert.match(validateLanr('123456701').message!, /expected 6/);
+  });
+
+  it('ignores the specialty group', () => {
+    assert.deepEqual(validateLanr('123456699'), { valid: true });
+  });
+
+  it('rejects malformed numbers', () => {
+    ['12345660', '1234566011', '12345660A'].forEach(lanr => assert.equal(validateLanr(lanr).code, 'identifierFormat', lanr));
+  });
+});
+
+describe('validateIk', () => {
+  it('accepts the IKs of real insurers', () => {
+    ['101575519', '108310400', '104940005', '105830016', '109905003'].forEach(ik =>
+      assert.deepEqual(validateIk(ik), { valid: true }, ik)
+    );
+  });
+
+  it('rejects a changed serial or check digit', () => {
+    assert.equal(validateIk('101575518').code, 'checkDigit');
+    assert.equal(validateIk('101575619').code, 'checkDigit');
+    assert.match(validateIk('101575518').message!, /expected 9/);
+  });
+
+  it('does not include the class digits in the check digit', () => {
+    assert.deepEqual(validateIk('201575519'), { valid: true });
+  });
+
+  it('rejects malformed numbers', () => {
+    ['10157551', '1015755190', '10157551X'].forEach(ik => assert.equal(validateIk(ik).code, 'identifierFormat', ik));
+  });
+});
+
+describe('validatePzn', () => {
+  it('accepts valid PZN-8 and legacy PZN-7 numbers', () => {
+    ['27580899', '04773414', '01234562', '2758089'].forEach(pzn =>
+      assert.deepEqual(validatePzn(pzn), { valid: true }, pzn)
+    );
+  });
+
+  it('rejects a changed digit', () => {
+    assert.equal(validatePzn('27580898').code, 'checkDigit');
+    assert.equal(validatePzn('27580989').code, 'checkDigit');
+    assert.equal(validatePzn('2758088').code, 'checkDigit');
+    assert.match(validatePzn('27580898').message!, /expected 9/);
+  });
+
+  it('rejects numbers whose check digit would be 10', () => {
+    assert.match(validatePzn('30000010').message!, /not assignable/);
+  });
+
+  it('rejects malformed numbers', () => {
+    ['275808', '275808999', 'PZN27580'].forEach(pzn => assert.equal(validatePzn(pzn).code, 'identifierFormat', pzn));
+  });
+});
+
+describe('validateBsnr', () => {
+  it('accepts practice numbers of every known KV region', () => {
+    ['011234500', '381234500', '711234500', '981234500'].forEach(bsnr =>
+      assert.deepEqual(validateBsnr(bsnr), { valid: true }, bsnr)
+    );
+  });
+
+  it('warns about unknown regions instead of failing', () => {
+    assert.deepEqual(
+      { code: validateBsnr('401234500').code, severity: validateBsnr('401234500').severity },
+      { code: 'identifierRegion', severity: 'warning' }
+    );
+  });
+
+  it('rejects malformed numbers', () => {
+    ['71123450', '7112345000', '71123450X'].forEach(bsnr => assert.equal(validateBsnr(bsnr).code, 'identifierFormat', bsnr));
+  });
+});
+
+describe('validateIdentifier', () => {
+  it('dispatches on the declared format', () => {
+    assert.equal(validateIdentifier('kvnr', 'A123456781').code, 'checkDigit');
+    assert.equal(validateIdentifier('lanr', '123456701').code, 'checkDigit');
+    assert.equal(validateIdentifier('ik', '101575518').code, 'checkDigit');
+    assert.equal(validateIdentifier('pzn', '27580898').code, 'checkDigit');
+    assert.equal(validateIdentifier('bsnr', '401234500').code, 'identifierRegion');
+  });
+});
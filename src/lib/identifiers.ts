@@ -0,0 +1,166 @@
+// Purpose: Check digit validation for identifiers printed on German healthcare forms
+// Verifies identifier formats declared on schema fields via BarcodeFieldDefinition.format
+
+import { IdentifierFormat, ValidationRuleCode, ValidationSeverity } from '@/types/healthcare';
+
+export interface IdentifierCheckResult {
+  valid: boolean;
+  code?: Extract<ValidationRuleCode, 'checkDigit' | 'identifierFormat' | 'identifierRegion'>;
+  severity?: ValidationSeverity; // Defaults to 'error'
+  message?: string; // Reason the identifier was rejected
+}
+
+// Two-digit KV region prefixes of Betriebsstättennummern
+export const KV_REGIONS: Record<string, string> = {
+  '01': 'Schleswig-Holstein',
+  '02': 'Hamburg',
+  '03': 'Bremen',
+  '17': 'Niedersachsen',
+  '20': 'Westfalen-Lippe',
+  '38': 'Nordrhein',
+  '46': 'Hessen',
+  '51': 'Rheinland-Pfalz',
+  '52': 'Baden-Württemberg',
+  '71': 'Bayern',
+  '72': 'Berlin',
+  '73': 'Saarland',
+  '78': 'Mecklenburg-Vorpommern',
+  '83': 'Brandenburg',
+  '88': 'Sachsen-Anhalt',
+  '93': 'Thüringen',
+  '98': 'Sachsen'
+};
+
+/**
+ * Validate an identifier according to its declared format
+ */
+export function validateIdentifier(format: IdentifierFormat, value: string): IdentifierCheckResult {
+  switch (format) {
+    case 'pzn':
+      return validatePzn(value);
+    case 'kvnr':
+      return validateKvnr(value);
+    case 'lanr':
+      return validateLanr(value);
+    case 'bsnr':
+      return validateBsnr(value);
+    case 'ik':
+      return validateIk(value);
+  }
+}
+
+/**
+ * Pharmazentralnummer: PZN-8 (weights 1-7) or legacy PZN-7 (weights 2-7), check digit = sum mod 11
+ */
+export function validatePzn(value: string): IdentifierCheckResult {
+  if (!/^\d{7,8}$/.test(value)) {
+    return { valid: false, code: 'identifierFormat', message: `PZN must have 7 or 8 digits: ${value}` };
+  }
+
+  const digits = value.split('').map(Number);
+  const checkDigit = digits.pop()!;
+  const firstWeight = digits.length === 7 ? 1 : 2;
+  const sum = digits.reduce((acc, digit, i) => acc + digit * (i + firstWeight), 0);
+  const expected = sum % 11;
+
+  if (expected === 10) {
+    return { valid: false, code: 'checkDigit', message: `PZN ${value} is not assignable (check digit would be 10)` };
+  }
+  if (expected !== checkDigit) {
+    return { valid: false, code: 'checkDigit', message: `PZN ${value} has an invalid check digit (expected ${expected})` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Krankenversichertennummer: letter + 8 digits + check digit. The letter becomes its
+ * two-digit alphabet position; the 10 digits are weighted 1,2,1,2,... and the digit
+ * sums of the products are added up, mod 10.
+ */
+export function validateKvnr(value: string): IdentifierCheckResult {
+  const normalized = value.toUpperCase();
+  if (!/^[A-Z]\d{9}$/.test(normalized)) {
+    return {
+      valid: false,
+      code: 'identifierFormat',
+      message: `Insurance number must be a letter followed by 9 digits: ${value}`
+    };
+  }
+
+  const letterNumber = String(normalized.charCodeAt(0) - 64).padStart(2, '0');
+  const digits = (letterNumber + normalized.slice(1, 9)).split('').map(Number);
+  const sum = digits.reduce((acc, digit, i) => acc + digitSum(digit * (i % 2 === 0 ? 1 : 2)), 0);
+  const expected = sum % 10;
+
+  if (expected !== Number(normalized[9])) {
+    return { valid: false, code: 'checkDigit', message: `Insurance number ${value} has an invalid check digit (expected ${expected})` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Lebenslange Arztnummer: 6-digit serial, check digit, 2-digit specialty group.
+ * Serial digits are weighted 4,9,4,9,4,9; check digit = (10 - sum mod 10) mod 10.
+ * Pseudo-LANRs (serial 999999) carry no check digit.
+ */
+export function validateLanr(value: string): IdentifierCheckResult {
+  if (!/^\d{9}$/.test(value)) {
+    return { valid: false, code: 'identifierFormat', message: `LANR must have 9 digits: ${value}` };
+  }
+  if (value.startsWith('999999')) {
+    return { valid: true };
+  }
+
+  const weights = [4, 9, 4, 9, 4, 9];
+  const sum = weights.reduce((acc, weight, i) => acc + Number(value[i]) * weight, 0);
+  const expected = (10 - (sum % 10)) % 10;
+
+  if (expected !== Number(value[6])) {
+    return { valid: false, code: 'checkDigit', message: `LANR ${value} has an invalid check digit (expected ${expected})` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Betriebsstättennummer: 9 digits starting with a known KV region.
+ * BSNRs have no check digit, so an unknown region is only a warning.
+ */
+export function validateBsnr(value: string): IdentifierCheckResult {
+  if (!/^\d{9}$/.test(value)) {
+    return { valid: false, code: 'identifierFormat', message: `BSNR must have 9 digits: ${value}` };
+  }
+
+  const region = value.slice(0, 2);
+  if (!KV_REGIONS[region]) {
+    return {
+      valid: false,
+      code: 'identifierRegion',
+      severity: 'warning',
+      message: `BSNR ${value} does not start with a known KV region (${region})`
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Institutionskennzeichen: 2-digit class, 6-digit serial, check digit.
+ * Serial digits are weighted 2,1,2,1,2,1; the digit sums of the products are added up, mod 10.
+ */
+export function validateIk(value: string): IdentifierCheckResult {
+  if (!/^\d{9}$/.test(value)) {
+    return { valid: false, code: 'identifierFormat', message: `IK must have 9 digits: ${value}` };
+  }
+
+  const weights = [2, 1, 2, 1, 2, 1];
+  const sum = weights.reduce((acc, weight, i) => acc + digitSum(Number(value[i + 2]) * weight), 0);
+  const expected = sum % 10;
+
+  if (expected !== Number(value[8])) {
+    return { valid: false, code: 'checkDigit', message: `IK ${value} has an invalid check digit (expected ${expected})` };
+  }
+  return { valid: true };
+}
+
+function digitSum(value: number): number {
+  return String(value).split('').reduce((acc, digit) => acc + Number(digit), 0);
+}
@@ -0,0 +1,146 @@
+// Purpose: Tests for the geometric corrections behind the scanner's rotation, deskew and perspective attempts
+// Each transform's toSource mapping must lead back to the pixel the content came from
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { PerspectiveTransform } from '@zxing/library';
+import { PDF417HealthcareEncoder } from './pdf417-encoder';
+import { BarcodePoint, GrayImage, PixelBarcodeScanner } from './pixel-scanner';
+import { estimateSkew, findPageQuad, otsuThreshold, rotateGray, rotateGrayByAngle, warpPerspective } from './image-geometry';
+
+const PAYLOAD = '06\t\t11\t\tLeuthäuser\tAngelika\t19740414';
+const DESK_GRAY = 40;
+
+/**
+ * White page with a PDF417 symbol in its lower half
+ */
+function renderPage(): GrayImage {
+  const matrix = new PDF417HealthcareEncoder().toMatrix(PAYLOAD);
+  const moduleWidth = 2;
+  const rowHeight = 6;
+  const width = matrix.columns * moduleWidth + 160;
+  const height = matrix.rows * rowHeight + 300;
+  const data = new Uint8ClampedArray(width * height).fill(255);
+  for (let row = 0; row < matrix.rows; row++) {
+    for (let column = 0; column < matrix.columns; column++) {
+      if (!matrix.modules[row * matrix.columns + column]) continue;
+      for (let y = 0; y < rowHeight; y++) {
+        const offset = (220 + row * rowHeight + y) * width + 120 + column * moduleWidth;
+        data.fill(0, offset, offset + moduleWidth);
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Photo of the page lying on a dark desk, its corners at the given quadrilateral
+ */
+function photograph(page: GrayImage, quad: BarcodePoint[], width: number, height: number): GrayImage {
+  const toPage = PerspectiveTransform.quadrilateralToQuadrilateral(
+    quad[0].x, quad[0].y, quad[1].x, quad[1].y, quad[2].x, quad[2].y, quad[3].x, quad[3].y,
+    0, 0, page.width, 0, page.width, page.height, 0, page.height
+  );
+  const data = new Uint8ClampedArray(width * height).fill(DESK_GRAY);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const point = Float32Array.of(x + 0.5, y + 0.5);
+      toPage.transformPoints(point);
+      const pageX = Math.floor(point[0]);
+      const pageY = Math.floor(point[1]);
+      if (pageX >= 0 && pageY >= 0 && pageX < page.width && pageY < page.height) {
+        data[y * width + x] = page.data[pageY * page.width + pageX];
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+function assertNear(actual: BarcodePoint, expected: BarcodePoint, tolerance: number) {
+  const distance = Math.hypot(actual.x - expected.x, actual.y - expected.y);
+  assert.ok(distance <= tolerance, `${actual.x.toFixed(1)},${actual.y.toFixed(1)} is ${distance.toFixed(1)} px from ${expected.x},${expected.y}`);
+}
+
+describe('image geometry', () => {
+  const page = renderPage();
+  // Photographed from the lower left: the top edge is shorter and tilted
+  const quad = [{ x: 110, y: 50 }, { x: 400, y: 90 }, { x: 470, y: 560 }, { x: 30, y: 530 }];
+  const photo = photograph(page, quad, 500, 600);
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('rotates by right angles and maps pixels back', () => {
+    const image: GrayImage = { width: 3, height: 2, data: Uint8ClampedArray.of(1, 2, 3, 4, 5, 6) };
+    assert.deepEqual(Array.from(rotateGray(image, 90).image.data), [4, 1, 5, 2, 6, 3]);
+    assert.deepEqual(Array.from(rotateGray(image, 180).image.data), [6, 5, 4, 3, 2, 1]);
+    assert.deepEqual(Array.from(rotateGray(image, 270).image.data), [3, 6, 2, 5, 1, 4]);
+
+    for (const degrees of [90, 180, 270] as const) {
+      const rotated = rotateGray(image, degrees);
+      for (let y = 0; y < rotated.image.height; y++) {
+        for (let x = 0; x < rotated.image.width; x++) {
+          const source = rotated.toSource({ x, y });
+          assert.equal(rotated.image.data[y * rotated.image.width + x], image.data[source.y * image.width + source.x]);
+        }
+      }
+    }
+  });
+
+  it('grows the canvas for free rotation and maps its center back to the source center', () => {
+    const rotated = rotateGrayByAngle(page, 30);
+    const radians = Math.PI / 6;
+    assert.equal(rotated.image.width, Math.round(page.width * Math.cos(radians) + page.height * Math.sin(radians)));
+    assertNear(rotated.toSource({ x: rotated.image.width / 2, y: rotated.image.height / 2 }), { x: page.width / 2, y: page.height / 2 }, 0.01);
+    // Corners outside the rotated page are filled with white
+    assert.equal(rotated.image.data[0], 255);
+  });
+
+  it('estimates the skew from the guard patterns', () => {
+    assert.ok(Math.abs(estimateSkew(page) ?? Infinity) < 0.5);
+    for (const degrees of [-10, 6]) {
+      const skew = estimateSkew(rotateGrayByAngle(page, degrees).image);
+      assert.ok(skew !== null && Math.abs(skew + degrees) <= 1, `skew ${skew} for ${degrees}°`);
+    }
+    const blank: GrayImage = { width: 100, height: 100, data: new Uint8ClampedArray(100 * 100).fill(255) };
+    assert.equal(estimateSkew(blank), null);
+  });
+
+  it('separates paper from the desk', () => {
+    const threshold = otsuThreshold(photo);
+    assert.ok(threshold > DESK_GRAY && threshold < 255);
+  });
+
+  it('finds the page in a photo but not in a flat scan', () => {
+    const found = findPageQuad(photo);
+    assert.ok(found);
+    found.forEach((corner, index) => assertNear(corner, quad[index], 4));
+    assert.equal(findPageQuad(page), null);
+  });
+
+  it('warps the photographed page upright and maps corners back to the photo', () => {
+    const warped = warpPerspective(photo, quad, 1200, 1600);
+    const { width, height } = warped.image;
+    // The output takes the longer of the opposite edges
+    assert.equal(width, Math.round(Math.hypot(quad[2].x - quad[3].x, quad[2].y - quad[3].y)));
+    assert.equal(height, Math.round(Math.hypot(quad[3].x - quad[0].x, quad[3].y - quad[0].y)));
+    [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }]
+      .forEach((corner, index) => assertNear(warped.toSource(corner), quad[index], 0.5));
+    // The desk is gone: the warped edges are paper
+    assert.ok(warped.image.data[Math.floor(height / 2) * width + 2] > 200);
+  });
+
+  it('decodes the photographed page', () => {
+    const rgba = new Uint8ClampedArray(photo.width * photo.height * 4).fill(255);
+    photo.data.forEach((value, pixel) => rgba.fill(value, pixel * 4, pixel * 4 + 3));
+    const result = new PixelBarcodeScanner().scan({ width: photo.width, height: photo.height, data: rgba });
+    assert.equal(result.text, PAYLOAD);
+    // Every corner lies on the photographed page
+    result.corners.forEach(corner => assert.ok(photo.data[Math.round(corner.y) * photo.width + Math.round(corner.x)] !== DESK_GRAY));
+  });
+});
@@ -0,0 +1,357 @@
+// Purpose: Geometric corrections for grayscale scans: right-angle and free rotation, skew and perspective
+// Every transform returns a mapping back to source pixels so barcode corners can be reported on the original
+
+import { PerspectiveTransform } from '@zxing/library';
+import type { BarcodePoint, GrayImage } from './pixel-scanner';
+
+export interface TransformedImage {
+  image: GrayImage;
+  toSource: (point: BarcodePoint) => BarcodePoint; // Pixel of the transformed image -> pixel of the input
+}
+
+// Guard patterns in module widths, starting with a bar (ISO/IEC 15438)
+const START_PATTERN = [8, 1, 1, 1, 1, 1, 1, 3];
+const STOP_PATTERN = [7, 1, 1, 3, 1, 1, 1, 2, 1];
+// Upside-down symbols show both patterns mirrored
+const GUARD_PATTERNS = [START_PATTERN, STOP_PATTERN, [...START_PATTERN].reverse(), [...STOP_PATTERN].reverse()];
+// Allowed deviation of a run from its expected width, in modules
+const PATTERN_TOLERANCE = 0.6;
+// Guard pattern hits needed before a skew estimate is trusted
+const MIN_GUARD_HITS = 6;
+const MAX_GUARD_HITS = 150;
+
+/**
+ * Rotate by a multiple of 90 degrees clockwise (lossless)
+ */
+export function rotateGray(image: GrayImage, degrees: 90 | 180 | 270): TransformedImage {
+  const { width, height } = image;
+  const swap = degrees !== 180;
+  const rotatedWidth = swap ? height : width;
+  const rotatedHeight = swap ? width : height;
+  const data = new Uint8ClampedArray(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [targetX, targetY] = degrees === 90
+        ? [height - 1 - y, x]
+        : degrees === 180 ? [width - 1 - x, height - 1 - y] : [y, width - 1 - x];
+      data[targetY * rotatedWidth + targetX] = image.data[y * width + x];
+    }
+  }
+
+  const toSource = ({ x, y }: BarcodePoint): BarcodePoint => degrees === 90
+    ? { x: y, y: height - 1 - x }
+    : degrees === 180 ? { x: width - 1 - x, y: height - 1 - y } : { x: width - 1 - y, y: x };
+  return { image: { width: rotatedWidth, height: rotatedHeight, data }, toSource };
+}
+
+/**
+ * Rotate by any angle clockwise with bilinear sampling; the canvas grows to fit and is filled with white
+ */
+export function rotateGrayByAngle(image: GrayImage, degrees: number): TransformedImage {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const width = Math.round(Math.abs(image.width * cos) + Math.abs(image.height * sin));
+  const height = Math.round(Math.abs(image.width * sin) + Math.abs(image.height * cos));
+  const sourceCenterX = image.width / 2;
+  const sourceCenterY = image.height / 2;
+
+  const toSource = ({ x, y }: BarcodePoint): BarcodePoint => {
+    const dx = x - width / 2;
+    const dy = y - height / 2;
+    return { x: sourceCenterX + dx * cos + dy * sin, y: sourceCenterY - dx * sin + dy * cos };
+  };
+
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = toSource({ x: x + 0.5, y: y + 0.5 });
+      data[y * width + x] = sampleBilinear(image, source.x - 0.5, source.y - 0.5);
+    }
+  }
+  return { image: { width, height, data }, toSource };
+}
+
+/**
+ * Clockwise rotation in degrees that makes the bars of a PDF417 symbol vertical (possibly upside down),
+ * estimated from the start and stop patterns, which run the full height of the symbol; null without
+ * enough evidence (including bars closer to horizontal than vertical)
+ */
+export function estimateSkew(image: GrayImage): number | null {
+  const threshold = otsuThreshold(image);
+  const slopes: number[] = [];
+  let inliers = 0;
+
+  GUARD_PATTERNS.forEach(pattern => {
+    const hits = findGuardPatterns(image, threshold, pattern);
+    if (hits.length < MIN_GUARD_HITS) return;
+
+    const patternSlopes = pairwiseSlopes(hits);
+    const slope = median(patternSlopes);
+    const intercept = median(hits.map(hit => hit.x - slope * hit.y));
+    const fitting = hits.filter(hit => Math.abs(hit.x - (slope * hit.y + intercept)) <= 3);
+    if (fitting.length >= MIN_GUARD_HITS) {
+      slopes.push(...patternSlopes);
+      inliers += fitting.length;
+    }
+  });
+
+  if (inliers < MIN_GUARD_HITS || slopes.length === 0) {
+    return null;
+  }
+  return (Math.atan(median(slopes)) * 180) / Math.PI;
+}
+
+/**
+ * Corners (top-left, top-right, bottom-right, bottom-left) of a sheet of paper lying on a darker surface;
+ * null when the paper fills the frame or no plausible sheet is found. Meant for small (~300 px) images.
+ */
+export function findPageQuad(image: GrayImage): BarcodePoint[] | null {
+  const { width, height } = image;
+  const threshold = otsuThreshold(image);
+  const component = largestBrightComponent(image, threshold);
+  if (component.length < width * height * 0.2) {
+    return null;
+  }
+
+  // Extreme points along the diagonals are the corners of a roughly upright quadrilateral
+  const corners = [
+    { score: (x: number, y: number) => -(x + y) },
+    { score: (x: number, y: number) => x - y },
+    { score: (x: number, y: number) => x + y },
+    { score: (x: number, y: number) => y - x }
+  ].map(({ score }) => {
+    let best = { x: 0, y: 0 };
+    let bestScore = -Infinity;
+    component.forEach(index => {
+      const x = index % width;
+      const y = Math.floor(index / width);
+      const value = score(x, y);
+      if (value > bestScore) {
+        bestScore = value;
+        best = { x, y };
+      }
+    });
+    return best;
+  });
+
+  const margin = Math.max(2, Math.min(width, height) * 0.03);
+  const frame = [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: width - 1, y: height - 1 }, { x: 0, y: height - 1 }];
+  const fillsFrame = corners.every((corner, index) => distance(corner, frame[index]) <= margin);
+  if (fillsFrame || !isConvex(corners) || polygonArea(corners) < width * height * 0.2) {
+    return null;
+  }
+  return corners;
+}
+
+/**
+ * Map a quadrilateral (top-left, top-right, bottom-right, bottom-left) onto an upright rectangle
+ * no larger than the given size, sampling bilinearly
+ */
+export function warpPerspective(image: GrayImage, quad: BarcodePoint[], maxWidth: number, maxHeight: number): TransformedImage {
+  const [topLeft, topRight, bottomRight, bottomLeft] = quad;
+  const naturalWidth = Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight));
+  const naturalHeight = Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight));
+  const scale = Math.min(1, maxWidth / naturalWidth, maxHeight / naturalHeight);
+  const width = Math.max(1, Math.round(naturalWidth * scale));
+  const height = Math.max(1, Math.round(naturalHeight * scale));
+
+  const transform = PerspectiveTransform.quadrilateralToQuadrilateral(
+    0, 0, width, 0, width, height, 0, height,
+    topLeft.x, topLeft.y, topRight.x, topRight.y, bottomRight.x, bottomRight.y, bottomLeft.x, bottomLeft.y
+  );
+
+  const data = new Uint8ClampedArray(width * height);
+  const row = new Float32Array(width * 2);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      row[x * 2] = x + 0.5;
+      row[x * 2 + 1] = y + 0.5;
+    }
+    transform.transformPoints(row);
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = sampleBilinear(image, row[x * 2] - 0.5, row[x * 2 + 1] - 0.5);
+    }
+  }
+
+  const toSource = ({ x, y }: BarcodePoint): BarcodePoint => {
+    const point = Float32Array.of(x, y);
+    transform.transformPoints(point);
+    return { x: point[0], y: point[1] };
+  };
+  return { image: { width, height, data }, toSource };
+}
+
+/**
+ * Threshold that best separates dark and light pixels (Otsu's method)
+ */
+export function otsuThreshold(image: GrayImage): number {
+  const histogram = new Array<number>(256).fill(0);
+  image.data.forEach(value => histogram[value]++);
+
+  const total = image.data.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let backgroundCount = 0;
+  let backgroundSum = 0;
+  let bestVariance = -1;
+  let threshold = 128;
+
+  for (let value = 0; value < 256; value++) {
+    backgroundCount += histogram[value];
+    const foregroundCount = total - backgroundCount;
+    if (backgroundCount === 0) continue;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += value * histogram[value];
+    const meanDifference = backgroundSum / backgroundCount - (sum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * meanDifference * meanDifference;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = value + 1;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * Left edges of a guard pattern found on every other row, at most MAX_GUARD_HITS spread over the image
+ */
+function findGuardPatterns(image: GrayImage, threshold: number, pattern: number[]): BarcodePoint[] {
+  const modules = pattern.reduce((sum, value) => sum + value, 0);
+  const hits: BarcodePoint[] = [];
+
+  for (let y = 0; y < image.height; y += 2) {
+    const runs = getRuns(image, y, threshold);
+    for (let start = 0; start + pattern.length <= runs.length; start += 2) {
+      const window = runs.slice(start, start + pattern.length);
+      const total = window.reduce((sum, run) => sum + run.length, 0);
+      const moduleWidth = total / modules;
+      if (moduleWidth < 1) continue;
+
+      const matches = window.every((run, index) =>
+        Math.abs(run.length - pattern[index] * moduleWidth) <= Math.max(1, PATTERN_TOLERANCE * moduleWidth)
+      );
+      if (matches) {
+        hits.push({ x: window[0].start, y });
+      }
+    }
+  }
+
+  if (hits.length <= MAX_GUARD_HITS) {
+    return hits;
+  }
+  const step = hits.length / MAX_GUARD_HITS;
+  return Array.from({ length: MAX_GUARD_HITS }, (_, index) => hits[Math.floor(index * step)]);
+}
+
+/**
+ * Alternating runs of one row, beginning with the first dark run
+ */
+function getRuns(image: GrayImage, y: number, threshold: number): { start: number; length: number }[] {
+  const runs: { start: number; length: number }[] = [];
+  const offset = y * image.width;
+  let x = 0;
+  while (x < image.width && image.data[offset + x] >= threshold) x++;
+
+  while (x < image.width) {
+    const dark = image.data[offset + x] < threshold;
+    const start = x;
+    while (x < image.width && (image.data[offset + x] < threshold) === dark) x++;
+    runs.push({ start, length: x - start });
+  }
+  return runs;
+}
+
+/**
+ * Slopes dx/dy between hits at least a few rows apart (Theil-Sen estimator input)
+ */
+function pairwiseSlopes(points: BarcodePoint[]): number[] {
+  const slopes: number[] = [];
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const dy = points[j].y - points[i].y;
+      if (Math.abs(dy) >= 8) {
+        slopes.push((points[j].x - points[i].x) / dy);
+      }
+    }
+  }
+  return slopes;
+}
+
+function largestBrightComponent(image: GrayImage, threshold: number): number[] {
+  const { width, height, data } = image;
+  const visited = new Uint8Array(width * height);
+  let largest: number[] = [];
+
+  for (let seed = 0; seed < data.length; seed++) {
+    if (visited[seed] || data[seed] < threshold) continue;
+
+    const component: number[] = [];
+    const stack = [seed];
+    visited[seed] = 1;
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      component.push(index);
+      const x = index % width;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index >= width ? index - width : -1,
+        index < width * (height - 1) ? index + width : -1
+      ];
+      neighbours.forEach(neighbour => {
+        if (neighbour >= 0 && !visited[neighbour] && data[neighbour] >= threshold) {
+          visited[neighbour] = 1;
+          stack.push(neighbour);
+        }
+      });
+    }
+    if (component.length > largest.length) {
+      largest = component;
+    }
+  }
+  return largest;
+}
+
+function sampleBilinear(image: GrayImage, x: number, y: number): number {
+  if (x < -0.5 || y < -0.5 || x > image.width - 0.5 || y > image.height - 0.5) {
+    return 255;
+  }
+  const left = Math.max(0, Math.min(image.width - 1, Math.floor(x)));
+  const top = Math.max(0, Math.min(image.height - 1, Math.floor(y)));
+  const right = Math.min(image.width - 1, left + 1);
+  const bottom = Math.min(image.height - 1, top + 1);
+  const fx = Math.max(0, Math.min(1, x - left));
+  const fy = Math.max(0, Math.min(1, y - top));
+
+  const upper = image.data[top * image.width + left] * (1 - fx) + image.data[top * image.width + right] * fx;
+  const lower = image.data[bottom * image.width + left] * (1 - fx) + image.data[bottom * image.width + right] * fx;
+  return upper * (1 - fy) + lower * fy;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function distance(a: BarcodePoint, b: BarcodePoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function polygonArea(points: BarcodePoint[]): number {
+  return Math.abs(points.reduce((sum, point, index) => {
+    const next = points[(index + 1) % points.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0)) / 2;
+}
+
+function isConvex(points: BarcodePoint[]): boolean {
+  const signs = points.map((point, index) => {
+    const next = points[(index + 1) % points.length];
+    const afterNext = points[(index + 2) % points.length];
+    return Math.sign((next.x - point.x) * (afterNext.y - next.y) - (next.y - point.y) * (afterNext.x - next.x));
+  });
+  return signs.every(sign => sign > 0) || signs.every(sign => sign < 0);
+}
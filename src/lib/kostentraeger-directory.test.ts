@@ -0,0 +1,64 @@
+// Purpose: Tests for name matching and payer classification of the Kostenträger directory
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { KostentraegerDirectory } from './kostentraeger-directory';
+
+const directory = new KostentraegerDirectory();
+const entry = (ik: string) => {
+  const found = directory.lookup(ik);
+  assert.ok(found, `IK ${ik} is in the bundled directory`);
+  return found;
+};
+
+const TK = '101575519';
+const DAK = '105830016';
+const AOK_BAYERN = '108310400';
+const AOK_PLUS = '107299005';
+const SBK = '108433248';
+
+describe('KostentraegerDirectory.matchesName', () => {
+  it('accepts the directory name and aliases in any spelling', () => {
+    assert.equal(directory.matchesName(entry(TK), 'Techniker Krankenkasse'), true);
+    assert.equal(directory.matchesName(entry(TK), 'TK'), true);
+    assert.equal(directory.matchesName(entry(DAK), 'DAK Gesundheit'), true);
+    assert.equal(directory.matchesName(entry(DAK), 'DAK-Gesundheit'), true);
+    assert.equal(directory.matchesName(entry(SBK), 'Siemens Betriebskrankenkasse'), true);
+    assert.equal(directory.matchesName(entry('104940005'), 'BarmerGEK'), true);
+  });
+
+  it('accepts printed names that add words to the directory name', () => {
+    assert.equal(directory.matchesName(entry(AOK_BAYERN), 'AOK Bayern Die Gesundheitskasse'), true);
+    assert.equal(directory.matchesName(entry(AOK_PLUS), 'AOK PLUS Sachsen und Thüringen'), true);
+    assert.equal(directory.matchesName(entry('108018007'), 'AOK Baden-Wuerttemberg'), true);
+  });
+
+  it('rejects names that only contain an alias as part of a word', () => {
+    assert.equal(directory.matchesName(entry(TK), 'Heimat Krankenkasse'), false);
+    assert.equal(directory.matchesName(entry(DAK), 'Daimler BKK'), false);
+    assert.equal(directory.matchesName(entry(SBK), 'Salus BKK'), false);
+  });
+
+  it('rejects generic and near-miss names', () => {
+    assert.equal(directory.matchesName(entry(TK), 'Krankenkasse'), false);
+    assert.equal(directory.matchesName(entry(AOK_BAYERN), 'AOK'), false);
+    assert.equal(directory.matchesName(entry(AOK_BAYERN), 'AOK Hessen'), false);
+    assert.equal(directory.matchesName(entry(AOK_PLUS), 'AOK Nordost'), false);
+    assert.equal(directory.matchesName(entry('102114819'), 'AOK Nordwest'), false);
+    assert.equal(directory.matchesName(entry('103170002'), 'IKK classic'), false);
+  });
+
+  it('treats an empty printed name as matching', () => {
+    assert.equal(directory.matchesName(entry(TK), '  '), true);
+  });
+});
+
+describe('KostentraegerDirectory.classify', () => {
+  it('uses the directory entry, then the printed name and IK class', () => {
+    assert.equal(directory.classify(TK, 'irrelevant'), 'GKV');
+    assert.equal(directory.classify(undefined, 'BG Bau'), 'BG');
+    assert.equal(directory.classify(undefined, 'Sozialamt der Stadt Köln'), 'Sozialamt');
+    assert.equal(directory.classify('109999999', ''), 'GKV');
+    assert.equal(directory.classify(undefined, 'Allianz Private Krankenversicherung'), 'sonstige');
+  });
+});
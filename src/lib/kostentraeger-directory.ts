@@ -0,0 +1,102 @@
+// Purpose: Offline directory of Kostenträger (payers) keyed by Institutionskennzeichen
+// Resolves insurer names, detects name mismatches and classifies the payer type
+
+import { KostentraegerEntry, KostentraegerTyp } from '@/types/healthcare';
+import bundledDirectory from '@/data/kostentraeger.json';
+
+export interface KostentraegerDirectoryData {
+  stand: string; // Date the directory was compiled (YYYY-MM-DD)
+  entries: KostentraegerEntry[];
+}
+
+export class KostentraegerDirectory {
+  private entries: Map<string, KostentraegerEntry>;
+  private stand: string;
+
+  constructor(data: KostentraegerDirectoryData = bundledDirectory as KostentraegerDirectoryData) {
+    this.entries = new Map();
+    this.stand = data.stand;
+    this.update(data);
+  }
+
+  /**
+   * Create a directory from an exported JSON file (same shape as the bundled data)
+   */
+  static fromJSON(json: string): KostentraegerDirectory {
+    const data = JSON.parse(json) as KostentraegerDirectoryData;
+    if (!data || !Array.isArray(data.entries)) {
+      throw new Error('Invalid Kostenträger directory: missing entries');
+    }
+    return new KostentraegerDirectory(data);
+  }
+
+  /**
+   * Add or replace entries, e.g. from a newer directory export
+   */
+  update(data: KostentraegerDirectoryData): void {
+    data.entries.forEach(entry => this.entries.set(entry.ik, entry));
+    if (data.stand > this.stand) {
+      this.stand = data.stand;
+    }
+  }
+
+  getStand(): string {
+    return this.stand;
+  }
+
+  lookup(ik: string): KostentraegerEntry | undefined {
+    return this.entries.get(ik.trim());
+  }
+
+  /**
+   * Check whether a printed insurer name refers to the directory entry: the printed name must contain
+   * every word of the name or of an alias, so generic words ("Krankenkasse", "AOK") do not match on their own
+   */
+  matchesName(entry: KostentraegerEntry, printedName: string): boolean {
+    const printed = this.tokenizeName(printedName);
+    if (printed.length === 0) {
+      return true;
+    }
+
+    return [entry.name, ...(entry.aliases || [])]
+      .map(name => this.tokenizeName(name))
+      .some(name => name.length > 0 && (
+        name.join('') === printed.join('') || name.every(token => printed.includes(token))
+      ));
+  }
+
+  /**
+   * Classify the payer from its directory entry, falling back to the printed name and IK class
+   */
+  classify(ik: string | undefined, printedName: string | undefined): KostentraegerTyp {
+    const entry = ik ? this.lookup(ik) : undefined;
+    if (entry) {
+      return entry.typ;
+    }
+
+    const name = (printedName || '').toLowerCase();
+    if (/berufsgenossenschaft|\bbg\b|unfallkasse|unfallversicherung/.test(name)) {
+      return 'BG';
+    }
+    if (/sozialamt|sozialhilfe|landkreis|kreisverwaltung|stadtverwaltung|bezirksamt/.test(name)) {
+      return 'Sozialamt';
+    }
+    if (/krankenkasse|\baok\b|\bbkk\b|\bikk\b|ersatzkasse|knappschaft/.test(name) || ik?.startsWith('10')) {
+      return 'GKV';
+    }
+    return 'sonstige';
+  }
+
+  /**
+   * Lowercase words with umlauts transliterated; punctuation separates words ("DAK-Gesundheit")
+   */
+  private tokenizeName(name: string): string[] {
+    return name
+      .toLowerCase()
+      .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+  }
+}
+
+export const kostentraegerDirectory = new KostentraegerDirectory();
@@ -0,0 +1,118 @@
+// Purpose: Tests for layout scoring and the parser's choice between the two Muster 6 layouts
+// The version-resolved layout is kept unless another layout fits the values strictly better
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { FormSchema } from '@/types/healthcare';
+import { getMuster6Schema, getMuster6SchemaV11 } from './form-schemas';
+import { FormSchemaRegistry } from './schema-registry';
+import { getLayoutConfidence, rankLayouts, scoreLayoutFit } from './layout-fit';
+import { PDF417HealthcareParser } from './pdf417-parser';
+
+// Muster 6 in the layout of versions 01-10 (version in column 2)
+const MUSTER_6_V10 = [
+  '06', '', '10', '', 'Schmidt', 'Klara', '19620315', '', '105177505',
+  'Techniker Krankenkasse', '46', 'Y207887976', '1', '00', '00',
+  '469601100', '948301053', '20231116', 'W', 'Dr.', '', '', '60322', 'Frankfurt',
+  'Sömmerringstr.', '12', '', 'Innere Medizin', '', '', '', '', '', '', '',
+  'Kardiologie', '', '', '', 'I10.90', 'Abklärung Belastungsdyspnoe'
+];
+
+// Muster 6 in the layout from version 11 (version in column 1)
+const MUSTER_6_V11 = [
+  '06', '11', 'Leuthäuser', 'Angelika', '19740414', '', '105177505',
+  'Techniker Krankenkasse', '46', 'Y207887976', '1', '00', '00',
+  '469601100', '948301053', '20231116', 'W', '', '', '60322', 'Frankfurt',
+  'Sömmerringstr.', '12', 'D', '', '', '', '', '', '', 'Radiologie', '', '3',
+  '', 'bek. Multiple Sklerose, Thx: Thx- frei',
+  '', 'Erbitte cMRT ohne Kontrast zur Befunddynamik'
+];
+
+describe('scoreLayoutFit', () => {
+  it('scores a payload in its own layout as a full fit', () => {
+    const fit = scoreLayoutFit(getMuster6Schema(), MUSTER_6_V10);
+    assert.equal(fit.score, 1);
+    assert.deepEqual(fit.mismatchedFields, []);
+    assert.ok(fit.checkedFields > 10);
+    assert.equal(scoreLayoutFit(getMuster6SchemaV11(), MUSTER_6_V11).score, 1);
+  });
+
+  it('names the fields that do not fit a shifted layout', () => {
+    const fit = scoreLayoutFit(getMuster6SchemaV11(), MUSTER_6_V10);
+    assert.ok(fit.score < 0.75, `score ${fit.score}`);
+    // Column 6 holds the birth date in the old layout but the IK in the new one
+    assert.ok(fit.mismatchedFields.includes('kostentraegerkennung'), fit.mismatchedFields.join(', '));
+  });
+
+  it('counts values beyond the layout as mismatches', () => {
+    const fit = scoreLayoutFit(getMuster6Schema(), [...MUSTER_6_V10, 'extra']);
+    assert.ok(fit.mismatchedFields.includes(`[${MUSTER_6_V10.length}]`));
+    assert.equal(fit.score, (fit.checkedFields - 1) / fit.checkedFields);
+  });
+
+  it('scores zero when nothing can be checked', () => {
+    const schema: FormSchema = { formCode: '99', name: 'Free text', fields: [{ index: 0, name: 'text', type: 'string' }] };
+    assert.deepEqual(scoreLayoutFit(schema, ['anything']), { schema, score: 0, checkedFields: 0, mismatchedFields: [] });
+  });
+
+  it('ranks the better fitting layout first', () => {
+    const layouts = [getMuster6Schema(), getMuster6SchemaV11()];
+    assert.equal(rankLayouts(layouts, MUSTER_6_V10)[0].schema, layouts[0]);
+    assert.equal(rankLayouts(layouts, MUSTER_6_V11)[0].schema, layouts[1]);
+  });
+
+  it('maps scores to confidence levels', () => {
+    assert.equal(getLayoutConfidence(0.9), 'high');
+    assert.equal(getLayoutConfidence(0.75), 'medium');
+    assert.equal(getLayoutConfidence(0.74), 'low');
+  });
+});
+
+describe('Muster 6 layout selection', () => {
+  const parser = new PDF417HealthcareParser();
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('reads a version 10 payload with the layout of versions 01-10', () => {
+    const result = parser.parse(MUSTER_6_V10.join('\t'));
+    assert.equal(result.schema?.validFromVersion, '01');
+    assert.equal(result.schema?.validUntilVersion, '10');
+    assert.equal(result.data.nachname, 'Schmidt');
+    assert.ok(!result.issues.some(issue => issue.code === 'schemaVersionFallback' || issue.code === 'layoutFit'));
+  });
+
+  it('reads a version 11 payload with the layout from version 11', () => {
+    const result = parser.parse(MUSTER_6_V11.join('\t'));
+    assert.equal(result.schema?.validFromVersion, '11');
+    assert.equal(result.data.nachname, 'Leuthäuser');
+    assert.equal(result.layoutCandidates?.length, 2);
+    assert.equal(result.layoutCandidates?.[0].schema.validFromVersion, '11');
+  });
+
+  it('switches to the old layout when a version 11 header sits in the old columns', () => {
+    const result = parser.parse(MUSTER_6_V10.map((value, index) => (index === 2 ? '11' : value)).join('\t'));
+    assert.equal(result.schema?.validUntilVersion, '10');
+    assert.equal(result.layoutFit?.score, 1);
+    assert.equal(result.data.nachname, 'Schmidt');
+    assert.ok(result.issues.some(issue => issue.code === 'schemaVersionFallback'));
+  });
+
+  it('keeps the version-resolved layout when another layout scores the same', () => {
+    // Two layouts with identical columns; the payload's version selects the second
+    const first: FormSchema = { ...getMuster6Schema(), validFromVersion: '01', validUntilVersion: '05' };
+    const second: FormSchema = { ...getMuster6Schema(), validFromVersion: '06', validUntilVersion: '10' };
+    const tieParser = new PDF417HealthcareParser({ registry: new FormSchemaRegistry([first, second]) });
+
+    const result = tieParser.parse(MUSTER_6_V10.join('\t'));
+    assert.deepEqual(result.layoutCandidates?.map(candidate => candidate.score), [1, 1]);
+    assert.equal(result.layoutCandidates?.[0].schema.validFromVersion, '01');
+    assert.equal(result.schema?.validFromVersion, '06');
+    assert.ok(!result.issues.some(issue => issue.code === 'schemaVersionFallback'));
+  });
+});
@@ -0,0 +1,115 @@
+// Purpose: Layout detection for PDF417 barcodes whose columns may be shifted
+// Scores how well raw values fit each candidate layout's field types, lengths and allowed values
+
+import { BarcodeFieldDefinition, FormSchema, LayoutConfidence } from '@/types/healthcare';
+import { validateIdentifier } from './identifiers';
+import { validateDate } from './utils';
+
+// Minimum scores for a layout to count as a high or medium confidence match
+export const LAYOUT_FIT_THRESHOLDS = {
+  high: 0.9,
+  medium: 0.75
+};
+
+export interface LayoutFitScore {
+  schema: FormSchema;
+  score: number; // Share of checked fields whose values fit the layout (0-1)
+  checkedFields: number; // Fields with a value or a constraint that could be checked
+  mismatchedFields: string[]; // Fields whose values violate the layout's constraints
+}
+
+/**
+ * Score every candidate layout against the raw fields, best fit first
+ */
+export function rankLayouts(schemas: FormSchema[], fields: string[]): LayoutFitScore[] {
+  return schemas
+    .map(schema => scoreLayoutFit(schema, fields))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Score one layout. Only fields that carry a constraint (type, length, allowed values,
+ * identifier format, required) or a value outside every field of the layout are counted.
+ */
+export function scoreLayoutFit(schema: FormSchema, fields: string[]): LayoutFitScore {
+  let checkedFields = 0;
+  const mismatchedFields: string[] = [];
+  const coveredIndexes = new Set<number>();
+
+  const check = (fieldDef: BarcodeFieldDefinition, fieldName: string, index: number) => {
+    coveredIndexes.add(index);
+    const value = fields[index] || '';
+    const fits = fieldValueFits(fieldDef, value);
+    if (fits === undefined) {
+      return;
+    }
+    checkedFields++;
+    if (!fits) {
+      mismatchedFields.push(fieldName);
+    }
+  };
+
+  schema.fields.forEach(fieldDef => check(fieldDef, fieldDef.name, fieldDef.index));
+  schema.groups?.forEach(group => {
+    for (let entry = 0; entry < group.count; entry++) {
+      const entryStart = group.startIndex + entry * group.fields.length;
+      group.fields.forEach(fieldDef =>
+        check(fieldDef, `${group.name}[${entry}].${fieldDef.name}`, entryStart + fieldDef.index)
+      );
+    }
+  });
+
+  // Values the layout has no column for suggest the columns are shifted
+  fields.forEach((value, index) => {
+    if (value && !coveredIndexes.has(index)) {
+      checkedFields++;
+      mismatchedFields.push(`[${index}]`);
+    }
+  });
+
+  return {
+    schema,
+    score: checkedFields > 0 ? (checkedFields - mismatchedFields.length) / checkedFields : 0,
+    checkedFields,
+    mismatchedFields
+  };
+}
+
+export function getLayoutConfidence(score: number): LayoutConfidence {
+  if (score >= LAYOUT_FIT_THRESHOLDS.high) return 'high';
+  if (score >= LAYOUT_FIT_THRESHOLDS.medium) return 'medium';
+  return 'low';
+}
+
+/**
+ * Whether a value fits its field definition; undefined if the field gives nothing to check
+ */
+function fieldValueFits(fieldDef: BarcodeFieldDefinition, value: string): boolean | undefined {
+  if (!value) {
+    return fieldDef.required ? false : undefined;
+  }
+
+  // The version number is the only header field with a fixed shape
+  if (fieldDef.name === 'versionsnummer') {
+    return /^\d{1,2}$/.test(value);
+  }
+
+  const hasConstraint = fieldDef.type === 'date' || fieldDef.type === 'numeric' ||
+    fieldDef.maxLength !== undefined || fieldDef.allowedValues !== undefined || fieldDef.format !== undefined;
+  if (!hasConstraint) {
+    return fieldDef.required ? true : undefined;
+  }
+
+  if (fieldDef.maxLength !== undefined && value.length > fieldDef.maxLength) return false;
+  if (fieldDef.allowedValues && !fieldDef.allowedValues.includes(value)) return false;
+  if (fieldDef.type === 'numeric' && !/^\d+$/.test(value)) return false;
+  if (fieldDef.type === 'date' && !validateDate(value, fieldDef.allowPartialDate)) return false;
+
+  if (fieldDef.format) {
+    const check = validateIdentifier(fieldDef.format, value);
+    // Region warnings (e.g., unknown BSNR prefix) still fit the column
+    if (!check.valid && (check.severity || 'error') === 'error') return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,70 @@
+// Purpose: Tests for the LDT 3 order export of Muster 10 lab requests
+// The expected package is written out line by line; LDT 3 records have no record length (8100)
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { LdtWriter } from './ldt-writer';
+
+const MUSTER_10 = {
+  formularcode: '10', anforderungsIdent: 'REQ12345', nachname: 'Mustermann', vorname: 'Max', titel: 'Dr.',
+  geburtsdatum: '1985-06-15', geschlecht: 'M', strasse: 'Maximilianstraße', hausnummer: '1', plz: '80331', ort: 'München',
+  versichertenId: 'A123456780', kostentraegerkennung: '108310400', kostentraegername: 'AOK Bayern',
+  versicherungsschutzEnde: '2024-12-31', versichertenart: '1', besonderePersonengruppe: '00', dmpKennzeichnung: '01',
+  bsnrErstveranlasser: '711234500', lanrErstveranlasser: '987654421', ausstellungsdatum: '2024-12-26',
+  diagnose: 'V70.9 - Routineuntersuchung', befundkopie: 'Ja', auftrag: 'Blutbild, Leberwerte'
+};
+
+const EXPECTED_LINES = [
+  // P-Datenpaket-Header
+  '01380008230', '0180001LDT3.2.19',
+  '0178002Obj_0054', '017727820241227', '0157279093005', '0178003Obj_0054',
+  // Auftrag
+  '01380008215',
+  '0178002Obj_0013', '0178310REQ12345', '0364207V70.9 - Routineuntersuchung', '0294205Blutbild, Leberwerte',
+  '0244209Befundkopie: Ja', '0178003Obj_0013',
+  '0178002Obj_0022',
+  '0178002Obj_0019', '0180201711234500', '0178003Obj_0019',
+  '0178002Obj_0014', '0180212987654421', '0178003Obj_0014',
+  '0178003Obj_0022',
+  '0178002Obj_0045', '0193119A123456780',
+  '0178002Obj_0047', '0193101Mustermann', '0123102Max', '0123104Dr.', '017310319850615', '0103110M',
+  '0253107Maximilianstraße', '01031091', '014311280331', '0163113München', '0178003Obj_0047',
+  '0178003Obj_0045',
+  '0178002Obj_0001', '017410220241226', '0184111108310400', '0194134AOK Bayern', '017411020241231',
+  '01031081', '011413100', '011413201', '0184217711234500', '0184241987654421', '0178003Obj_0001',
+  // P-Datenpaket-Abschluss
+  '01380008231', '017920200000813'
+];
+
+describe('LdtWriter', () => {
+  const writer = new LdtWriter({ now: () => new Date(2024, 11, 27, 9, 30, 5) });
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('writes a Muster 10 order as a P-Datenpaket with object blocks', () => {
+    assert.deepEqual(writer.toText(MUSTER_10).split('\r\n').slice(0, -1), EXPECTED_LINES);
+  });
+
+  it('states the byte length of the encoded package in the trailer', () => {
+    const bytes = writer.toBytes(MUSTER_10);
+    assert.equal(bytes.length, 813);
+    assert.ok(!writer.toText(MUSTER_10).split('\r\n').some(line => line.slice(3, 7) === '8100'));
+  });
+
+  it('leaves out objects without values', () => {
+    const text = writer.toText({ formularcode: '10', nachname: 'Mustermann' });
+    assert.ok(text.includes('Obj_0047'));
+    assert.ok(!text.includes('Obj_0001'));
+    assert.ok(!text.includes('Obj_0022'));
+  });
+
+  it('rejects forms other than Muster 10', () => {
+    assert.throws(() => writer.createRecords({ ...MUSTER_10, formularcode: '06' }), /only available for Muster 10/);
+  });
+});
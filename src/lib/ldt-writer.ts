@@ -0,0 +1,202 @@
+// Purpose: LDT 3 (Labordatentransfer) order export for Muster 10 lab requests
+// Builds a P-Datenpaket (practice to lab) of header (8230), order (8215) and trailer (8231) records
+// whose content is grouped in LDT 3 objects (8002 Obj_… to 8003 Obj_…) for import into the lab's LIS
+
+import { XdtField, XdtRecord, encodeIso885915, serializeXdtRecords } from './xdt';
+import { toGermanDate } from './utils';
+import { FormSchemaRegistry } from './schema-registry';
+
+export interface LdtWriterOptions {
+  version?: string; // Version der Satzbeschreibung (field 0001)
+  now?: () => Date; // Source of the creation timestamp
+}
+
+const DEFAULT_LDT_VERSION = 'LDT3.2.19';
+
+// Satzarten of a P-Datenpaket
+const SATZART = {
+  header: '8230', // P-Datenpaket-Header
+  order: '8215', // Auftrag
+  trailer: '8231' // P-Datenpaket-Abschluss
+};
+
+// Objects of the LDT 3 Objektkatalog (content of fields 8002/8003)
+const OBJ = {
+  abrechnungGkv: 'Obj_0001', // Obj_Abrechnung_GKV
+  auftragsinformation: 'Obj_0013', // Obj_Auftragsinformation
+  arztidentifikation: 'Obj_0014', // Obj_Arztidentifikation
+  betriebsstaette: 'Obj_0019', // Obj_Betriebsstaette
+  einsenderidentifikation: 'Obj_0022', // Obj_Einsenderidentifikation
+  patient: 'Obj_0045', // Obj_Patient
+  person: 'Obj_0047', // Obj_Person
+  timestamp: 'Obj_0054' // Obj_Timestamp
+};
+
+// Field identifiers (Feldkennungen) used in the package
+const FK = {
+  objectStart: '8002',
+  objectEnd: '8003',
+  version: '0001',
+  bsnr: '0201',
+  lanr: '0212',
+  timestampDatum: '7278',
+  timestampUhrzeit: '7279',
+  gesamtlaenge: '9202',
+  anforderungsIdent: '8310',
+  auftrag: '4205',
+  diagnose: '4207',
+  zusatzinformation: '4209',
+  nachname: '3101',
+  vorname: '3102',
+  geburtsdatum: '3103',
+  titel: '3104',
+  strasse: '3107',
+  versichertenart: '3108',
+  hausnummer: '3109',
+  geschlecht: '3110',
+  plz: '3112',
+  ort: '3113',
+  wop: '3116',
+  versichertenId: '3119',
+  ausstellungsdatum: '4102',
+  versicherungsschutzEnde: '4110',
+  kostentraegerkennung: '4111',
+  besonderePersonengruppe: '4131',
+  dmpKennzeichnung: '4132',
+  kostentraegername: '4134',
+  bsnrErstveranlasser: '4217',
+  bsnrUeberweiser: '4218',
+  lanrErstveranlasser: '4241',
+  lanrUeberweiser: '4242'
+};
+
+const TOTAL_LENGTH_DIGITS = 8;
+
+export class LdtWriter {
+  private version: string;
+  private now: () => Date;
+
+  constructor(options: LdtWriterOptions = {}) {
+    this.version = options.version || DEFAULT_LDT_VERSION;
+    this.now = options.now || (() => new Date());
+  }
+
+  /**
+   * Header and order records for a Muster 10 lab request (the trailer is added on serialization)
+   */
+  createRecords(data: Record<string, unknown>): XdtRecord[] {
+    const formCode = FormSchemaRegistry.normalizeFormCode(String(data.formularcode || ''));
+    if (formCode !== '10') {
+      throw new Error(`LDT export is only available for Muster 10 (got Muster ${formCode})`);
+    }
+
+    const text = (field: string) => {
+      const value = data[field];
+      return value === undefined || value === null || typeof value === 'object' ? '' : String(value).trim();
+    };
+    const date = (field: string) => toGermanDate(text(field)) ?? text(field);
+    const bsnr = text('bsnrErstveranlasser');
+    const lanr = text('lanrErstveranlasser');
+    const field = (id: string, value: string): XdtField => ({ id, value });
+    const now = this.now();
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    const header: XdtRecord = {
+      type: SATZART.header,
+      fields: [
+        field(FK.version, this.version),
+        ...this.object(OBJ.timestamp, [
+          field(FK.timestampDatum, `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`),
+          field(FK.timestampUhrzeit, `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`)
+        ])
+      ]
+    };
+
+    const order: XdtRecord = {
+      type: SATZART.order,
+      fields: [
+        ...this.object(OBJ.auftragsinformation, [
+          field(FK.anforderungsIdent, text('anforderungsIdent')),
+          field(FK.diagnose, text('diagnose')),
+          field(FK.diagnose, text('verdachtsdiagnose') && `V.a. ${text('verdachtsdiagnose')}`),
+          field(FK.auftrag, text('auftrag')),
+          field(FK.zusatzinformation, text('befundkopie') && `Befundkopie: ${text('befundkopie')}`)
+        ]),
+        // Einsender: the practice ids of the initiating physician are mandatory for the lab's billing
+        ...this.object(OBJ.einsenderidentifikation, [
+          ...this.object(OBJ.betriebsstaette, [field(FK.bsnr, bsnr)]),
+          ...this.object(OBJ.arztidentifikation, [field(FK.lanr, lanr)])
+        ]),
+        ...this.object(OBJ.patient, [
+          field(FK.versichertenId, text('versichertenId')),
+          ...this.object(OBJ.person, [
+            field(FK.nachname, text('nachname')),
+            field(FK.vorname, text('vorname')),
+            field(FK.titel, text('titel')),
+            field(FK.geburtsdatum, date('geburtsdatum')),
+            field(FK.geschlecht, text('geschlecht')),
+            field(FK.strasse, text('strasse')),
+            field(FK.hausnummer, text('hausnummer')),
+            field(FK.plz, text('plz')),
+            field(FK.ort, text('ort'))
+          ])
+        ]),
+        // Muster 10 is a statutory form; the lab bills it through the KV
+        ...this.object(OBJ.abrechnungGkv, [
+          field(FK.ausstellungsdatum, date('ausstellungsdatum')),
+          field(FK.kostentraegerkennung, text('kostentraegerkennung')),
+          field(FK.kostentraegername, text('kostentraegernameVerzeichnis') || text('kostentraegername')),
+          field(FK.versicherungsschutzEnde, date('versicherungsschutzEnde')),
+          field(FK.versichertenart, text('versichertenart')),
+          field(FK.besonderePersonengruppe, text('besonderePersonengruppe')),
+          field(FK.dmpKennzeichnung, text('dmpKennzeichnung')),
+          field(FK.wop, text('wopKennzeichen')),
+          field(FK.bsnrErstveranlasser, bsnr),
+          field(FK.lanrErstveranlasser, lanr),
+          field(FK.bsnrUeberweiser, text('bsnrUeberweiser')),
+          field(FK.lanrUeberweiser, text('lanrUeberweiser'))
+        ])
+      ]
+    };
+
+    if (!bsnr || !lanr) {
+      console.log('[LdtWriter] Order without BSNR/LANR of the initiating physician');
+    }
+    return [header, order];
+  }
+
+  /**
+   * LDT data package as text, including the trailer with the total package length
+   * (LDT 3 records carry no record length field 8100, unlike LDT 2 and GDT)
+   */
+  toText(data: Record<string, unknown>): string {
+    const body = serializeXdtRecords(this.createRecords(data));
+    const trailer = (totalLength: number) => serializeXdtRecords([{
+      type: SATZART.trailer,
+      fields: [{ id: FK.gesamtlaenge, value: String(totalLength).padStart(TOTAL_LENGTH_DIGITS, '0') }]
+    }]);
+    // The trailer has a fixed length, so it can be measured with a placeholder
+    const totalLength = Array.from(body).length + trailer(0).length;
+    const ldt = body + trailer(totalLength);
+
+    console.log(`[LdtWriter] Wrote LDT package (${totalLength} bytes)`);
+    return ldt;
+  }
+
+  /**
+   * LDT data package encoded as ISO-8859-15, ready to be written to a .ldt file
+   */
+  toBytes(data: Record<string, unknown>): Uint8Array {
+    return encodeIso885915(this.toText(data));
+  }
+
+  /**
+   * Wrap fields in an object (8002 … 8003); objects without any value are left out
+   */
+  private object(id: string, fields: XdtField[]): XdtField[] {
+    if (!fields.some(field => field.value !== '')) {
+      return [];
+    }
+    return [{ id: FK.objectStart, value: id }, ...fields, { id: FK.objectEnd, value: id }];
+  }
+}
@@ -0,0 +1,89 @@
+// Purpose: Tests for MLLP sending against the local stub receiver (scripts/mllp-stub.mjs)
+// Each case starts the stub on a free port with the ACK behaviour under test
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChildProcess, spawn } from 'child_process';
+import { once } from 'events';
+import path from 'path';
+import { Hl7OrmExporter } from './hl7-orm';
+import { sendMllpMessage } from './mllp-client';
+
+const STUB_PATH = path.join(__dirname, '../../scripts/mllp-stub.mjs');
+const CONTROL_ID = 'MSG0001';
+
+const message = new Hl7OrmExporter({ controlIdGenerator: () => CONTROL_ID }).createMessage({
+  formularcode: '10', anforderungsIdent: 'REQ12345', nachname: 'Mustermann', vorname: 'Max',
+  geburtsdatum: '1985-06-15', versichertenId: 'A123456780', kostentraegerkennung: '108310400'
+});
+
+/**
+ * Start the stub with the given environment and resolve with the port it listens on
+ */
+async function startStub(env: Record<string, string> = {}): Promise<{ stub: ChildProcess; port: number }> {
+  const stub = spawn(process.execPath, [STUB_PATH, '0'], {
+    env: { ...process.env, HL7_MLLP_PORT: '', MLLP_STUB_ACK: 'AA', ...env },
+    stdio: ['ignore', 'pipe', 'inherit']
+  });
+  let output = '';
+  stub.stdout!.setEncoding('utf8');
+  for await (const chunk of stub.stdout!) {
+    output += chunk;
+    const match = output.match(/Listening on port (\d+)/);
+    if (match) {
+      stub.stdout!.resume();
+      return { stub, port: Number(match[1]) };
+    }
+  }
+  throw new Error(`MLLP stub did not start: ${output}`);
+}
+
+async function sendToStub(env: Record<string, string> = {}) {
+  const { stub, port } = await startStub(env);
+  try {
+    return await sendMllpMessage(message, { host: '127.0.0.1', port, timeoutMs: 5000 });
+  } finally {
+    stub.kill();
+    await once(stub, 'exit');
+  }
+}
+
+describe('sendMllpMessage', () => {
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('accepts an AA for the sent control id', async () => {
+    const ack = await sendToStub();
+    assert.deepEqual({ code: ack.code, accepted: ack.accepted, controlId: ack.controlId }, {
+      code: 'AA', accepted: true, controlId: CONTROL_ID
+    });
+  });
+
+  it('reports AE and AR acknowledgements as not accepted', async () => {
+    for (const code of ['AE', 'AR']) {
+      const ack = await sendToStub({ MLLP_STUB_ACK: code });
+      assert.equal(ack.code, code);
+      assert.equal(ack.accepted, false);
+      assert.equal(ack.text, 'Rejected by MLLP stub');
+    }
+  });
+
+  it('rejects an ACK whose MSA-2 names another message', async () => {
+    await assert.rejects(
+      sendToStub({ MLLP_STUB_ACK_ID: 'MSG9999' }),
+      /ACK is for message MSG9999, but message MSG0001 was sent/
+    );
+  });
+
+  it('rejects when nothing listens on the port', async () => {
+    const { stub, port } = await startStub();
+    stub.kill();
+    await once(stub, 'exit');
+    await assert.rejects(sendMllpMessage(message, { host: '127.0.0.1', port, timeoutMs: 5000 }));
+  });
+});
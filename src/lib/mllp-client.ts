@@ -0,0 +1,68 @@
+// Purpose: Send HL7 v2 messages over MLLP (Minimal Lower Layer Protocol) and wait for the ACK
+// Node.js only (raw TCP); the browser reaches it through the /api/hl7 route
+
+import { Socket } from 'net';
+import { Hl7Ack, parseHl7Ack, readHl7ControlId } from './hl7-orm';
+
+export interface MllpOptions {
+  host: string;
+  port: number;
+  timeoutMs?: number; // Connect and ACK timeout (default 10 s)
+}
+
+// MLLP frame: <VT> message <FS><CR>
+export const MLLP_START = '\x0b';
+export const MLLP_END = '\x1c\r';
+
+/**
+ * Send one message and resolve with the parsed acknowledgement; rejects ACKs for a different control id
+ */
+export function sendMllpMessage(message: string, options: MllpOptions): Promise<Hl7Ack> {
+  const timeoutMs = options.timeoutMs ?? 10000;
+  const controlId = readHl7ControlId(message);
+
+  return new Promise((resolve, reject) => {
+    const socket = new Socket();
+    let buffer = '';
+    let settled = false;
+    const finish = (error: Error | null, ack?: Hl7Ack) => {
+      if (settled) return;
+      settled = true;
+      socket.destroy();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(ack!);
+      }
+    };
+
+    socket.setEncoding('utf8');
+    socket.setTimeout(timeoutMs, () => finish(new Error(`No ACK from ${options.host}:${options.port} within ${timeoutMs} ms`)));
+    socket.on('error', error => finish(error));
+    socket.on('close', () => finish(new Error('Connection closed before an ACK was received')));
+    socket.on('data', chunk => {
+      buffer += chunk;
+      const start = buffer.indexOf(MLLP_START);
+      const end = buffer.indexOf(MLLP_END, start + 1);
+      if (start === -1 || end === -1) return;
+
+      try {
+        const ack = parseHl7Ack(buffer.slice(start + 1, end));
+        console.log(`[MLLP] ACK ${ack.code} for ${ack.controlId}`);
+        // MSA-2 must echo the MSH-10 we sent; anything else acknowledges another message
+        if (controlId && ack.controlId !== controlId) {
+          finish(new Error(`ACK is for message ${ack.controlId || '(no control id)'}, but message ${controlId} was sent`));
+          return;
+        }
+        finish(null, ack);
+      } catch (error) {
+        finish(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+
+    socket.connect(options.port, options.host, () => {
+      console.log(`[MLLP] Sending ${message.length} characters to ${options.host}:${options.port}`);
+      socket.write(MLLP_START + message + MLLP_END, 'utf8');
+    });
+  });
+}
@@ -0,0 +1,103 @@
+// Purpose: Decode PNG, JPEG, TIFF and PDF files to RGBA pixel buffers without a DOM
+// Node.js only (pngjs needs Buffer); feeds PixelBarcodeScanner in API routes and the CLI
+
+import { PNG } from 'pngjs';
+import * as jpeg from 'jpeg-js';
+import * as UTIF from 'utif';
+import { RgbaImage } from './pixel-scanner';
+import { extractPdfPageImages } from './pdf-image-extractor';
+
+export type ImageFormat = 'png' | 'jpeg' | 'tiff' | 'pdf';
+
+// Limits protect the server from decompression bombs
+const MAX_RESOLUTION_MP = 60;
+const MAX_MEMORY_MB = 512;
+
+/**
+ * Detect the image format from the file signature
+ */
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (bytes.length >= 24 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return 'png';
+  }
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'jpeg';
+  }
+  // Little-endian "II*\0" or big-endian "MM\0*"
+  if (bytes.length >= 8 && ((bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 0x2a && bytes[3] === 0x00) ||
+      (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0x00 && bytes[3] === 0x2a))) {
+    return 'tiff';
+  }
+  if (bytes.length >= 5 && String.fromCharCode(...bytes.subarray(0, 5)) === '%PDF-') {
+    return 'pdf';
+  }
+  return null;
+}
+
+/**
+ * Decode a PNG, JPEG or single-page TIFF file; throws for other formats and corrupt files
+ */
+export function decodeImage(bytes: Uint8Array): RgbaImage {
+  const format = detectImageFormat(bytes);
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  switch (format) {
+    case 'png': {
+      // IHDR dimensions, checked before inflating the pixel data
+      const megapixels = buffer.readUInt32BE(16) * buffer.readUInt32BE(20) / 1e6;
+      if (megapixels > MAX_RESOLUTION_MP) {
+        throw new Error(`Image too large (${megapixels.toFixed(1)} MP, maximum ${MAX_RESOLUTION_MP} MP)`);
+      }
+      const png = PNG.sync.read(buffer);
+      console.log(`[ImageDecoder] PNG ${png.width}x${png.height}`);
+      return { width: png.width, height: png.height, data: png.data };
+    }
+    case 'jpeg': {
+      const image = jpeg.decode(buffer, {
+        useTArray: true,
+        formatAsRGBA: true,
+        maxResolutionInMP: MAX_RESOLUTION_MP,
+        maxMemoryUsageInMB: MAX_MEMORY_MB
+      });
+      console.log(`[ImageDecoder] JPEG ${image.width}x${image.height}`);
+      return { width: image.width, height: image.height, data: image.data };
+    }
+    case 'tiff':
+      return decodeTiffPages(bytes)[0];
+    default:
+      throw new Error(`Unsupported image format${format ? ` ${format.toUpperCase()}` : ''} (expected PNG, JPEG or TIFF)`);
+  }
+}
+
+/**
+ * Decode every page of a file: one image for PNG and JPEG, all pages of multi-page TIFF and PDF files
+ */
+export async function decodeImagePages(bytes: Uint8Array): Promise<RgbaImage[]> {
+  switch (detectImageFormat(bytes)) {
+    case 'pdf':
+      return extractPdfPageImages(bytes);
+    case 'tiff':
+      return decodeTiffPages(bytes);
+    default:
+      return [decodeImage(bytes)];
+  }
+}
+
+function decodeTiffPages(bytes: Uint8Array): RgbaImage[] {
+  const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  const tag = (ifd: UTIF.IFD, id: number) => Number((ifd[`t${id}`] as number[] | undefined)?.[0] || 0);
+  // Directories without image size (EXIF) and reduced-resolution thumbnails (NewSubfileType bit 0) are no pages
+  const pages = UTIF.decode(buffer).filter(ifd => tag(ifd, 256) > 0 && (tag(ifd, 254) & 1) === 0);
+  if (pages.length === 0) {
+    throw new Error('TIFF file contains no images');
+  }
+
+  return pages.map((ifd, pageIndex) => {
+    if (tag(ifd, 256) * tag(ifd, 257) / 1e6 > MAX_RESOLUTION_MP) {
+      throw new Error(`TIFF page ${pageIndex + 1} too large (maximum ${MAX_RESOLUTION_MP} MP)`);
+    }
+    UTIF.decodeImage(buffer, ifd);
+    console.log(`[ImageDecoder] TIFF page ${pageIndex + 1}: ${ifd.width}x${ifd.height}`);
+    return { width: ifd.width, height: ifd.height, data: UTIF.toRGBA8(ifd) };
+  });
+}
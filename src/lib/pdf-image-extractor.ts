@@ -0,0 +1,153 @@
+// Purpose: Extract the scanned page images from PDF files as RGBA pixel buffers
+// Scanner PDFs embed one image per page; JPEG (DCTDecode) and Flate-compressed gray/RGB images are supported
+
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+import * as jpeg from 'jpeg-js';
+import { RgbaImage } from './pixel-scanner';
+
+/**
+ * The largest image of every page; pages without a supported image are skipped with a log message
+ */
+export async function extractPdfPageImages(bytes: Uint8Array): Promise<RgbaImage[]> {
+  const pdf = await PDFDocument.load(bytes, { ignoreEncryption: true, updateMetadata: false });
+  const images: RgbaImage[] = [];
+
+  pdf.getPages().forEach((page, pageIndex) => {
+    const xObjects = page.node.Resources()?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    const streams = (xObjects?.values() || [])
+      .map(ref => pdf.context.lookup(ref))
+      .filter((object): object is PDFRawStream =>
+        object instanceof PDFRawStream && object.dict.lookup(PDFName.of('Subtype')) === PDFName.of('Image')
+      )
+      .sort((a, b) => imageArea(b) - imageArea(a));
+
+    const errors: string[] = [];
+    for (const stream of streams) {
+      try {
+        images.push(decodePdfImage(stream));
+        return;
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+    console.log(`[PdfImageExtractor] Page ${pageIndex + 1}: no usable image${errors.length ? ` (${errors.join('; ')})` : ''}`);
+  });
+
+  console.log(`[PdfImageExtractor] Extracted ${images.length} images from ${pdf.getPageCount()} pages`);
+  return images;
+}
+
+function imageArea(stream: PDFRawStream): number {
+  const number = (key: string) => stream.dict.lookupMaybe(PDFName.of(key), PDFNumber)?.asNumber() || 0;
+  return number('Width') * number('Height');
+}
+
+function decodePdfImage(stream: PDFRawStream): RgbaImage {
+  const dict = stream.dict;
+  const filterObject = dict.lookup(PDFName.of('Filter'));
+  const filters = filterObject instanceof PDFArray
+    ? filterObject.asArray().map(filter => String(filter))
+    : filterObject ? [String(filterObject)] : [];
+
+  if (filters[filters.length - 1] === '/DCTDecode') {
+    if (filters.length > 1) {
+      throw new Error(`Unsupported filter chain ${filters.join(' ')}`);
+    }
+    const image = jpeg.decode(stream.contents, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: 60 });
+    return { width: image.width, height: image.height, data: image.data };
+  }
+  const unsupported = filters.find(filter => !['/FlateDecode', '/LZWDecode', '/ASCII85Decode', '/ASCIIHexDecode', '/RunLengthDecode'].includes(filter));
+  if (unsupported) {
+    throw new Error(`Unsupported image compression ${unsupported}`);
+  }
+
+  const width = dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() || 0;
+  const height = dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() || 0;
+  const isMask = String(dict.lookup(PDFName.of('ImageMask'))) === 'true';
+  const bitsPerComponent = isMask ? 1 : dict.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)?.asNumber() || 8;
+  const components = isMask ? 1 : colorComponents(dict.lookup(PDFName.of('ColorSpace')));
+  if (bitsPerComponent !== 1 && bitsPerComponent !== 8) {
+    throw new Error(`Unsupported bit depth ${bitsPerComponent}`);
+  }
+
+  const rowBytes = Math.ceil(width * components * bitsPerComponent / 8);
+  let samples = decodePDFRawStream(stream).decode();
+  const parms = dict.lookup(PDFName.of('DecodeParms'));
+  const predictor = parms instanceof PDFDict ? parms.lookupMaybe(PDFName.of('Predictor'), PDFNumber)?.asNumber() || 1 : 1;
+  if (predictor >= 10) {
+    samples = undoPngPredictor(samples, rowBytes, Math.max(1, Math.ceil(components * bitsPerComponent / 8)), height);
+  } else if (predictor !== 1) {
+    throw new Error(`Unsupported predictor ${predictor}`);
+  }
+
+  // 1-bit images: 0 is black (image masks paint the 0 bits) unless /Decode [1 0] inverts it
+  const decode = dict.lookupMaybe(PDFName.of('Decode'), PDFArray)?.asArray().map(value => Number(String(value)));
+  const invert = decode?.[0] === 1;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      const source = y * rowBytes + x * components;
+      if (bitsPerComponent === 1) {
+        const bit = (samples[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        data.fill((bit === 1) !== invert ? 255 : 0, target, target + 3);
+      } else if (components === 1) {
+        data.fill(samples[source], target, target + 3);
+      } else if (components === 3) {
+        data.set(samples.subarray(source, source + 3), target);
+      } else {
+        const black = 1 - samples[source + 3] / 255;
+        for (let channel = 0; channel < 3; channel++) {
+          data[target + channel] = (255 - samples[source + channel]) * black;
+        }
+      }
+      data[target + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+function colorComponents(colorSpace: unknown): number {
+  const name = colorSpace instanceof PDFArray ? String(colorSpace.get(0)) : String(colorSpace);
+  if (name === '/DeviceGray' || name === '/CalGray') return 1;
+  if (name === '/DeviceRGB' || name === '/CalRGB') return 3;
+  if (name === '/DeviceCMYK') return 4;
+  if (name === '/ICCBased' && colorSpace instanceof PDFArray) {
+    const profile = colorSpace.lookup(1);
+    const count = profile instanceof PDFRawStream ? profile.dict.lookupMaybe(PDFName.of('N'), PDFNumber)?.asNumber() : undefined;
+    if (count === 1 || count === 3 || count === 4) return count;
+  }
+  throw new Error(`Unsupported color space ${name}`);
+}
+
+/**
+ * Reverse the PNG row filters used with /Predictor 10-15
+ */
+function undoPngPredictor(input: Uint8Array, rowBytes: number, bytesPerPixel: number, height: number): Uint8Array {
+  const output = new Uint8Array(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    const filter = input[y * (rowBytes + 1)];
+    const source = y * (rowBytes + 1) + 1;
+    const target = y * rowBytes;
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bytesPerPixel ? output[target + i - bytesPerPixel] : 0;
+      const up = y > 0 ? output[target - rowBytes + i] : 0;
+      const upLeft = y > 0 && i >= bytesPerPixel ? output[target - rowBytes + i - bytesPerPixel] : 0;
+      const raw = input[source + i];
+      switch (filter) {
+        case 1: output[target + i] = raw + left; break;
+        case 2: output[target + i] = raw + up; break;
+        case 3: output[target + i] = raw + ((left + up) >> 1); break;
+        case 4: {
+          const estimate = left + up - upLeft;
+          const distances = [Math.abs(estimate - left), Math.abs(estimate - up), Math.abs(estimate - upLeft)];
+          const predicted = distances[0] <= distances[1] && distances[0] <= distances[2] ? left : distances[1] <= distances[2] ? up : upLeft;
+          output[target + i] = raw + predicted;
+          break;
+        }
+        default: output[target + i] = raw;
+      }
+    }
+  }
+  return output;
+}
@@ -0,0 +1,194 @@
+// Purpose: Round-trip tests for the PDF417 encoder against every built-in layout
+// parse(serialize(data)) must reproduce the parsed data and the layout it was read with
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { getDefaultFormSchemas } from './form-schemas';
+import { PDF417HealthcareEncoder } from './pdf417-encoder';
+import { PDF417HealthcareParser } from './pdf417-parser';
+
+interface RoundTripFixture {
+  name: string;
+  schema: string; // Expected layout: schema name and validFromVersion
+  fields: string[]; // Raw barcode fields
+}
+
+const MUSTER_6_V05 = [
+  '06', '', '05', '', 'Schmidt', 'Klara', '19620315', '', '105177505',
+  'Techniker Krankenkasse', '46', 'Y207887976', '1', '00', '00',
+  '469601100', '948301053', '20231116', 'W', 'Dr.', '', '', '60322', 'Frankfurt',
+  'Sömmerringstr.', '12', '', 'Innere Medizin', '', '', '', '', '', '', '',
+  'Kardiologie', '', '', '', 'I10.90', 'Abklärung Belastungsdyspnoe'
+];
+
+const MUSTER_6_V11 = [
+  '06', '11', 'Leuthäuser', 'Angelika', '19740414', '', '105177505',
+  'Techniker Krankenkasse', '46', 'Y207887976', '1', '00', '00',
+  '469601100', '948301053', '20231116', 'W', '', '', '60322', 'Frankfurt',
+  'Sömmerringstr.', '12', 'D', '', '', '', '', '', '', 'Radiologie', '', '3',
+  '', 'bek. Multiple Sklerose, Thx: Thx- frei',
+  '', 'Erbitte cMRT ohne Kontrast zur Befunddynamik'
+];
+
+const MUSTER_16 = [
+  '16', 'a', '01', 'Fischer', 'Maria', '19751120', '20251231',
+  '104940005', 'BARMER', '20', 'D888999008', '1', '00', '00',
+  '201234500', '567890001', '20241226', 'W', '', '44135', 'Dortmund', 'Westenhellweg', '9',
+  '0', '1', '0', '0', '1', '0', '20241220', 'Stahlbau Ruhr GmbH', '0', '0', '0', '0', '0',
+  '01234562', 'Ibuprofen 600 mg Filmtabletten', '1', 'N2', '1-1-1', '0',
+  '12345678', 'Pantoprazol 20 mg', '1', 'N1', '1-0-0', '1',
+  '', 'Salbutamol Dosieraerosol', '2', 'N1', 'bei Bedarf', '0'
+];
+
+// Insurance, provider and address block of the Blankoformular layouts (indices 6-22)
+const STANDARD_BLOCK = [
+  '20251231', '108310400', 'AOK Bayern', '71', 'W112233448', '1', '00', '00',
+  '711234500', '345678801', '20241226', 'W', '', '80331', 'München', 'Sendlinger Str.', '3'
+];
+
+const FIXTURES: RoundTripFixture[] = [
+  {
+    name: 'Muster 10',
+    schema: 'Muster 10 - Laborauftrag 01',
+    fields: [
+      '10', 'a', '01', 'REQ12345', 'Mustermann', 'Max', '19850615', '20241231',
+      '108310400', 'AOK Bayern', 'BY', 'A123456780', '1', '00', '01',
+      '711234500', '987654421', '711234500', '987654421', '20241226', 'M',
+      'Dr.', '80331', 'München', 'Maximilianstraße', '1',
+      'V70.9 - Routineuntersuchung', '', 'Ja', 'Blutbild, Leberwerte'
+    ]
+  },
+  { name: 'Muster 6 v01-10', schema: 'Muster 6 - Überweisung 01', fields: MUSTER_6_V05 },
+  { name: 'Muster 6 v11+', schema: 'Muster 6 - Überweisung 11', fields: MUSTER_6_V11 },
+  {
+    name: 'Muster 12',
+    schema: 'Muster 12 - Verordnung häuslicher Krankenpflege 01',
+    fields: [
+      '12', 'a', '01', 'Weber', 'Hans', '19401205', '20241231',
+      '104940005', 'Barmer GEK', 'C555666771', '1', '07',
+      '20241226', 'M', 'Hauptstraße', '15', '10115', 'Berlin'
+    ]
+  },
+  { name: 'Muster 16', schema: 'Muster 16 - Arzneiverordnung 01', fields: MUSTER_16 },
+  {
+    name: 'Muster 17',
+    schema: 'Muster 17 - Heilmittelverordnung Podologie 01',
+    fields: [
+      '17', 'a', '01', 'Schulz', 'Peter', '19520309', ...STANDARD_BLOCK,
+      'E11.74', 'NF', 'Hyperkeratose, Nagelverdickung', 'Neuropathie beidseits', 'Podologische Komplexbehandlung',
+      '6', '1x monatlich', '0', '1', '0', 'Vermeidung von Druckstellen'
+    ]
+  },
+  {
+    name: 'Muster 18',
+    schema: 'Muster 18 - Heilmittelverordnung Ergotherapie 01',
+    fields: [
+      '18', 'a', '01', 'Becker', 'Lena', '20150402', ...STANDARD_BLOCK,
+      'F82', 'EN2', 'Störung der Grob- und Feinmotorik', 'Sensomotorisch-perzeptive Behandlung', '',
+      '10', '1x wöchentlich', '0', '0', '1', '0', 'Verbesserung der Handgeschicklichkeit'
+    ]
+  },
+  {
+    name: 'Muster 39',
+    schema: 'Muster 39 - Krebsfrüherkennung Zervix-Karzinom 01',
+    fields: [
+      '39', 'a', '01', 'Wagner', 'Sabine', '19880721', ...STANDARD_BLOCK,
+      '1', '0', '20241201', '0', '0', '1', '1', 'I', 'Portio unauffällig', 'negativ'
+    ]
+  },
+  {
+    name: 'Muster 52',
+    schema: 'Muster 52 - Bericht bei Fortbestehen der Arbeitsunfähigkeit 01',
+    fields: [
+      '52', 'a', '01', 'Hoffmann', 'Jens', '19700115', ...STANDARD_BLOCK,
+      '20241015', '20250115', 'Lumboischialgie links', 'M54.4', 'Physiotherapie, Analgesie',
+      '1', '0', '20241210'
+    ]
+  },
+  {
+    name: 'Muster 61',
+    schema: 'Muster 61 - Verordnung medizinischer Rehabilitation 01',
+    fields: [
+      '61', 'a', '01', 'Neumann', 'Ursula', '19580830', ...STANDARD_BLOCK,
+      'Z.n. Hüft-TEP rechts', 'Z96.64', 'Selbstständige Mobilität im Alltag', '2',
+      'Eingeschränkte Gehstrecke, ambulante Therapie ausgeschöpft', 'Reha-Klinik Bad Abbach', '0'
+    ]
+  }
+];
+
+// Birth date columns of the layouts above, for the partial date variants
+const PARTIAL_DATE_FIXTURES: RoundTripFixture[] = [
+  { name: 'Muster 6 v01-10, year only', schema: 'Muster 6 - Überweisung 01', fields: withField(MUSTER_6_V05, 6, '19620000') },
+  { name: 'Muster 6 v11+, year only', schema: 'Muster 6 - Überweisung 11', fields: withField(MUSTER_6_V11, 4, '19740000') },
+  { name: 'Muster 6 v11+, year and month', schema: 'Muster 6 - Überweisung 11', fields: withField(MUSTER_6_V11, 4, '19740400') },
+  { name: 'Muster 16, year only', schema: 'Muster 16 - Arzneiverordnung 01', fields: withField(MUSTER_16, 5, '19750000') }
+];
+
+function withField(fields: string[], index: number, value: string): string[] {
+  const copy = [...fields];
+  copy[index] = value;
+  return copy;
+}
+
+describe('PDF417HealthcareEncoder round trip', () => {
+  const parser = new PDF417HealthcareParser();
+  const encoder = new PDF417HealthcareEncoder();
+
+  // Parser and encoder trace every field; keep the test output readable
+  before(() => mock.method(console, 'log', () => {}));
+  after(() => mock.restoreAll());
+
+  const assertRoundTrip = ({ schema, fields }: RoundTripFixture) => {
+    const original = parser.parse(fields.join('\t'));
+    assert.equal(`${original.schema?.name} ${original.schema?.validFromVersion}`, schema);
+
+    const reparsed = parser.parse(encoder.serialize(original.data));
+    assert.deepEqual(reparsed.schema, original.schema);
+    assert.deepEqual(reparsed.data, original.data);
+    assert.deepEqual(encoder.verifyRoundTrip(original.data, {}, parser), []);
+    return { original, reparsed };
+  };
+
+  it('has a fixture for every default schema', () => {
+    const covered = new Set(FIXTURES.map(fixture => fixture.schema));
+    getDefaultFormSchemas().forEach(schema => {
+      assert.ok(covered.has(`${schema.name} ${schema.validFromVersion}`), `No fixture for ${schema.name} ${schema.validFromVersion}`);
+    });
+  });
+
+  FIXTURES.forEach(fixture => {
+    it(`reproduces ${fixture.name}`, () => {
+      assertRoundTrip(fixture);
+    });
+  });
+
+  PARTIAL_DATE_FIXTURES.forEach(fixture => {
+    it(`keeps the partial birth date of ${fixture.name}`, () => {
+      const { original, reparsed } = assertRoundTrip(fixture);
+      assert.match(String(original.data.geburtsdatum), /^\d{4}(-\d{2})?$/);
+      assert.equal(reparsed.data.geburtsdatum, original.data.geburtsdatum);
+    });
+  });
+
+  it('writes Muster 16 prescription lines back from index 36', () => {
+    const { original } = assertRoundTrip(FIXTURES.find(fixture => fixture.name === 'Muster 16')!);
+    const verordnungen = original.data.verordnungen as Record<string, unknown>[];
+    assert.equal(verordnungen.length, 3);
+
+    const fields = encoder.serialize(original.data).split('\t');
+    assert.deepEqual(fields.slice(36), MUSTER_16.slice(36));
+  });
+
+  it('reproduces Muster 6 v01-10 data serialized for the v11+ layout', () => {
+    const original = parser.parse(MUSTER_6_V05.join('\t'));
+    const reparsed = parser.parse(encoder.serialize(original.data, { version: '11' }));
+    assert.equal(reparsed.schema?.validFromVersion, '11');
+
+    const { versionsnummer: _version, ...expected } = original.data;
+    const { versionsnummer, ...actual } = reparsed.data;
+    assert.equal(versionsnummer, '11');
+    // Fields the v11+ layout has no column for are dropped
+    ['formularcodeergaenzung', 'fachbereich'].forEach(name => delete expected[name]);
+    assert.deepEqual(actual, expected);
+  });
+});
@@ -0,0 +1,221 @@
+// Purpose: PDF417 encoder for corrected healthcare form data
+// Serializes mapped form data back to the tab-separated payload of a layout and renders PDF417 symbols offline
+
+import bwipjs from 'bwip-js/browser';
+import { BarcodeFieldDefinition, FormSchema } from '@/types/healthcare';
+import { toGermanDate } from './utils';
+import { FormSchemaRegistry } from './schema-registry';
+import { getDefaultFormSchemas } from './form-schemas';
+import { PDF417HealthcareParser } from './pdf417-parser';
+
+export interface PDF417EncoderOptions {
+  registry?: FormSchemaRegistry; // Layouts to serialize with (defaults to the built-in schemas)
+}
+
+export interface SerializeOptions {
+  schema?: FormSchema; // Layout to write (resolved from the form header if omitted)
+  version?: string; // versionsnummer to resolve and write (defaults to data.versionsnummer)
+  baseFields?: string[]; // Raw fields of the original scan; reserved and unmapped columns are kept
+}
+
+export interface BarcodeRenderOptions {
+  scale?: number; // Module width in pixels (default 2)
+  rowHeight?: number; // Row height in modules (default 3)
+  columns?: number; // Data columns of the symbol (chosen by the encoder if omitted)
+  errorCorrectionLevel?: number; // PDF417 error correction level 0-8 (chosen by the encoder if omitted)
+  padding?: number; // Quiet zone in pixels (default 10)
+}
+
+export interface BarcodeMatrix {
+  columns: number; // Modules per row
+  rows: number; // Symbol rows (one module high each)
+  modules: number[]; // Row-major, 1 = dark module
+}
+
+export interface RoundTripDifference {
+  field: string; // Schema field name ("group[i].field" for repeated blocks)
+  expected: string;
+  actual: string;
+}
+
+// PDF417-specific BWIPP options missing from the bwip-js typings
+type PDF417RenderOptions = bwipjs.RenderOptions & {
+  rowmult?: number;
+  columns?: number;
+  eclevel?: number;
+};
+
+export class PDF417HealthcareEncoder {
+  private readonly fieldSeparator = '\t'; // TAB character
+  private registry: FormSchemaRegistry;
+
+  constructor(options: PDF417EncoderOptions = {}) {
+    this.registry = options.registry || new FormSchemaRegistry(getDefaultFormSchemas());
+  }
+
+  /**
+   * Serialize mapped form data to the tab-separated barcode payload of a layout
+   */
+  serialize(data: Record<string, unknown>, options: SerializeOptions = {}): string {
+    const schema = this.resolveSchema(data, options);
+    const fields = [...(options.baseFields || [])];
+    const setField = (index: number, value: string) => {
+      while (fields.length <= index) fields.push('');
+      fields[index] = value;
+    };
+
+    schema.fields.forEach(fieldDef => {
+      if (fieldDef.name.startsWith('reserved')) {
+        return;
+      }
+      const value = fieldDef.name === 'versionsnummer' && options.version ? options.version : data[fieldDef.name];
+      setField(fieldDef.index, this.serializeValue(fieldDef, value));
+    });
+
+    // Entries are written back to back; unused entry slots are cleared
+    schema.groups?.forEach(group => {
+      const entries = Array.isArray(data[group.name]) ? data[group.name] as Record<string, unknown>[] : [];
+      for (let entryIndex = 0; entryIndex < group.count; entryIndex++) {
+        const entryStart = group.startIndex + entryIndex * group.fields.length;
+        group.fields.forEach(fieldDef => {
+          setField(entryStart + fieldDef.index, this.serializeValue(fieldDef, entries[entryIndex]?.[fieldDef.name]));
+        });
+      }
+      if (entries.length > group.count) {
+        console.log(`[PDF417Encoder] Dropping ${entries.length - group.count} entries of "${group.name}" beyond the layout`);
+      }
+    });
+
+    // Trailing empty columns beyond the original scan carry no information
+    const minLength = Math.max(options.baseFields?.length ?? 0, 3);
+    while (fields.length > minLength && !fields[fields.length - 1]) fields.pop();
+
+    console.log('[PDF417Encoder] Serialized', fields.length, 'fields with layout', schema.name);
+    return fields.join(this.fieldSeparator);
+  }
+
+  /**
+   * Serialize, parse the payload again and list every schema field whose value changed
+   */
+  verifyRoundTrip(
+    data: Record<string, unknown>,
+    options: SerializeOptions = {},
+    parser: PDF417HealthcareParser = new PDF417HealthcareParser({ registry: this.registry })
+  ): RoundTripDifference[] {
+    const schema = this.resolveSchema(data, options);
+    const parsed = parser.parse(this.serialize(data, { ...options, schema }));
+    const parsedValues = new Map(parsed.fieldRecords.map(record => [record.name, record.value]));
+    const differences: RoundTripDifference[] = [];
+
+    const compare = (fieldDef: BarcodeFieldDefinition, name: string, expected: unknown) => {
+      const expectedValue = this.serializeValue(fieldDef, expected);
+      const actualValue = this.serializeValue(fieldDef, parsedValues.get(name));
+      if (expectedValue !== actualValue) {
+        differences.push({ field: name, expected: expectedValue, actual: actualValue });
+      }
+    };
+
+    if (parsed.schema?.name !== schema.name || parsed.schema?.validFromVersion !== schema.validFromVersion) {
+      differences.push({
+        field: 'schema',
+        expected: `${schema.name} ${schema.validFromVersion || ''}`.trim(),
+        actual: `${parsed.schema?.name || ''} ${parsed.schema?.validFromVersion || ''}`.trim()
+      });
+    }
+
+    schema.fields
+      .filter(fieldDef => !fieldDef.name.startsWith('reserved'))
+      .forEach(fieldDef => compare(
+        fieldDef,
+        fieldDef.name,
+        fieldDef.name === 'versionsnummer' && options.version ? options.version : data[fieldDef.name]
+      ));
+    schema.groups?.forEach(group => {
+      const entries = Array.isArray(data[group.name]) ? data[group.name] as Record<string, unknown>[] : [];
+      entries.slice(0, group.count).forEach((entry, entryIndex) => {
+        group.fields.forEach(fieldDef => compare(fieldDef, `${group.name}[${entryIndex}].${fieldDef.name}`, entry[fieldDef.name]));
+      });
+    });
+
+    if (differences.length > 0) {
+      console.log('[PDF417Encoder] Round trip differences:', differences);
+    }
+    return differences;
+  }
+
+  /**
+   * Render a payload as PDF417 SVG markup
+   */
+  toSVG(payload: string, options: BarcodeRenderOptions = {}): string {
+    return bwipjs.toSVG(this.getRenderOptions(payload, options));
+  }
+
+  /**
+   * Render a payload as PDF417 PNG data URL (browser only)
+   */
+  toPNG(payload: string, options: BarcodeRenderOptions = {}): string {
+    const canvas = document.createElement('canvas');
+    bwipjs.toCanvas(canvas, this.getRenderOptions(payload, options));
+    return canvas.toDataURL('image/png');
+  }
+
+  /**
+   * Encode a payload as module matrix for vector output such as PDF
+   */
+  toMatrix(payload: string, options: Pick<BarcodeRenderOptions, 'columns' | 'errorCorrectionLevel'> = {}): BarcodeMatrix {
+    const { bcid, text, ...bwippOptions } = this.getRenderOptions(payload, { ...options, rowHeight: 1 });
+    const [symbol] = bwipjs.raw(bcid, text, bwippOptions as bwipjs.BwippOptions);
+    if (!symbol || !('pixs' in symbol)) {
+      throw new Error('PDF417 encoder returned no module matrix');
+    }
+    return { columns: symbol.pixx, rows: symbol.pixy, modules: symbol.pixs };
+  }
+
+  /**
+   * Layout for the data: explicit schema, else resolved from the form header
+   */
+  resolveSchema(data: Record<string, unknown>, options: SerializeOptions = {}): FormSchema {
+    if (options.schema) {
+      return options.schema;
+    }
+
+    const formCode = String(data.formularcode || '');
+    const version = options.version || String(data.versionsnummer || '');
+    const resolution = this.registry.resolve(formCode, String(data.formularcodeergaenzung || ''), version);
+    if (!resolution) {
+      throw new Error(`Unsupported form type: ${formCode}`);
+    }
+    return resolution.schema;
+  }
+
+  /**
+   * Raw barcode value for a mapped value; TABs and line breaks would split the payload
+   */
+  private serializeValue(fieldDef: BarcodeFieldDefinition, value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+
+    const text = String(value).replace(/[\t\r\n]+/g, ' ');
+    if (fieldDef.type === 'date') {
+      return toGermanDate(text) ?? text;
+    }
+    return text;
+  }
+
+  private getRenderOptions(payload: string, options: BarcodeRenderOptions): PDF417RenderOptions {
+    const renderOptions: PDF417RenderOptions = {
+      bcid: 'pdf417',
+      text: payload,
+      binarytext: true, // Characters are written as ISO-8859-1 bytes, as on printed forms
+      scale: options.scale ?? 2,
+      rowmult: options.rowHeight ?? 3,
+      padding: options.padding ?? 10,
+      backgroundcolor: 'FFFFFF'
+    };
+    // BWIPP rejects options that are present but undefined
+    if (options.columns !== undefined) renderOptions.columns = options.columns;
+    if (options.errorCorrectionLevel !== undefined) renderOptions.eclevel = options.errorCorrectionLevel;
+    return renderOptions;
+  }
+}
@@ -3,18 +3,38 @@
 
 import {
   ParsedBarcodeData,
+  BarcodeFieldDefinition,
   FormSchema,
-  FormType
+  FormType,
+  LayoutFit,
+  ParsedFieldRecord,
+  SchemaReference,
+  ValidationIssue
 } from '@/types/healthcare';
-import { parseGermanDate, validateDate, sanitizeInput } from './utils';
+import { parseGermanDate, sanitizeInput, validateDate } from './utils';
+import { FormSchemaRegistry } from './schema-registry';
+import { getDefaultFormSchemas } from './form-schemas';
+import { validateIdentifier } from './identifiers';
+import { KostentraegerDirectory, kostentraegerDirectory } from './kostentraeger-directory';
+import { PlausibilityRuleEngine, getDefaultPlausibilityRules } from './plausibility-rules';
+import { LayoutFitScore, getLayoutConfidence, rankLayouts } from './layout-fit';
+
+export interface PDF417ParserOptions {
+  registry?: FormSchemaRegistry; // Layouts to parse with (defaults to the built-in schemas)
+  kostentraegerDirectory?: KostentraegerDirectory; // Payer directory (defaults to the bundled one)
+  rules?: PlausibilityRuleEngine; // Cross-field rules (defaults to the built-in rule set)
+}
 
 export class PDF417HealthcareParser {
   private readonly fieldSeparator = '\t'; // TAB character
-  private schemas: Map<string, FormSchema>;
-
-  constructor() {
-    this.schemas = new Map();
-    this.initializeSchemas();
+  private registry: FormSchemaRegistry;
+  private kostentraegerDirectory: KostentraegerDirectory;
+  private rules: PlausibilityRuleEngine;
+
+  constructor(options: PDF417ParserOptions = {}) {
+    this.registry = options.registry || new FormSchemaRegistry(getDefaultFormSchemas());
+    this.kostentraegerDirectory = options.kostentraegerDirectory || kostentraegerDirectory;
+    this.rules = options.rules || new PlausibilityRuleEngine(getDefaultPlausibilityRules());
   }
 
   /**
@@ -32,8 +52,13 @@ export class PDF417HealthcareParser {
       return {
         formType: '10',
         isValid: false,
-        errors: ['Invalid barcode format: insufficient fields'],
-        data: {}
+        issues: [{
+          code: 'insufficientFields',
+          severity: 'error',
+          message: 'Invalid barcode format: insufficient fields'
+        }],
+        ...this.describeUnmappedFields(fields),
+        data: { formularcode: '', formularcodeergaenzung: '', versionsnummer: '' }
       };
     }
 
@@ -48,29 +73,88 @@ export class PDF417HealthcareParser {
     const normalizedFormCode = this.normalizeFormCode(formularcode);
     console.log('[PDF417Parser] Normalized form code:', normalizedFormCode);
 
-    const schema = this.getSchemaForForm(formularcode);
-    if (!schema) {
+    const resolution = this.registry.resolve(formularcode, formularcodeergaenzung, versionsnummer);
+    if (!resolution) {
       console.log('[PDF417Parser] No schema found for form code:', formularcode);
       return {
         formType: normalizedFormCode as FormType,
         isValid: false,
-        errors: [`Unsupported form type: ${formularcode}`],
+        issues: [{
+          field: 'formularcode',
+          index: 0,
+          code: 'unsupportedForm',
+          severity: 'error',
+          value: formularcode,
+          message: `Unsupported form type: ${formularcode}`
+        }],
+        ...this.describeUnmappedFields(fields),
         data: { formularcode, formularcodeergaenzung, versionsnummer }
       };
     }
 
-    console.log('[PDF417Parser] Using schema:', schema.name);
-    const result = this.mapFieldsToSchema(fields, schema);
+    // Score every layout of the form code against the values; the version-resolved layout wins ties
+    const candidates = rankLayouts(this.registry.getSchemas(formularcode), fields);
+    const resolvedFit = candidates.find(candidate => candidate.schema === resolution.schema);
+    if (!resolvedFit) {
+      // Resolution and ranking read the registry separately; if they disagree, trust the ranking
+      console.log('[PDF417Parser] Resolved layout missing from ranking, using best fit');
+    }
+    const bestFit = !resolvedFit || candidates[0].score > resolvedFit.score ? candidates[0] : resolvedFit;
+    const { schema } = bestFit;
+    const versionField = schema.fields.find(field => field.name === 'versionsnummer');
+    const layoutVersion = versionField ? fields[versionField.index] || '' : versionsnummer;
+    // Re-resolve with the header as the chosen layout reads it (its version may sit in another column)
+    const supplementField = schema.fields.find(field => field.name === 'formularcodeergaenzung');
+    const layoutResolution = this.registry.resolve(
+      formularcode,
+      supplementField ? fields[supplementField.index] || '' : '',
+      layoutVersion
+    );
+    const exactMatch = layoutResolution?.schema === schema && layoutResolution.exactMatch;
+
+    console.log('[PDF417Parser] Layout scores:', candidates.map(candidate => `${candidate.schema.name} ${this.describeVersionRange(candidate.schema)}: ${candidate.score.toFixed(2)}`));
+    console.log('[PDF417Parser] Using schema:', schema.name, 'exact version match:', exactMatch);
+    const { result, fieldRecords } = this.mapFieldsToSchema(fields, schema);
     console.log('[PDF417Parser] Mapped result keys:', Object.keys(result));
+    const unmappedFields = fieldRecords.filter(record => record.status !== 'mapped' && record.rawValue);
+    if (unmappedFields.length > 0) {
+      console.log('[PDF417Parser] Unmapped fields with values:', unmappedFields.map(record => record.index));
+    }
 
-    const errors = this.validateParsedData(result);
-    console.log('[PDF417Parser] Validation errors:', errors);
+    const issues = this.validateParsedData(fields, schema);
+    if (!exactMatch) {
+      issues.unshift({
+        field: 'versionsnummer',
+        index: versionField?.index,
+        code: 'schemaVersionFallback',
+        severity: 'warning',
+        value: layoutVersion,
+        message: `No layout known for ${schema.name} version ${layoutVersion}${result.formularcodeergaenzung ? ` (supplement ${String(result.formularcodeergaenzung)})` : ''}; using nearest layout ${this.describeVersionRange(schema)}`
+      });
+    }
+    const layoutFit = this.toLayoutFit(bestFit);
+    if (layoutFit.confidence !== 'high') {
+      issues.unshift({
+        code: 'layoutFit',
+        severity: layoutFit.confidence === 'low' ? 'error' : 'warning',
+        message: `Barcode values fit ${schema.name} (layout ${this.describeVersionRange(schema)}) only to ${Math.round(layoutFit.score * 100)}%; columns may be shifted (mismatched: ${layoutFit.mismatchedFields.join(', ')})`
+      });
+    }
+    issues.push(...this.enrichKostentraeger(result, schema));
+    issues.push(...this.rules.evaluate(normalizedFormCode as FormType, schema, fields, result));
+    console.log('[PDF417Parser] Validation issues:', issues);
 
     return {
       formType: normalizedFormCode as FormType,
-      isValid: errors.length === 0,
-      errors,
-      data: result
+      isValid: !issues.some(issue => issue.severity === 'error'),
+      issues,
+      schema: this.toSchemaReference(schema),
+      layoutFit,
+      layoutCandidates: candidates.map(candidate => this.toLayoutFit(candidate)),
+      rawFields: fields,
+      fieldRecords,
+      unmappedFields,
+      data: result as ParsedBarcodeData['data']
     };
   }
 
@@ -78,275 +162,313 @@ export class PDF417HealthcareParser {
    * Normalize form code (e.g., "06" -> "6", "10" -> "10")
    */
   private normalizeFormCode(formCode: string): string {
-    // Remove leading zeros for single-digit form codes
-    const normalized = formCode.replace(/^0+/, '');
-    return normalized || formCode; // Return original if normalization results in empty string
+    return FormSchemaRegistry.normalizeFormCode(formCode);
+  }
+
+  /**
+   * Describe a layout's version range for messages (e.g., "01-03", "02+")
+   */
+  private describeVersionRange(schema: FormSchema): string {
+    const from = schema.validFromVersion || '00';
+    return schema.validUntilVersion ? `${from}-${schema.validUntilVersion}` : `${from}+`;
+  }
+
+  /**
+   * Convert a layout score for reporting in parse results
+   */
+  private toLayoutFit(fit: LayoutFitScore): LayoutFit {
+    return {
+      schema: this.toSchemaReference(fit.schema),
+      score: fit.score,
+      confidence: getLayoutConfidence(fit.score),
+      checkedFields: fit.checkedFields,
+      mismatchedFields: fit.mismatchedFields
+    };
   }
 
   /**
-   * Get schema for specific form type
+   * Strip field definitions from a schema for reporting in parse results
    */
-  private getSchemaForForm(formCode: string): FormSchema | undefined {
-    // Normalize the form code before lookup (e.g., "06" -> "6")
-    const normalizedCode = this.normalizeFormCode(formCode);
-    return this.schemas.get(normalizedCode);
+  private toSchemaReference(schema: FormSchema): SchemaReference {
+    const { fields: _fields, groups: _groups, ...reference } = schema;
+    return reference;
   }
 
     /**
    * Map barcode fields to structured data according to schema
    */
-  private mapFieldsToSchema(fields: string[], schema: FormSchema): Record<string, unknown> {
+  private mapFieldsToSchema(
+    fields: string[],
+    schema: FormSchema
+  ): { result: Record<string, unknown>; fieldRecords: ParsedFieldRecord[] } {
     const result: Record<string, unknown> = {};
+    const records = new Map<number, ParsedFieldRecord>();
 
     schema.fields.forEach(fieldDef => {
-      // Skip reserved fields from mapping
+      const rawValue = fields[fieldDef.index] || '';
+
+      // Reserved fields are kept in the field records only
       if (fieldDef.name.startsWith('reserved')) {
+        records.set(fieldDef.index, { index: fieldDef.index, name: fieldDef.name, rawValue, status: 'reserved' });
         return;
       }
 
-      let value = fields[fieldDef.index] || '';
-      console.log(`[PDF417Parser] Mapping field "${fieldDef.name}" (index ${fieldDef.index}): "${value}"`);
-
-      if (value) {
-        // Apply transformations
-        if (fieldDef.transform) {
-          value = fieldDef.transform(value);
-        } else if (fieldDef.type === 'date') {
-          const dateValue = parseGermanDate(value);
-          console.log(`[PDF417Parser] Date transformation "${value}" -> "${dateValue}"`);
-          value = dateValue;
-        }
+      console.log(`[PDF417Parser] Mapping field "${fieldDef.name}" (index ${fieldDef.index}): "${rawValue}"`);
 
-        if (value !== null && value !== '') {
-          result[fieldDef.name] = value;
+      const value = this.transformValue(fieldDef, rawValue);
+      records.set(fieldDef.index, { index: fieldDef.index, name: fieldDef.name, rawValue, value, status: 'mapped' });
+      if (value !== null && value !== '') {
+        result[fieldDef.name] = value;
+      }
+    });
+
+    // Repeated blocks become arrays of entries; empty entries are dropped
+    schema.groups?.forEach(group => {
+      const entries: Record<string, unknown>[] = [];
+
+      for (let entryIndex = 0; entryIndex < group.count; entryIndex++) {
+        const entryStart = group.startIndex + entryIndex * group.fields.length;
+        const entry: Record<string, unknown> = {};
+
+        group.fields.forEach(fieldDef => {
+          const index = entryStart + fieldDef.index;
+          const rawValue = fields[index] || '';
+          const value = this.transformValue(fieldDef, rawValue);
+          records.set(index, { index, name: `${group.name}[${entryIndex}].${fieldDef.name}`, rawValue, value, status: 'mapped' });
+          if (value !== null && value !== '') {
+            entry[fieldDef.name] = value;
+          }
+        });
+
+        if (Object.keys(entry).length > 0) {
+          entries.push(entry);
         }
       }
+
+      console.log(`[PDF417Parser] Mapped group "${group.name}" with ${entries.length} entries`);
+      if (entries.length > 0) {
+        result[group.name] = entries;
+      }
     });
 
+    // Fields the layout has no column for (gaps and trailing fields) stay available as unmapped records
+    const fieldRecords = fields.map((rawValue, index): ParsedFieldRecord =>
+      records.get(index) || { index, rawValue, status: 'unmapped' }
+    );
+
     console.log('[PDF417Parser] Final mapped result:', result);
-    return result;
+    return { result, fieldRecords };
   }
 
   /**
-   * Validate parsed data against schema rules
+   * Field records for a barcode that could not be mapped to any layout
    */
-  private validateParsedData(data: Record<string, unknown>): string[] {
-    const errors: string[] = [];
-
-    console.log('[PDF417Parser] Validating data:', data);
+  private describeUnmappedFields(fields: string[]): Pick<ParsedBarcodeData, 'rawFields' | 'fieldRecords' | 'unmappedFields'> {
+    const fieldRecords = fields.map((rawValue, index): ParsedFieldRecord => ({ index, rawValue, status: 'unmapped' }));
+    return {
+      rawFields: fields,
+      fieldRecords,
+      unmappedFields: fieldRecords.filter(record => record.rawValue)
+    };
+  }
 
-    // Validate required fields
-    if (!data.formularcode || !data.versionsnummer) {
-      errors.push('Missing required form identification fields');
+  /**
+   * Apply the field's transformation to a raw barcode value
+   */
+  private transformValue(fieldDef: BarcodeFieldDefinition, rawValue: string): unknown {
+    if (!rawValue) {
+      return rawValue;
     }
 
-    // Validate date fields - only check actual date values
-    Object.entries(data).forEach(([key, value]) => {
-      if (key.includes('datum') && value) {
-        console.log(`[PDF417Parser] Validating date field ${key}: "${value}"`);
-        // Check if it's already in YYYY-MM-DD format or YYYYMMDD format
-        const datePattern = /^\d{4}-\d{2}-\d{2}$|^\d{8}$/;
-        if (!datePattern.test(value)) {
-          errors.push(`Invalid date format for ${key}: ${value}`);
-        }
-      }
-    });
-
-    // Validate specific field constraints with explicit checks
-    if (data.versichertenart) {
-      console.log(`[PDF417Parser] Validating versichertenart: "${data.versichertenart}"`);
-      if (!['1', '3', '5'].includes(data.versichertenart)) {
-        errors.push(`Invalid insurance type: ${data.versichertenart}`);
-      }
+    if (fieldDef.transform) {
+      return fieldDef.transform(rawValue);
     }
 
-    if (data.geschlecht) {
-      console.log(`[PDF417Parser] Validating geschlecht: "${data.geschlecht}"`);
-      if (!['M', 'W', 'X', 'D'].includes(data.geschlecht)) {
-        errors.push(`Invalid gender value: ${data.geschlecht}`);
-      }
+    if (fieldDef.type === 'date') {
+      const dateValue = parseGermanDate(rawValue);
+      console.log(`[PDF417Parser] Date transformation "${rawValue}" -> "${dateValue}"`);
+      return dateValue;
     }
 
-    console.log('[PDF417Parser] Validation complete, errors:', errors);
-    return errors;
+    return rawValue;
   }
 
   /**
-   * Initialize form schemas for different Muster types
+   * Add directory-derived insurer fields and report name mismatches
    */
-  private initializeSchemas(): void {
-    this.schemas.set('10', this.getMuster10Schema());
-    this.schemas.set('6', this.getMuster6Schema());
-    this.schemas.set('12', this.getMuster12Schema());
-    this.schemas.set('16', this.getMuster16Schema());
+  private enrichKostentraeger(result: Record<string, unknown>, schema: FormSchema): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const ik = typeof result.kostentraegerkennung === 'string' ? result.kostentraegerkennung : undefined;
+    const printedName = typeof result.kostentraegername === 'string' ? result.kostentraegername : undefined;
+
+    if (!ik && !printedName) {
+      return issues;
+    }
+
+    const entry = ik ? this.kostentraegerDirectory.lookup(ik) : undefined;
+    result.kostentraegerTyp = this.kostentraegerDirectory.classify(ik, printedName);
+
+    if (!entry) {
+      console.log('[PDF417Parser] Kostenträger not in directory:', ik);
+      return issues;
+    }
+
+    result.kostentraegernameVerzeichnis = entry.name;
+    const nameField = schema.fields.find(field => field.name === 'kostentraegername');
+
+    if (!printedName) {
+      result.kostentraegername = entry.name;
+      issues.push({
+        field: 'kostentraegername',
+        index: nameField?.index,
+        code: 'kostentraegerLookup',
+        severity: 'info',
+        message: `Insurer name "${entry.name}" taken from the Kostenträger directory (IK ${ik})`
+      });
+    } else if (!this.kostentraegerDirectory.matchesName(entry, printedName)) {
+      result.kostentraegernameAbweichung = true;
+      issues.push({
+        field: 'kostentraegername',
+        index: nameField?.index,
+        code: 'kostentraegerMismatch',
+        severity: 'warning',
+        value: printedName,
+        message: `Printed insurer name "${printedName}" does not match IK ${ik} ("${entry.name}")`
+      });
+    }
+
+    return issues;
   }
 
   /**
-   * Muster 10 - Laboratory Request Form
+   * Validate raw barcode values against the constraints declared in the schema
    */
-  private getMuster10Schema(): FormSchema {
-    return {
-      formCode: '10',
-      name: 'Muster 10 - Laborauftrag',
-      fields: [
-        { name: 'formularcode', index: 0, required: true },
-        { name: 'formularcodeergaenzung', index: 1, required: true },
-        { name: 'versionsnummer', index: 2, required: true },
-        { name: 'anforderungsIdent', index: 3 },
-        { name: 'nachname', index: 4, maxLength: 45 },
-        { name: 'vorname', index: 5, maxLength: 45 },
-        { name: 'geburtsdatum', index: 6, type: 'date' },
-        { name: 'versicherungsschutzEnde', index: 7, type: 'date' },
-        { name: 'kostentraegerkennung', index: 8, maxLength: 9 },
-        { name: 'kostentraegername', index: 9 },
-        { name: 'wopKennzeichen', index: 10 },
-        { name: 'versichertenId', index: 11, maxLength: 12 },
-        { name: 'versichertenart', index: 12, allowedValues: ['1', '3', '5'] },
-        { name: 'besonderePersonengruppe', index: 13, allowedValues: ['00', '04', '06', '07', '08', '09'] },
-        { name: 'dmpKennzeichnung', index: 14, maxLength: 2 },
-        { name: 'bsnrErstveranlasser', index: 15, maxLength: 9 },
-        { name: 'lanrErstveranlasser', index: 16, maxLength: 9 },
-        { name: 'bsnrUeberweiser', index: 17, maxLength: 9 },
-        { name: 'lanrUeberweiser', index: 18, maxLength: 9 },
-        { name: 'ausstellungsdatum', index: 19, type: 'date' },
-        { name: 'geschlecht', index: 20, allowedValues: ['M', 'W', 'X', 'D'] },
-        { name: 'titel', index: 21, maxLength: 20 },
-        { name: 'plz', index: 22, maxLength: 10 },
-        { name: 'ort', index: 23, maxLength: 40 },
-        { name: 'strasse', index: 24, maxLength: 46 },
-        { name: 'hausnummer', index: 25, maxLength: 9 },
-        { name: 'diagnose', index: 26, maxLength: 70 },
-        { name: 'verdachtsdiagnose', index: 27 },
-        { name: 'befundkopie', index: 28 },
-        { name: 'auftrag', index: 29 }
-      ]
-    };
+  private validateParsedData(fields: string[], schema: FormSchema): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    console.log('[PDF417Parser] Validating fields against schema:', schema.name);
+
+    schema.fields.forEach(fieldDef => {
+      issues.push(...this.validateField(fieldDef, fieldDef.name, fieldDef.index, fields[fieldDef.index] || ''));
+    });
+
+    schema.groups?.forEach(group => {
+      for (let entryIndex = 0; entryIndex < group.count; entryIndex++) {
+        const entryStart = group.startIndex + entryIndex * group.fields.length;
+        const entryValues = group.fields.map(fieldDef => fields[entryStart + fieldDef.index] || '');
+
+        // Constraints only apply to entries that are actually filled in
+        if (entryValues.every(value => !value)) {
+          continue;
+        }
+
+        group.fields.forEach((fieldDef, fieldIndex) => {
+          issues.push(...this.validateField(
+            fieldDef,
+            `${group.name}[${entryIndex}].${fieldDef.name}`,
+            entryStart + fieldDef.index,
+            entryValues[fieldIndex]
+          ));
+        });
+      }
+    });
+
+    console.log('[PDF417Parser] Validation complete, issues:', issues.length);
+    return issues;
   }
 
   /**
-   * Muster 6 - Referral Form
-   * Based on actual barcode data structure with empty fields
+   * Check a single raw value against its field definition
    */
-  private getMuster6Schema(): FormSchema {
-    return {
-      formCode: '6',
-      name: 'Muster 6 - Überweisung',
-      fields: [
-        { name: 'formularcode', index: 0, required: true },
-        { name: 'formularcodeergaenzung', index: 1 }, // often empty
-        { name: 'versionsnummer', index: 2, required: true },
-        { name: 'reserved1', index: 3 }, // often empty
-        { name: 'nachname', index: 4, maxLength: 45 },
-        { name: 'vorname', index: 5, maxLength: 45 },
-        { name: 'geburtsdatum', index: 6, type: 'date' },
-        { name: 'reserved2', index: 7 }, // often empty
-        { name: 'kostentraegerkennung', index: 8, maxLength: 9 },
-        { name: 'kostentraegername', index: 9 },
-        { name: 'wopKennzeichen', index: 10 },
-        { name: 'versichertenId', index: 11, maxLength: 12 },
-        { name: 'versichertenart', index: 12, allowedValues: ['1', '3', '5'] },
-        { name: 'besonderePersonengruppe', index: 13, allowedValues: ['00', '04', '06', '07', '08', '09'] },
-        { name: 'dmpKennzeichnung', index: 14, maxLength: 2 },
-        { name: 'bsnrErstveranlasser', index: 15, maxLength: 9 },
-        { name: 'lanrErstveranlasser', index: 16, maxLength: 9 },
-        { name: 'ausstellungsdatum', index: 17, type: 'date' },
-        { name: 'geschlecht', index: 18, allowedValues: ['M', 'W', 'X', 'D'] },
-        { name: 'titel', index: 19, maxLength: 20 },
-        { name: 'reserved3', index: 20 }, // often empty
-        { name: 'reserved4', index: 21 }, // often empty
-        { name: 'plz', index: 22, maxLength: 10 },
-        { name: 'ort', index: 23, maxLength: 40 },
-        { name: 'strasse', index: 24, maxLength: 46 },
-        { name: 'hausnummer', index: 25, maxLength: 9 },
-        { name: 'reserved5', index: 26 }, // often empty
-        // Additional fields may follow based on specific form requirements
-        { name: 'fachbereich', index: 27 }, // Medical department
-        { name: 'reserved6', index: 28 },
-        { name: 'reserved7', index: 29 },
-        { name: 'reserved8', index: 30 },
-        { name: 'reserved9', index: 31 },
-        { name: 'reserved10', index: 32 },
-        { name: 'reserved11', index: 33 },
-        { name: 'reserved12', index: 34 },
-        { name: 'fachrichtung', index: 35 }, // Medical specialty
-        { name: 'reserved13', index: 36 },
-        { name: 'reserved14', index: 37 },
-        { name: 'reserved15', index: 38 },
-        { name: 'diagnose', index: 39 }, // Diagnosis
-        { name: 'ueberweisungsgrund', index: 40 } // Referral reason
-      ]
-    };
+  private validateField(
+    fieldDef: BarcodeFieldDefinition,
+    fieldName: string,
+    index: number,
+    value: string
+  ): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const issue = (code: ValidationIssue['code'], message: string): ValidationIssue => ({
+      field: fieldName,
+      index,
+      code,
+      severity: 'error',
+      value,
+      message
+    });
+
+    if (!value) {
+      if (fieldDef.required) {
+        issues.push(issue('required', `Missing required field ${fieldName} (index ${index})`));
+      }
+      return issues;
+    }
+
+    if (fieldDef.maxLength !== undefined && value.length > fieldDef.maxLength) {
+      issues.push(issue('maxLength', `Value for ${fieldName} exceeds maximum length of ${fieldDef.maxLength}: ${value}`));
+    }
+
+    if (fieldDef.allowedValues && !fieldDef.allowedValues.includes(value)) {
+      issues.push(issue('allowedValues', `Invalid value for ${fieldName}: ${value} (allowed: ${fieldDef.allowedValues.join(', ')})`));
+    }
+
+    if (fieldDef.type === 'numeric' && !/^\d+$/.test(value)) {
+      issues.push(issue('numeric', `Value for ${fieldName} must be numeric: ${value}`));
+    }
+
+    if (fieldDef.type === 'date') {
+      if (!/^\d{8}$/.test(value)) {
+        issues.push(issue('dateFormat', `Invalid date format for ${fieldName}: ${value}`));
+      } else if (!validateDate(value, fieldDef.allowPartialDate)) {
+        issues.push(issue('calendarDate', !fieldDef.allowPartialDate && validateDate(value, true)
+          ? `Incomplete date for ${fieldName}: ${value} (day and month are required)`
+          : `Date for ${fieldName} does not exist: ${value}`));
+      }
+    }
+
+    if (fieldDef.format) {
+      const check = validateIdentifier(fieldDef.format, value);
+      if (!check.valid) {
+        issues.push({
+          ...issue(check.code || 'checkDigit', check.message || `Invalid ${fieldDef.format.toUpperCase()} for ${fieldName}: ${value}`),
+          severity: check.severity || 'error'
+        });
+      }
+    }
+
+    return issues;
   }
 
   /**
-   * Muster 12 - Nursing Care Request
+   * Get list of supported form types
    */
-  private getMuster12Schema(): FormSchema {
-    return {
-      formCode: '12',
-      name: 'Muster 12 - Verordnung häuslicher Krankenpflege',
-      fields: [
-        { name: 'formularcode', index: 0, required: true },
-        { name: 'formularcodeergaenzung', index: 1, required: true },
-        { name: 'versionsnummer', index: 2, required: true },
-        { name: 'nachname', index: 3, maxLength: 45 },
-        { name: 'vorname', index: 4, maxLength: 45 },
-        { name: 'geburtsdatum', index: 5, type: 'date' },
-        { name: 'versicherungsschutzEnde', index: 6, type: 'date' },
-        { name: 'kostentraegerkennung', index: 7, maxLength: 9 },
-        { name: 'kostentraegername', index: 8 },
-        { name: 'versichertenId', index: 9, maxLength: 12 },
-        { name: 'versichertenart', index: 10, allowedValues: ['1', '3', '5'] },
-        { name: 'besonderePersonengruppe', index: 11, allowedValues: ['00', '04', '06', '07', '08', '09'] },
-        { name: 'ausstellungsdatum', index: 12, type: 'date' },
-        { name: 'geschlecht', index: 13, allowedValues: ['M', 'W', 'X', 'D'] },
-        { name: 'strasse', index: 14, maxLength: 46 },
-        { name: 'hausnummer', index: 15, maxLength: 9 },
-        { name: 'plz', index: 16, maxLength: 10 },
-        { name: 'ort', index: 17, maxLength: 40 }
-      ]
-    };
+  public getSupportedForms(): { code: string; name: string }[] {
+    const forms = new Map<string, string>();
+    this.registry.getSchemas().forEach(schema => {
+      if (!forms.has(schema.formCode)) {
+        forms.set(schema.formCode, schema.name);
+      }
+    });
+    return Array.from(forms, ([code, name]) => ({ code, name }));
   }
 
   /**
-   * Muster 16 - Rehabilitation Request
+   * Get schema for a specific form (public method for debugging/testing)
    */
-  private getMuster16Schema(): FormSchema {
-    return {
-      formCode: '16',
-      name: 'Muster 16 - Verordnung medizinischer Rehabilitation',
-      fields: [
-        { name: 'formularcode', index: 0, required: true },
-        { name: 'formularcodeergaenzung', index: 1, required: true },
-        { name: 'versionsnummer', index: 2, required: true },
-        { name: 'nachname', index: 3, maxLength: 45 },
-        { name: 'vorname', index: 4, maxLength: 45 },
-        { name: 'geburtsdatum', index: 5, type: 'date' },
-        { name: 'versicherungsschutzEnde', index: 6, type: 'date' },
-        { name: 'kostentraegerkennung', index: 7, maxLength: 9 },
-        { name: 'versichertenId', index: 8, maxLength: 12 },
-        { name: 'versichertenart', index: 9, allowedValues: ['1', '3', '5'] },
-        { name: 'ausstellungsdatum', index: 10, type: 'date' },
-        { name: 'geschlecht', index: 11, allowedValues: ['M', 'W', 'X', 'D'] }
-      ]
-    };
+  public getFormSchema(formCode: string, supplement = '', version = ''): FormSchema | undefined {
+    return this.registry.resolve(formCode, supplement, version)?.schema;
   }
 
   /**
-   * Get list of supported form types
+   * Schema registry used by this parser, for registering additional layouts
    */
-  public getSupportedForms(): { code: string; name: string }[] {
-    return Array.from(this.schemas.values()).map(schema => ({
-      code: schema.formCode,
-      name: schema.name
-    }));
+  public getRegistry(): FormSchemaRegistry {
+    return this.registry;
   }
 
   /**
-   * Get schema for a specific form (public method for debugging/testing)
+   * Plausibility rule engine used by this parser, for enabling, disabling or adding rules
    */
-  public getFormSchema(formCode: string): FormSchema | undefined {
-    const normalizedCode = this.normalizeFormCode(formCode);
-    return this.schemas.get(normalizedCode);
+  public getRuleEngine(): PlausibilityRuleEngine {
+    return this.rules;
   }
 }
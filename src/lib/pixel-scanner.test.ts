@@ -0,0 +1,154 @@
+// Purpose: Tests for the DOM-free scanning pipeline on symbols rendered from the PDF417 encoder
+// Upright, right-angle, skewed and photographed symbols must decode, with corners reported on the original image
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { NotFoundException } from '@zxing/library';
+import { PDF417HealthcareEncoder } from './pdf417-encoder';
+import { BarcodePoint, GrayImage, PixelBarcodeScanner, RgbaImage } from './pixel-scanner';
+import { rotateGray, rotateGrayByAngle } from './image-geometry';
+import { decodeImage } from './node-image-decoder';
+
+const PAYLOAD = '10\ta\t01\tREQ12345\tMüller-Lüdenscheidt\tJürgen\t19850615\tMaximilianstraße';
+const MODULE_WIDTH = 2; // Pixels per module
+const ROW_HEIGHT = 6; // Pixels per row (PDF417 rows are at least three modules high)
+const SYMBOL_LEFT = 150;
+const SYMBOL_TOP = 250;
+const CORNER_TOLERANCE = 3;
+const SKEW_CORNER_TOLERANCE = 5;
+
+/**
+ * White page with the payload's symbol at SYMBOL_LEFT/SYMBOL_TOP; returns the page and the symbol's corners
+ */
+function renderPage(payload: string): { page: GrayImage; corners: BarcodePoint[] } {
+  const matrix = new PDF417HealthcareEncoder().toMatrix(payload);
+  const symbolWidth = matrix.columns * MODULE_WIDTH;
+  const symbolHeight = matrix.rows * ROW_HEIGHT;
+  const width = SYMBOL_LEFT * 2 + symbolWidth;
+  const height = SYMBOL_TOP + symbolHeight + 100;
+  const data = new Uint8ClampedArray(width * height).fill(255);
+
+  for (let row = 0; row < matrix.rows; row++) {
+    for (let column = 0; column < matrix.columns; column++) {
+      if (!matrix.modules[row * matrix.columns + column]) continue;
+      for (let y = 0; y < ROW_HEIGHT; y++) {
+        const offset = (SYMBOL_TOP + row * ROW_HEIGHT + y) * width + SYMBOL_LEFT + column * MODULE_WIDTH;
+        data.fill(0, offset, offset + MODULE_WIDTH);
+      }
+    }
+  }
+
+  const right = SYMBOL_LEFT + symbolWidth;
+  const bottom = SYMBOL_TOP + symbolHeight;
+  return {
+    page: { width, height, data },
+    corners: [{ x: SYMBOL_LEFT, y: SYMBOL_TOP }, { x: right, y: SYMBOL_TOP }, { x: right, y: bottom }, { x: SYMBOL_LEFT, y: bottom }]
+  };
+}
+
+function toRgba({ width, height, data }: GrayImage): RgbaImage {
+  const rgba = new Uint8ClampedArray(width * height * 4).fill(255);
+  data.forEach((value, pixel) => rgba.fill(value, pixel * 4, pixel * 4 + 3));
+  return { width, height, data: rgba };
+}
+
+/**
+ * Where a page point ends up after rotateGrayByAngle (the inverse of its toSource mapping)
+ */
+function rotatePoint(page: GrayImage, rotated: GrayImage, degrees: number, { x, y }: BarcodePoint): BarcodePoint {
+  const radians = (degrees * Math.PI) / 180;
+  const dx = x - page.width / 2;
+  const dy = y - page.height / 2;
+  return {
+    x: rotated.width / 2 + dx * Math.cos(radians) - dy * Math.sin(radians),
+    y: rotated.height / 2 + dx * Math.sin(radians) + dy * Math.cos(radians)
+  };
+}
+
+function assertCorners(actual: BarcodePoint[], expected: BarcodePoint[], tolerance: number) {
+  assert.equal(actual.length, 4);
+  actual.forEach((corner, index) => {
+    const distance = Math.hypot(corner.x - expected[index].x, corner.y - expected[index].y);
+    assert.ok(
+      distance <= tolerance,
+      `corner ${index} at ${corner.x.toFixed(1)},${corner.y.toFixed(1)} is ${distance.toFixed(1)} px from ${expected[index].x},${expected[index].y}`
+    );
+  });
+}
+
+describe('PixelBarcodeScanner', () => {
+  const scanner = new PixelBarcodeScanner();
+  const { page, corners } = renderPage(PAYLOAD);
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('decodes an upright symbol with its ISO-8859-1 bytes and corners', () => {
+    const result = scanner.scan(toRgba(page));
+    assert.equal(result.text, PAYLOAD);
+    assert.deepEqual(Array.from(result.rawBytes), Array.from(PAYLOAD, char => char.charCodeAt(0)));
+    assert.equal(result.strategy, 'full image');
+    assert.equal(result.rotation, 0);
+    assertCorners(result.corners, corners, CORNER_TOLERANCE);
+  });
+
+  for (const degrees of [90, 180, 270] as const) {
+    it(`decodes a symbol turned ${degrees}° and maps its corners back`, () => {
+      const rotated = rotateGray(page, degrees);
+      const result = scanner.scan(toRgba(rotated.image));
+      assert.equal(result.text, PAYLOAD);
+      // The rotation that turns the image upright again
+      assert.equal(result.rotation, (360 - degrees) % 360);
+
+      // Corners are reported in the rotated image; map them back onto the upright page to compare
+      assertCorners(result.corners.map(rotated.toSource), corners, CORNER_TOLERANCE);
+    });
+  }
+
+  for (const degrees of [-12, -8, 8, 12]) {
+    it(`deskews a symbol tilted by ${degrees}°`, () => {
+      const tilted = rotateGrayByAngle(page, degrees).image;
+      const result = scanner.scan(toRgba(tilted));
+      assert.equal(result.text, PAYLOAD);
+      assert.equal(result.strategy, 'deskewed');
+      assert.ok(Math.abs(result.rotation + degrees) <= 1, `rotation ${result.rotation} undoes ${degrees}°`);
+      assertCorners(result.corners, corners.map(corner => rotatePoint(page, tilted, degrees, corner)), SKEW_CORNER_TOLERANCE);
+    });
+  }
+
+  it('reports progress and stops when the signal is aborted', () => {
+    const blank: GrayImage = { width: 400, height: 300, data: new Uint8ClampedArray(400 * 300).fill(255) };
+    const controller = new AbortController();
+    const strategies: string[] = [];
+    assert.throws(
+      () => scanner.scan(toRgba(blank), {
+        signal: controller.signal,
+        onProgress: progress => {
+          strategies.push(progress.strategy);
+          if (progress.attempt === 2) controller.abort(new Error('cancelled'));
+        }
+      }),
+      /cancelled/
+    );
+    assert.deepEqual(strategies, ['full image', 'enhanced contrast']);
+  });
+
+  it('throws NotFoundException when no attempt finds a symbol', () => {
+    const blank: GrayImage = { width: 200, height: 150, data: new Uint8ClampedArray(200 * 150).fill(255) };
+    assert.throws(() => scanner.scan(toRgba(blank)), NotFoundException);
+  });
+
+  it('decodes the bundled sample scan', () => {
+    const sample = decodeImage(new Uint8Array(readFileSync(path.join(__dirname, '../../test/barcode.jpg'))));
+    const fields = scanner.scan(sample).text.split('\t');
+    assert.equal(fields[0], '06');
+    assert.equal(fields[4], 'Leuthäuser');
+  });
+});
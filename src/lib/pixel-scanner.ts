@@ -0,0 +1,464 @@
+// Purpose: DOM-free PDF417 scanning pipeline on raw pixel buffers
+// Resize, contrast, multi-resolution and crop-region attempts run the same in browsers, Web Workers and Node.js
+
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  NotFoundException,
+  PDF417Reader,
+  Result,
+  ResultMetadataType,
+  RGBLuminanceSource,
+  ZXingStringEncoding
+} from '@zxing/library';
+import { estimateSkew, findPageQuad, rotateGray, rotateGrayByAngle, TransformedImage, warpPerspective } from './image-geometry';
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array | Uint8ClampedArray; // RGBA, 4 bytes per pixel, row by row
+}
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // Luminance, 1 byte per pixel, row by row
+}
+
+export interface CropRegion {
+  name: string;
+  x: number; // Left edge as fraction of the image width
+  y: number; // Top edge as fraction of the image height
+  width: number;
+  height: number;
+}
+
+export interface BarcodePoint {
+  x: number;
+  y: number;
+}
+
+export interface ScanResult {
+  text: string;
+  rawBytes: Uint8Array; // Payload bytes in the symbol's character set (ISO-8859-1 unless the text needs more)
+  strategy: string; // Attempt that succeeded, e.g. "bottom-right region"
+  region: CropRegion | null; // Crop of the (rotated) original image (null: whole image)
+  scale: number; // Size of the decoded image relative to the original (or crop)
+  rotation: number; // Degrees clockwise the image was turned before decoding
+  corners: BarcodePoint[]; // Barcode's own top-left, top-right, bottom-right, bottom-left in original image pixels (empty if unknown)
+  errorCorrectionLevel: number | null; // PDF417 EC level 0-8
+  elapsedMs: number; // Time from the start of the scan, including failed attempts
+}
+
+export interface ScanProgress {
+  strategy: string; // Human-readable attempt, e.g. "bottom-right region"
+  attempt: number; // 1-based; 0 while the image is still being loaded
+  total: number;
+}
+
+export interface PixelScanOptions {
+  onProgress?: (progress: ScanProgress) => void; // Called before each attempt
+  signal?: AbortSignal; // Checked between attempts
+}
+
+export interface PixelScannerOptions {
+  maxWidth?: number; // Larger images are scaled down first (default 1200)
+  maxHeight?: number; // (default 1600)
+  contrastFactor?: number; // Contrast boost of the second attempt (default 1.5)
+  resolutionScales?: number[]; // Scales of the original image to try (default 50%, 25%, 75%, 100%)
+  cropRegions?: CropRegion[]; // Regions of the original image to try (default: DEFAULT_CROP_REGIONS)
+}
+
+// Regions where German healthcare forms print the barcode, most likely first
+export const DEFAULT_CROP_REGIONS: CropRegion[] = [
+  { name: 'bottom-right', x: 0.4, y: 0.6, width: 0.6, height: 0.4 },
+  { name: 'right-bottom', x: 0.5, y: 0.5, width: 0.5, height: 0.5 },
+  { name: 'bottom-center', x: 0.2, y: 0.7, width: 0.6, height: 0.3 },
+  { name: 'bottom-full', x: 0.0, y: 0.65, width: 1.0, height: 0.35 },
+  { name: 'bottom-left', x: 0.0, y: 0.6, width: 0.6, height: 0.4 },
+  { name: 'bottom-large', x: 0.0, y: 0.5, width: 1.0, height: 0.5 },
+  { name: 'center-right', x: 0.5, y: 0.3, width: 0.5, height: 0.5 },
+  { name: 'right-full', x: 0.6, y: 0.0, width: 0.4, height: 1.0 }
+];
+
+const DEFAULT_RESOLUTION_SCALES = [0.5, 0.25, 0.75, 1.0];
+// Images or regions below this size cannot hold a readable PDF417 symbol
+const MIN_SCAN_SIZE = 50;
+// Sideways and upside-down forms (the PDF417 detector itself only retries at 180 degrees on the same crop)
+const RIGHT_ANGLES = [90, 180, 270] as const;
+// Smaller skews are within what the detector tolerates
+const MIN_DESKEW_DEGREES = 1;
+// Page outlines are searched on a thumbnail of this size
+const PAGE_DETECTION_SIZE = 320;
+
+// Outside the browser window (Node.js, Web Workers) ZXing decodes ISO-8859-1 byte compaction through
+// decodeURIComponent, which throws on every byte above 0x7F, so forms with umlauts were never found
+ZXingStringEncoding.customDecoder = (bytes, encodingName) => {
+  if (/^(ISO-?8859-1|ASCII|US-ASCII)$/i.test(encodingName)) {
+    return Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  }
+  return new TextDecoder(encodingName).decode(bytes);
+};
+
+interface ScanAttempt {
+  name: string;
+  region: CropRegion | null;
+  createImage: () => AttemptImage | null; // null when the strategy does not apply to this image
+}
+
+interface AttemptImage {
+  image: GrayImage;
+  scale: number;
+  rotation: number;
+  toOriginal: (point: BarcodePoint) => BarcodePoint;
+}
+
+export class PixelBarcodeScanner {
+  private reader: PDF417Reader;
+  private hints: Map<DecodeHintType, unknown>;
+  private options: Required<PixelScannerOptions>;
+
+  constructor(options: PixelScannerOptions = {}) {
+    this.reader = new PDF417Reader();
+    this.hints = new Map<DecodeHintType, unknown>([
+      [DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.PDF_417]],
+      [DecodeHintType.TRY_HARDER, true]
+    ]);
+    this.options = {
+      maxWidth: options.maxWidth ?? 1200,
+      maxHeight: options.maxHeight ?? 1600,
+      contrastFactor: options.contrastFactor ?? 1.5,
+      resolutionScales: options.resolutionScales ?? DEFAULT_RESOLUTION_SCALES,
+      cropRegions: options.cropRegions ?? DEFAULT_CROP_REGIONS
+    };
+  }
+
+  /**
+   * Decode the first PDF417 barcode, trying every strategy in turn (upright first, then deskew, perspective
+   * and rotations); throws NotFoundException when all fail and the signal's reason when aborted
+   */
+  scan(image: RgbaImage, options: PixelScanOptions = {}): ScanResult {
+    const startedAt = Date.now();
+    const original = toGrayscale(image);
+    const attempts = this.getAttempts(original);
+    for (const [index, attempt] of attempts.entries()) {
+      options.signal?.throwIfAborted();
+      options.onProgress?.({ strategy: attempt.name, attempt: index + 1, total: attempts.length });
+      const attemptImage = attempt.createImage();
+      if (!attemptImage) continue;
+      try {
+        const result = this.decode(attempt, attemptImage, startedAt);
+        console.log(`[PixelScanner] ✅ Decoded ${result.text.length} characters (${attempt.name}, ${result.elapsedMs} ms)`);
+        return result;
+      } catch (error) {
+        if (!(error instanceof NotFoundException)) {
+          console.log(`[PixelScanner] ${attempt.name} attempt failed:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+    throw new NotFoundException('No PDF417 barcode found in image');
+  }
+
+  /**
+   * Single attempt on the image as is, for video frames where the next frame is the retry
+   */
+  scanOnce(image: RgbaImage): ScanResult {
+    const original = toGrayscale(image);
+    return this.decode(
+      { name: 'single frame', region: null },
+      { image: original, scale: 1, rotation: 0, toOriginal: point => point },
+      Date.now()
+    );
+  }
+
+  /**
+   * Attempts in order of likelihood; images are created on demand so a hit skips the remaining work
+   */
+  private getAttempts(original: GrayImage): ScanAttempt[] {
+    const { maxWidth, maxHeight, contrastFactor } = this.options;
+    const fitted = fitWithin(original, maxWidth, maxHeight);
+    const attempts: ScanAttempt[] = [
+      { name: 'full image', region: null, createImage: () => fromScaled(fitted, original.width) },
+      { name: 'enhanced contrast', region: null, createImage: () => fromScaled(enhanceContrast(fitted, contrastFactor), original.width) }
+    ];
+
+    this.options.resolutionScales.forEach(scale => {
+      const width = Math.floor(original.width * scale);
+      const height = Math.floor(original.height * scale);
+      if (width >= MIN_SCAN_SIZE && height >= MIN_SCAN_SIZE && (width !== fitted.width || height !== fitted.height)) {
+        attempts.push({
+          name: `${Math.round(scale * 100)}% resolution`,
+          region: null,
+          createImage: () => fromScaled(scale === 1 ? original : resizeGray(original, width, height), original.width)
+        });
+      }
+    });
+
+    attempts.push(...this.getRegionAttempts(() => ({ image: original, toSource: point => point }), original.width, original.height, 0));
+
+    // Phone photos: barcode at an angle, or the whole form lying on a desk
+    attempts.push(
+      { name: 'deskewed', region: null, createImage: () => this.deskew(original, fitted) },
+      { name: 'perspective corrected', region: null, createImage: () => this.correctPerspective(original) }
+    );
+
+    RIGHT_ANGLES.forEach(rotation => {
+      const rotated = lazy(() => rotateGray(original, rotation));
+      const sideways = rotation !== 180;
+      attempts.push({
+        name: `rotated ${rotation}°`,
+        region: null,
+        createImage: () => fromScaled(fitWithin(rotated().image, maxWidth, maxHeight), rotated().image.width, { rotation, toSource: rotated().toSource })
+      });
+      attempts.push(...this.getRegionAttempts(rotated, sideways ? original.height : original.width, sideways ? original.width : original.height, rotation));
+    });
+
+    // Light-on-dark prints and negative scans
+    attempts.push({
+      name: 'inverted colors',
+      region: null,
+      createImage: () => fromScaled({ ...fitted, data: fitted.data.map(value => 255 - value) }, original.width)
+    });
+    return attempts;
+  }
+
+  /**
+   * One attempt per crop region of a source image of the given size (the original or a rotation of it)
+   */
+  private getRegionAttempts(source: () => TransformedImage, width: number, height: number, rotation: number): ScanAttempt[] {
+    return this.options.cropRegions
+      .filter(region => Math.floor(width * region.width) >= MIN_SCAN_SIZE && Math.floor(height * region.height) >= MIN_SCAN_SIZE)
+      .map(region => ({
+        name: rotation ? `${region.name} region, rotated ${rotation}°` : `${region.name} region`,
+        region,
+        createImage: () => {
+          const left = Math.floor(width * region.x);
+          const top = Math.floor(height * region.y);
+          const cropWidth = Math.floor(width * region.width);
+          const cropped = cropGray(source().image, left, top, cropWidth, Math.floor(height * region.height));
+          return fromScaled(fitWithin(cropped, this.options.maxWidth, this.options.maxHeight), cropWidth, {
+            left,
+            top,
+            rotation,
+            toSource: source().toSource
+          });
+        }
+      }));
+  }
+
+  /**
+   * Rotate the fitted image so the barcode's bars are vertical; the angle is measured on the original,
+   * where the narrow bars are still resolved. Near-sideways barcodes are measured on a 90° rotation.
+   */
+  private deskew(original: GrayImage, fitted: GrayImage): AttemptImage | null {
+    let angle = estimateSkew(original);
+    if (angle === null) {
+      const sidewaysAngle = estimateSkew(rotateGray(original, 90).image);
+      angle = sidewaysAngle === null ? null : 90 + sidewaysAngle;
+    }
+    if (angle === null || Math.abs(angle) < MIN_DESKEW_DEGREES) {
+      return null;
+    }
+
+    const rotated = rotateGrayByAngle(fitted, angle);
+    const scale = fitted.width / original.width;
+    return {
+      image: rotated.image,
+      scale,
+      rotation: Math.round(angle * 10) / 10,
+      toOriginal: point => {
+        const fittedPoint = rotated.toSource(point);
+        return { x: fittedPoint.x / scale, y: fittedPoint.y / scale };
+      }
+    };
+  }
+
+  /**
+   * Find the sheet of paper in a photo and warp it to an upright rectangle
+   */
+  private correctPerspective(original: GrayImage): AttemptImage | null {
+    const thumbnail = fitWithin(original, PAGE_DETECTION_SIZE, PAGE_DETECTION_SIZE);
+    const quad = findPageQuad(thumbnail);
+    if (!quad) {
+      return null;
+    }
+
+    const ratio = original.width / thumbnail.width;
+    const corners = quad.map(point => ({ x: (point.x + 0.5) * ratio, y: (point.y + 0.5) * ratio }));
+    const warped = warpPerspective(original, corners, this.options.maxWidth, this.options.maxHeight);
+    const topEdge = Math.hypot(corners[1].x - corners[0].x, corners[1].y - corners[0].y);
+    return { image: warped.image, scale: warped.image.width / topEdge, rotation: 0, toOriginal: warped.toSource };
+  }
+
+  /**
+   * Decode one attempt; points are mapped back from the attempt image to the original
+   */
+  private decode(attempt: Pick<ScanAttempt, 'name' | 'region'>, attemptImage: AttemptImage, startedAt: number): ScanResult {
+    const { image, scale, rotation, toOriginal } = attemptImage;
+    const source = new RGBLuminanceSource(image.data, image.width, image.height);
+    const result = this.reader.decode(new BinaryBitmap(new HybridBinarizer(source)), this.hints);
+
+    const { corners, flipped } = locateCorners(result, image);
+    return {
+      text: result.getText(),
+      rawBytes: getRawBytes(result),
+      strategy: attempt.name,
+      region: attempt.region,
+      scale,
+      rotation: flipped ? (rotation + 180) % 360 : rotation,
+      corners: corners.map(toOriginal),
+      errorCorrectionLevel: getErrorCorrectionLevel(result),
+      elapsedMs: Date.now() - startedAt
+    };
+  }
+}
+
+/**
+ * Attempt image that is a scaled copy of a source (or of a crop at left/top); points map back through toSource
+ */
+function fromScaled(
+  image: GrayImage,
+  sourceWidth: number,
+  options: { left?: number; top?: number; rotation?: number; toSource?: (point: BarcodePoint) => BarcodePoint } = {}
+): AttemptImage {
+  const { left = 0, top = 0, rotation = 0, toSource = (point: BarcodePoint) => point } = options;
+  const scale = image.width / sourceWidth;
+  return { image, scale, rotation, toOriginal: point => toSource({ x: left + point.x / scale, y: top + point.y / scale }) };
+}
+
+function lazy<T>(create: () => T): () => T {
+  let value: T | undefined;
+  return () => (value ??= create());
+}
+
+/**
+ * PDF417 detectors report the corners as top-left, bottom-left, top-right, bottom-right
+ */
+function getCorners(result: Result): BarcodePoint[] {
+  const points = result.getResultPoints().slice(0, 4);
+  if (points.length < 4 || points.some(point => !point)) {
+    return [];
+  }
+  const [topLeft, bottomLeft, topRight, bottomRight] = points.map(point => ({ x: point.getX(), y: point.getY() }));
+  return [topLeft, topRight, bottomRight, bottomLeft];
+}
+
+/**
+ * The detector retries on a 180° rotated copy and then reports points in that copy; of the two readings,
+ * the one with a dark guard bar just inside the barcode's left edge is the real position
+ */
+function locateCorners(result: Result, image: GrayImage): { corners: BarcodePoint[]; flipped: boolean } {
+  const corners = getCorners(result);
+  const flippedCorners = corners.map(({ x, y }) => ({ x: image.width - 1 - x, y: image.height - 1 - y }));
+  const flipped = corners.length > 0 && leftBarDarkness(image, flippedCorners) > leftBarDarkness(image, corners);
+  return { corners: flipped ? flippedCorners : corners, flipped };
+}
+
+function leftBarDarkness(image: GrayImage, [topLeft, topRight, , bottomLeft]: BarcodePoint[]): number {
+  const width = Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y);
+  const inset = width > 0 ? Math.max(1, width * 0.01) / width : 0;
+  let dark = 0;
+  for (let step = 2; step <= 8; step++) {
+    const along = step / 10;
+    const x = Math.round(topLeft.x + (bottomLeft.x - topLeft.x) * along + (topRight.x - topLeft.x) * inset);
+    const y = Math.round(topLeft.y + (bottomLeft.y - topLeft.y) * along + (topRight.y - topLeft.y) * inset);
+    if (x >= 0 && y >= 0 && x < image.width && y < image.height && image.data[y * image.width + x] < 128) {
+      dark++;
+    }
+  }
+  return dark;
+}
+
+/**
+ * ZXing's PDF417 decoder keeps no byte copy; re-encode in ISO-8859-1, the PDF417 default, or UTF-8 (ECI)
+ */
+function getRawBytes(result: Result): Uint8Array {
+  const rawBytes = result.getRawBytes();
+  if (rawBytes) {
+    return rawBytes;
+  }
+  const text = result.getText();
+  return /^[\u0000-\u00ff]*$/.test(text)
+    ? Uint8Array.from(text, char => char.charCodeAt(0))
+    : new TextEncoder().encode(text);
+}
+
+function getErrorCorrectionLevel(result: Result): number | null {
+  const level = parseInt(String(result.getResultMetadata()?.get(ResultMetadataType.ERROR_CORRECTION_LEVEL)));
+  return Number.isNaN(level) ? null : level;
+}
+
+/**
+ * Luminance from RGBA; transparent pixels are blended onto white
+ */
+export function toGrayscale({ width, height, data }: RgbaImage): GrayImage {
+  const gray = new Uint8ClampedArray(width * height);
+  for (let pixel = 0, offset = 0; pixel < gray.length; pixel++, offset += 4) {
+    const alpha = data[offset + 3] / 255;
+    const luminance = (data[offset] * 299 + data[offset + 1] * 587 + data[offset + 2] * 114) / 1000;
+    gray[pixel] = luminance * alpha + 255 * (1 - alpha);
+  }
+  return { width, height, data: gray };
+}
+
+/**
+ * Scale to the given size: area averaging when shrinking (keeps thin bars), nearest neighbour when enlarging
+ */
+export function resizeGray(image: GrayImage, width: number, height: number): GrayImage {
+  const data = new Uint8ClampedArray(width * height);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.floor(y * scaleY);
+    const bottom = Math.max(top + 1, Math.floor((y + 1) * scaleY));
+    for (let x = 0; x < width; x++) {
+      const left = Math.floor(x * scaleX);
+      const right = Math.max(left + 1, Math.floor((x + 1) * scaleX));
+      let sum = 0;
+      for (let sourceY = top; sourceY < bottom; sourceY++) {
+        for (let sourceX = left; sourceX < right; sourceX++) {
+          sum += image.data[sourceY * image.width + sourceX];
+        }
+      }
+      data[y * width + x] = sum / ((bottom - top) * (right - left));
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Scale down (never up) to fit the maximum size, keeping the aspect ratio
+ */
+export function fitWithin(image: GrayImage, maxWidth: number, maxHeight: number): GrayImage {
+  const scale = Math.min(1, maxWidth / image.width, maxHeight / image.height);
+  return scale < 1
+    ? resizeGray(image, Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)))
+    : image;
+}
+
+/**
+ * Copy a rectangle, clipped to the image
+ */
+export function cropGray(image: GrayImage, x: number, y: number, width: number, height: number): GrayImage {
+  const left = Math.max(0, x);
+  const top = Math.max(0, y);
+  const clippedWidth = Math.max(0, Math.min(width, image.width - left));
+  const clippedHeight = Math.max(0, Math.min(height, image.height - top));
+  const data = new Uint8ClampedArray(clippedWidth * clippedHeight);
+  for (let row = 0; row < clippedHeight; row++) {
+    const start = (top + row) * image.width + left;
+    data.set(image.data.subarray(start, start + clippedWidth), row * clippedWidth);
+  }
+  return { width: clippedWidth, height: clippedHeight, data };
+}
+
+/**
+ * Stretch values around mid-gray (factor > 1 increases contrast)
+ */
+export function enhanceContrast(image: GrayImage, factor: number): GrayImage {
+  const intercept = 128 * (1 - factor);
+  return { ...image, data: image.data.map(value => value * factor + intercept) };
+}
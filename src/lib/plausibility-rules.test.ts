@@ -0,0 +1,188 @@
+// Purpose: Tests for the plausibility rule engine and each built-in rule
+// Every default rule is triggered once on an otherwise plausible Muster 10 or Muster 6 form
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { FormSchema, FormType, PlausibilityRule } from '@/types/healthcare';
+import { getMuster10Schema, getMuster6Schema } from './form-schemas';
+import { PlausibilityRuleEngine, createPersonengruppeAgeRule, getDefaultPlausibilityRules } from './plausibility-rules';
+
+const REFERENCE_DATE = new Date(2024, 11, 27);
+
+const MUSTER_10 = [
+  '10', 'a', '01', 'REQ12345', 'Mustermann', 'Max', '19850615', '20251231',
+  '108310400', 'AOK Bayern', 'BY', 'A123456780', '1', '00', '01',
+  '711234500', '987654421', '711234500', '987654421', '20241226', 'M',
+  'Dr.', '80331', 'München', 'Maximilianstraße', '1',
+  'V70.9 - Routineuntersuchung', '', 'Ja', 'Blutbild, Leberwerte'
+];
+
+const MUSTER_6 = [
+  '06', '', '05', '', 'Schmidt', 'Klara', '19620315', '', '105177505',
+  'Techniker Krankenkasse', '46', 'Y207887976', '1', '00', '00',
+  '469601100', '948301053', '20231116', 'W', 'Dr.', '', '', '60322', 'Frankfurt',
+  'Sömmerringstr.', '12', '', 'Innere Medizin', '', '', '', '', '', '', '',
+  'Kardiologie', '', '', '', 'I10.90', 'Abklärung Belastungsdyspnoe'
+];
+
+/**
+ * Raw fields with some schema fields replaced by name
+ */
+function withValues(schema: FormSchema, fields: string[], values: Record<string, string>): string[] {
+  const updated = [...fields];
+  Object.entries(values).forEach(([name, value]) => {
+    const fieldDef = schema.fields.find(field => field.name === name);
+    assert.ok(fieldDef, `${schema.name} has a field ${name}`);
+    updated[fieldDef.index] = value;
+  });
+  return updated;
+}
+
+function evaluate(engine: PlausibilityRuleEngine, formType: FormType, schema: FormSchema, fields: string[]) {
+  return engine.evaluate(formType, schema, fields, {});
+}
+
+describe('default plausibility rules', () => {
+  const muster10 = getMuster10Schema();
+  const muster6 = getMuster6Schema();
+  const engine = new PlausibilityRuleEngine(getDefaultPlausibilityRules(), { referenceDate: REFERENCE_DATE });
+  const rulesFor10 = (values: Record<string, string>) =>
+    evaluate(engine, '10', muster10, withValues(muster10, MUSTER_10, values)).map(issue => issue.rule);
+
+  it('finds nothing on plausible forms', () => {
+    assert.deepEqual(evaluate(engine, '10', muster10, MUSTER_10), []);
+    assert.deepEqual(evaluate(engine, '6', muster6, MUSTER_6), []);
+  });
+
+  it('birth-date-in-future', () => {
+    assert.deepEqual(rulesFor10({ geburtsdatum: '20250101', ausstellungsdatum: '' }), ['birth-date-in-future']);
+    // A partial birth date counts from its earliest day
+    assert.deepEqual(rulesFor10({ geburtsdatum: '20240000' }), []);
+  });
+
+  it('issue-date-before-birth', () => {
+    const issues = evaluate(engine, '10', muster10, withValues(muster10, MUSTER_10, { ausstellungsdatum: '19850614' }));
+    assert.deepEqual(issues.map(issue => [issue.rule, issue.field, issue.severity, issue.code]), [
+      ['issue-date-before-birth', 'ausstellungsdatum', 'error', 'datePlausibility']
+    ]);
+    assert.equal(issues[0].index, 19);
+    assert.equal(issues[0].value, '19850614');
+  });
+
+  it('coverage-ended-before-issue', () => {
+    assert.deepEqual(rulesFor10({ versicherungsschutzEnde: '20241130' }), ['coverage-ended-before-issue']);
+  });
+
+  it('personengruppe-04-age', () => {
+    assert.deepEqual(rulesFor10({ geburtsdatum: '20100101', besonderePersonengruppe: '04' }), ['personengruppe-04-age']);
+    assert.deepEqual(rulesFor10({ besonderePersonengruppe: '04' }), []);
+    // 2006 read as 01.01.2006 makes the patient 18 on the issue date, so no certain conflict
+    assert.deepEqual(rulesFor10({ geburtsdatum: '20060000', besonderePersonengruppe: '04' }), []);
+  });
+
+  it('versichertenart-kvnr', () => {
+    assert.deepEqual(rulesFor10({ versichertenId: '' }), ['versichertenart-kvnr']);
+    assert.deepEqual(rulesFor10({ versichertenart: '' }), ['versichertenart-kvnr']);
+  });
+
+  it('referral-to-own-practice', () => {
+    const ownPractice = new PlausibilityRuleEngine(getDefaultPlausibilityRules(), {
+      referenceDate: REFERENCE_DATE,
+      practiceBsnr: ['469601100']
+    });
+    assert.deepEqual(evaluate(ownPractice, '6', muster6, MUSTER_6).map(issue => [issue.rule, issue.field]), [
+      ['referral-to-own-practice', 'bsnrErstveranlasser']
+    ]);
+    // Attached to Muster 6 only
+    assert.deepEqual(evaluate(ownPractice, '10', muster10, withValues(muster10, MUSTER_10, { bsnrErstveranlasser: '469601100' })), []);
+  });
+
+  it('lab-order-without-diagnosis', () => {
+    assert.deepEqual(rulesFor10({ diagnose: '' }), ['lab-order-without-diagnosis']);
+    assert.deepEqual(rulesFor10({ diagnose: '', verdachtsdiagnose: 'Anämie' }), []);
+  });
+
+  it('covers every default rule', () => {
+    assert.deepEqual(getDefaultPlausibilityRules().map(rule => rule.id), [
+      'birth-date-in-future',
+      'issue-date-before-birth',
+      'coverage-ended-before-issue',
+      'personengruppe-04-age',
+      'versichertenart-kvnr',
+      'referral-to-own-practice',
+      'lab-order-without-diagnosis'
+    ]);
+  });
+});
+
+describe('PlausibilityRuleEngine', () => {
+  const muster10 = getMuster10Schema();
+  const alwaysWarn: PlausibilityRule = {
+    id: 'always-warn',
+    description: 'Warns on every form',
+    check: () => [{ code: 'plausibility', severity: 'warning', message: 'first' }]
+  };
+
+  before(() => {
+    mock.method(console, 'log', () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  it('registers, replaces and unregisters rules', () => {
+    const engine = new PlausibilityRuleEngine();
+    engine.register(alwaysWarn);
+    assert.deepEqual(evaluate(engine, '10', muster10, MUSTER_10).map(issue => [issue.rule, issue.message]), [['always-warn', 'first']]);
+
+    engine.register({ ...alwaysWarn, check: () => [{ code: 'plausibility', severity: 'info', message: 'second' }] });
+    assert.deepEqual(evaluate(engine, '10', muster10, MUSTER_10).map(issue => issue.message), ['second']);
+
+    engine.unregister('always-warn');
+    assert.deepEqual(engine.getRules(), []);
+    assert.equal(engine.isEnabled('always-warn'), false);
+  });
+
+  it('enables and disables rules by id, including rules registered as disabled', () => {
+    const engine = new PlausibilityRuleEngine([alwaysWarn, { ...alwaysWarn, id: 'off', enabled: false }]);
+    assert.equal(engine.isEnabled('off'), false);
+    assert.deepEqual(evaluate(engine, '10', muster10, MUSTER_10).map(issue => issue.rule), ['always-warn']);
+
+    engine.setEnabled('always-warn', false);
+    engine.setEnabled('off', true);
+    assert.deepEqual(evaluate(engine, '10', muster10, MUSTER_10).map(issue => issue.rule), ['off']);
+  });
+
+  it('attaches rules to form types', () => {
+    const engine = new PlausibilityRuleEngine([{ ...alwaysWarn, formTypes: ['6'] }]);
+    assert.deepEqual(engine.getRules('10'), []);
+    assert.equal(engine.getRules('6').length, 1);
+    assert.equal(engine.getRules().length, 1);
+    assert.deepEqual(evaluate(engine, '10', muster10, MUSTER_10), []);
+  });
+
+  it('merges practice settings', () => {
+    const engine = new PlausibilityRuleEngine([], { referenceDate: REFERENCE_DATE });
+    engine.configure({ practiceBsnr: ['711234500'] });
+    assert.deepEqual(engine.getSettings(), { referenceDate: REFERENCE_DATE, practiceBsnr: ['711234500'] });
+  });
+
+  it('skips rules that throw', () => {
+    const engine = new PlausibilityRuleEngine([
+      { id: 'broken', description: 'Throws', check: () => { throw new Error('broken rule'); } },
+      alwaysWarn
+    ]);
+    assert.deepEqual(evaluate(engine, '10', muster10, MUSTER_10).map(issue => issue.rule), ['always-warn']);
+  });
+
+  it('creates age rules for other special person groups', () => {
+    const engine = new PlausibilityRuleEngine([createPersonengruppeAgeRule('08', 65, 'Group 08 for seniors')], {
+      referenceDate: REFERENCE_DATE
+    });
+    const fields = withValues(muster10, MUSTER_10, { besonderePersonengruppe: '08' });
+    assert.deepEqual(evaluate(engine, '10', muster10, fields).map(issue => [issue.rule, issue.message]), [
+      ['personengruppe-08-age', 'Special person group 08 is implausible for a patient aged 39 (expected 65 or older)']
+    ]);
+  });
+});
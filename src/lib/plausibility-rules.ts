@@ -0,0 +1,263 @@
+// Purpose: Cross-field plausibility rules for parsed healthcare forms
+// Rule sets are attached per form type and can be enabled, disabled or extended per practice
+
+import {
+  FormSchema,
+  FormType,
+  PlausibilityRule,
+  PlausibilityRuleContext,
+  PlausibilitySettings,
+  ValidationIssue,
+  ValidationSeverity
+} from '@/types/healthcare';
+import { isPartialDate, parseDateParts, validateDate } from './utils';
+
+export class PlausibilityRuleEngine {
+  private rules: Map<string, PlausibilityRule>;
+  private disabledRules: Set<string>;
+  private settings: PlausibilitySettings;
+
+  constructor(rules: PlausibilityRule[] = [], settings: PlausibilitySettings = {}) {
+    this.rules = new Map();
+    this.disabledRules = new Set();
+    this.settings = settings;
+    rules.forEach(rule => this.register(rule));
+  }
+
+  /**
+   * Add a rule; a rule with the same id is replaced
+   */
+  register(rule: PlausibilityRule): void {
+    this.rules.set(rule.id, rule);
+    this.setEnabled(rule.id, rule.enabled !== false);
+  }
+
+  unregister(ruleId: string): void {
+    this.rules.delete(ruleId);
+    this.disabledRules.delete(ruleId);
+  }
+
+  setEnabled(ruleId: string, enabled: boolean): void {
+    if (enabled) {
+      this.disabledRules.delete(ruleId);
+    } else {
+      this.disabledRules.add(ruleId);
+    }
+  }
+
+  isEnabled(ruleId: string): boolean {
+    return this.rules.has(ruleId) && !this.disabledRules.has(ruleId);
+  }
+
+  /**
+   * Merge practice settings (e.g., own BSNRs) into the current settings
+   */
+  configure(settings: PlausibilitySettings): void {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  getSettings(): PlausibilitySettings {
+    return this.settings;
+  }
+
+  /**
+   * Get all rules, or the rules attached to one form type
+   */
+  getRules(formType?: FormType): PlausibilityRule[] {
+    const rules = Array.from(this.rules.values());
+    return formType ? rules.filter(rule => !rule.formTypes || rule.formTypes.includes(formType)) : rules;
+  }
+
+  /**
+   * Run all enabled rules for the form type and tag their issues with the rule id
+   */
+  evaluate(formType: FormType, schema: FormSchema, fields: string[], data: Record<string, unknown>): ValidationIssue[] {
+    const context: PlausibilityRuleContext = {
+      formType,
+      schema,
+      data,
+      settings: this.settings,
+      getRawValue: fieldName => {
+        const fieldDef = schema.fields.find(field => field.name === fieldName);
+        return fieldDef ? fields[fieldDef.index] || '' : '';
+      },
+      getFieldDefinition: fieldName => schema.fields.find(field => field.name === fieldName)
+    };
+
+    return this.getRules(formType)
+      .filter(rule => this.isEnabled(rule.id))
+      .flatMap(rule => {
+        try {
+          return rule.check(context).map(issue => ({ ...issue, rule: rule.id }));
+        } catch (error) {
+          console.log('[PlausibilityRules] Rule failed:', rule.id, error);
+          return [];
+        }
+      });
+  }
+}
+
+/**
+ * Build an issue for a top-level field, filling in its index and raw value
+ */
+export function createRuleIssue(
+  context: PlausibilityRuleContext,
+  fieldName: string,
+  severity: ValidationSeverity,
+  message: string,
+  code: ValidationIssue['code'] = 'plausibility'
+): ValidationIssue {
+  return {
+    field: fieldName,
+    index: context.getFieldDefinition(fieldName)?.index,
+    code,
+    severity,
+    value: context.getRawValue(fieldName),
+    message
+  };
+}
+
+/**
+ * Raw YYYYMMDD value of a date field, if it is a valid (possibly partial) date
+ */
+function getValidDate(context: PlausibilityRuleContext, fieldName: string): string | undefined {
+  const fieldDef = context.getFieldDefinition(fieldName);
+  const value = context.getRawValue(fieldName);
+  return fieldDef?.type === 'date' && validateDate(value, fieldDef.allowPartialDate) ? value : undefined;
+}
+
+/**
+ * Earliest YYYYMMDD date a possibly partial date can stand for (e.g., 19740000 -> 19740101)
+ */
+function earliestDate(value: string): string {
+  if (!isPartialDate(value)) {
+    return value;
+  }
+  const { month } = parseDateParts(value)!;
+  return `${value.substring(0, 4)}${String(month || 1).padStart(2, '0')}01`;
+}
+
+function toRawDate(date: Date): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0')
+  ].join('');
+}
+
+/**
+ * Completed years between two YYYYMMDD dates
+ */
+function ageAt(birth: string, date: string): number {
+  const years = Number(date.substring(0, 4)) - Number(birth.substring(0, 4));
+  return date.substring(4) < birth.substring(4) ? years - 1 : years;
+}
+
+/**
+ * Warn when a besondere Personengruppe is used for patients below a minimum age.
+ * Partial birth dates count as early as possible, so only certain conflicts are reported.
+ */
+export function createPersonengruppeAgeRule(personengruppe: string, minAge: number, description: string): PlausibilityRule {
+  return {
+    id: `personengruppe-${personengruppe}-age`,
+    description,
+    check: context => {
+      const birth = getValidDate(context, 'geburtsdatum');
+      if (context.getRawValue('besonderePersonengruppe') !== personengruppe || !birth) {
+        return [];
+      }
+
+      const date = getValidDate(context, 'ausstellungsdatum') || toRawDate(context.settings.referenceDate || new Date());
+      const age = ageAt(earliestDate(birth), date);
+      return age < minAge
+        ? [createRuleIssue(context, 'besonderePersonengruppe', 'warning',
+          `Special person group ${personengruppe} is implausible for a patient aged ${age} (expected ${minAge} or older)`)]
+        : [];
+    }
+  };
+}
+
+/**
+ * Built-in rules; every rule can be disabled by id through the engine
+ */
+export function getDefaultPlausibilityRules(): PlausibilityRule[] {
+  return [
+    {
+      id: 'birth-date-in-future',
+      description: 'Birth date must not lie in the future',
+      check: context => {
+        const birth = getValidDate(context, 'geburtsdatum');
+        const today = toRawDate(context.settings.referenceDate || new Date());
+        return birth && earliestDate(birth) > today
+          ? [createRuleIssue(context, 'geburtsdatum', 'error', `Birth date ${birth} lies in the future`, 'datePlausibility')]
+          : [];
+      }
+    },
+    {
+      id: 'issue-date-before-birth',
+      description: 'Issue date must not be before the birth date',
+      check: context => {
+        const birth = getValidDate(context, 'geburtsdatum');
+        const issued = getValidDate(context, 'ausstellungsdatum');
+        return birth && issued && issued < earliestDate(birth)
+          ? [createRuleIssue(context, 'ausstellungsdatum', 'error', `Issue date ${issued} is before the birth date ${birth}`, 'datePlausibility')]
+          : [];
+      }
+    },
+    {
+      id: 'coverage-ended-before-issue',
+      description: 'Insurance coverage must not end before the issue date',
+      check: context => {
+        const issued = getValidDate(context, 'ausstellungsdatum');
+        const coverageEnd = getValidDate(context, 'versicherungsschutzEnde');
+        return issued && coverageEnd && coverageEnd < issued
+          ? [createRuleIssue(context, 'versicherungsschutzEnde', 'warning',
+            `Insurance coverage ended on ${coverageEnd}, before the issue date ${issued}`, 'datePlausibility')]
+          : [];
+      }
+    },
+    createPersonengruppeAgeRule('04', 18, 'Special person group 04 (§ 264 SGB V) is expected for adult patients only'),
+    {
+      id: 'versichertenart-kvnr',
+      description: 'Insured person type and insurance number must be given together',
+      check: context => {
+        const versichertenart = context.getRawValue('versichertenart');
+        const versichertenId = context.getRawValue('versichertenId');
+        if (!context.getFieldDefinition('versichertenart') || !context.getFieldDefinition('versichertenId')) {
+          return [];
+        }
+        if (versichertenart && !versichertenId) {
+          return [createRuleIssue(context, 'versichertenId', 'warning',
+            `Insured person type ${versichertenart} is set but the insurance number is missing`)];
+        }
+        if (versichertenId && !versichertenart) {
+          return [createRuleIssue(context, 'versichertenart', 'warning',
+            `Insurance number ${versichertenId} is set but the insured person type is missing`)];
+        }
+        return [];
+      }
+    },
+    {
+      id: 'referral-to-own-practice',
+      description: 'Referrals should not come from the practice scanning them',
+      formTypes: ['6'],
+      check: context => {
+        const ownBsnr = context.settings.practiceBsnr || [];
+        const field = ['bsnrErstveranlasser', 'betriebsstaettennummer'].find(name => context.getRawValue(name));
+        const bsnr = field ? context.getRawValue(field) : '';
+        return field && ownBsnr.includes(bsnr)
+          ? [createRuleIssue(context, field, 'warning', `Referral was issued by this practice's own BSNR ${bsnr}`)]
+          : [];
+      }
+    },
+    {
+      id: 'lab-order-without-diagnosis',
+      description: 'Lab orders should state a diagnosis or suspected diagnosis',
+      formTypes: ['10'],
+      check: context =>
+        context.getRawValue('auftrag') && !context.getRawValue('diagnose') && !context.getRawValue('verdachtsdiagnose')
+          ? [createRuleIssue(context, 'diagnose', 'warning', 'Lab order has no diagnosis or suspected diagnosis')]
+          : []
+    }
+  ];
+}
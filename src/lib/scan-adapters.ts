@@ -0,0 +1,74 @@
+// Purpose: Turn browser image sources (File, ImageBitmap, video frames, ImageData) into RGBA pixel buffers
+// Uses OffscreenCanvas where available so it also works in Web Workers; Node buffers go through node-image-decoder
+
+import { RgbaImage } from './pixel-scanner';
+
+// Sources a 2D canvas can draw
+export type DrawableSource = ImageBitmap | HTMLImageElement | HTMLVideoElement | HTMLCanvasElement | OffscreenCanvas | VideoFrame;
+
+/**
+ * Pixels of an ImageData (no copy)
+ */
+export function fromImageData(imageData: ImageData): RgbaImage {
+  return { width: imageData.width, height: imageData.height, data: imageData.data };
+}
+
+/**
+ * Decode an image file or blob; EXIF orientation is applied like in an <img> element
+ */
+export async function fromBlob(blob: Blob): Promise<RgbaImage> {
+  const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  try {
+    return fromDrawable(bitmap);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Current frame of a playing video element or a WebCodecs VideoFrame
+ */
+export function fromVideoFrame(video: HTMLVideoElement | VideoFrame): RgbaImage {
+  return fromDrawable(video);
+}
+
+/**
+ * Draw any canvas source at its natural size and read back the pixels
+ */
+export function fromDrawable(source: DrawableSource): RgbaImage {
+  const { width, height } = getSourceSize(source);
+  if (!width || !height) {
+    throw new Error('Image source has no pixels (not loaded yet?)');
+  }
+
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) {
+    throw new Error('Failed to get canvas context');
+  }
+  context.drawImage(source, 0, 0, width, height);
+  return fromImageData(context.getImageData(0, 0, width, height));
+}
+
+function getSourceSize(source: DrawableSource): { width: number; height: number } {
+  if (typeof HTMLVideoElement !== 'undefined' && source instanceof HTMLVideoElement) {
+    return { width: source.videoWidth, height: source.videoHeight };
+  }
+  if (typeof HTMLImageElement !== 'undefined' && source instanceof HTMLImageElement) {
+    return { width: source.naturalWidth || source.width, height: source.naturalHeight || source.height };
+  }
+  if (typeof VideoFrame !== 'undefined' && source instanceof VideoFrame) {
+    return { width: source.displayWidth, height: source.displayHeight };
+  }
+  return { width: (source as ImageBitmap).width, height: (source as ImageBitmap).height };
+}
+
+function createCanvas(width: number, height: number): OffscreenCanvas | HTMLCanvasElement {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
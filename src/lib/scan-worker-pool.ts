@@ -0,0 +1,162 @@
+// Purpose: Pool of Web Workers that decode PDF417 barcodes off the main thread
+// Reports per-strategy progress and cancels jobs via AbortSignal (running jobs terminate their worker)
+
+import { NotFoundException } from '@zxing/library';
+import { RgbaImage, ScanProgress, ScanResult } from './pixel-scanner';
+
+export interface ScanJobOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ScanProgress) => void;
+}
+
+export interface ScanWorkerPoolOptions {
+  size?: number; // Number of workers (default: one less than the cores, at most 2)
+  createWorker?: () => Worker;
+}
+
+export type ScanWorkerRequest = {
+  id: number;
+  source: Blob | RgbaImage; // Image file, decoded inside the worker, or pixels
+};
+
+export type ScanWorkerResponse =
+  | { id: number; type: 'progress'; progress: ScanProgress }
+  | { id: number; type: 'result'; result: ScanResult }
+  | { id: number; type: 'error'; message: string; notFound: boolean };
+
+interface ScanJob extends ScanJobOptions {
+  id: number;
+  source: Blob | RgbaImage;
+  resolve: (result: ScanResult) => void;
+  reject: (error: unknown) => void;
+  cleanup: () => void; // Removes the abort listener
+}
+
+interface WorkerSlot {
+  worker: Worker;
+  job: ScanJob | null;
+}
+
+export class ScanWorkerPool {
+  private size: number;
+  private createWorker: () => Worker;
+  private slots: WorkerSlot[] = [];
+  private queue: ScanJob[] = [];
+  private nextJobId = 1;
+
+  constructor(options: ScanWorkerPoolOptions = {}) {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    this.size = options.size ?? Math.max(1, Math.min(2, cores - 1));
+    this.createWorker = options.createWorker || (() => new Worker(new URL('./scan.worker.ts', import.meta.url), { type: 'module' }));
+  }
+
+  /**
+   * Whether this environment can decode images in workers (needs OffscreenCanvas and createImageBitmap)
+   */
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+  }
+
+  /**
+   * Decode the barcode in an image file or pixel buffer; rejects with NotFoundException or the abort reason
+   */
+  scan(source: Blob | RgbaImage, options: ScanJobOptions = {}): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(options.signal.reason);
+        return;
+      }
+
+      const job: ScanJob = { ...options, id: this.nextJobId++, source, resolve, reject, cleanup: () => {} };
+      const onAbort = () => this.cancel(job);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      job.cleanup = () => options.signal?.removeEventListener('abort', onAbort);
+
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Terminate all workers and reject pending jobs
+   */
+  destroy(): void {
+    const error = new Error('Scan worker pool destroyed');
+    [...this.queue, ...this.slots.map(slot => slot.job)].forEach(job => {
+      if (job) this.settle(job, () => job.reject(error));
+    });
+    this.queue = [];
+    this.slots.forEach(slot => slot.worker.terminate());
+    this.slots = [];
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let slot = this.slots.find(candidate => !candidate.job);
+      if (!slot && this.slots.length < this.size) {
+        slot = this.spawn();
+      }
+      if (!slot) return;
+
+      const job = this.queue.shift()!;
+      slot.job = job;
+      const request: ScanWorkerRequest = { id: job.id, source: job.source };
+      slot.worker.postMessage(request);
+    }
+  }
+
+  private spawn(): WorkerSlot {
+    const slot: WorkerSlot = { worker: this.createWorker(), job: null };
+    slot.worker.onmessage = (event: MessageEvent<ScanWorkerResponse>) => this.handleMessage(slot, event.data);
+    slot.worker.onerror = (event) => {
+      event.preventDefault();
+      console.error('[ScanWorkerPool] Worker error:', event.message);
+      const job = slot.job;
+      this.replace(slot);
+      if (job) this.settle(job, () => job.reject(new Error(`Scan worker failed: ${event.message || 'unknown error'}`)));
+      this.dispatch();
+    };
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private handleMessage(slot: WorkerSlot, message: ScanWorkerResponse): void {
+    const job = slot.job;
+    if (!job || job.id !== message.id) return;
+
+    if (message.type === 'progress') {
+      job.onProgress?.(message.progress);
+      return;
+    }
+    slot.job = null;
+    this.settle(job, () => message.type === 'result'
+      ? job.resolve(message.result)
+      : job.reject(message.notFound ? new NotFoundException(message.message) : new Error(message.message)));
+    this.dispatch();
+  }
+
+  /**
+   * Queued jobs are dropped; a running job cannot be interrupted, so its worker is replaced
+   */
+  private cancel(job: ScanJob): void {
+    const slot = this.slots.find(candidate => candidate.job === job);
+    if (slot) {
+      console.log(`[ScanWorkerPool] Cancelling running job ${job.id}`);
+      this.replace(slot);
+    } else {
+      this.queue = this.queue.filter(queued => queued !== job);
+    }
+    this.settle(job, () => job.reject(job.signal?.reason));
+    this.dispatch();
+  }
+
+  private replace(slot: WorkerSlot): void {
+    slot.worker.terminate();
+    this.slots = this.slots.filter(candidate => candidate !== slot);
+  }
+
+  private settle(job: ScanJob, complete: () => void): void {
+    job.cleanup();
+    complete();
+  }
+}
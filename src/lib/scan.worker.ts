@@ -0,0 +1,32 @@
+// Purpose: Web Worker entry that decodes one image per request with PixelBarcodeScanner
+// Started by ScanWorkerPool; posts progress for each strategy, then the result or the error
+
+import { NotFoundException } from '@zxing/library';
+import { PixelBarcodeScanner } from './pixel-scanner';
+import { fromBlob } from './scan-adapters';
+import type { ScanWorkerRequest, ScanWorkerResponse } from './scan-worker-pool';
+
+// The project compiles against the DOM lib; in a dedicated worker `self` has the Worker messaging API
+const scope = self as unknown as Worker;
+const scanner = new PixelBarcodeScanner();
+
+const post = (message: ScanWorkerResponse) => scope.postMessage(message);
+
+scope.onmessage = async (event: MessageEvent<ScanWorkerRequest>) => {
+  const { id, source } = event.data;
+  try {
+    if (source instanceof Blob) {
+      post({ id, type: 'progress', progress: { strategy: 'loading image', attempt: 0, total: 0 } });
+    }
+    const image = source instanceof Blob ? await fromBlob(source) : source;
+    const result = scanner.scan(image, { onProgress: progress => post({ id, type: 'progress', progress }) });
+    post({ id, type: 'result', result });
+  } catch (error) {
+    post({
+      id,
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      notFound: error instanceof NotFoundException
+    });
+  }
+};
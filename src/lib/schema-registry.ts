@@ -0,0 +1,114 @@
+// Purpose: Version-aware registry of PDF417 form layouts
+// Selects the layout by form code, form supplement and version number
+
+import { FormSchema, SchemaResolution } from '@/types/healthcare';
+
+export class FormSchemaRegistry {
+  private schemas: Map<string, FormSchema[]>;
+
+  constructor(schemas: FormSchema[] = []) {
+    this.schemas = new Map();
+    schemas.forEach(schema => this.register(schema));
+  }
+
+  /**
+   * Normalize form code (e.g., "06" -> "6", "10" -> "10")
+   */
+  static normalizeFormCode(formCode: string): string {
+    // Remove leading zeros for single-digit form codes
+    const normalized = formCode.trim().replace(/^0+/, '');
+    return normalized || formCode; // Return original if normalization results in empty string
+  }
+
+  /**
+   * Register a layout; several layouts may share a form code with different supplements or versions
+   */
+  register(schema: FormSchema): void {
+    const code = FormSchemaRegistry.normalizeFormCode(schema.formCode);
+    const existing = this.schemas.get(code) || [];
+    this.schemas.set(code, [...existing, schema]);
+  }
+
+  /**
+   * All registered layouts, optionally limited to one form code
+   */
+  getSchemas(formCode?: string): FormSchema[] {
+    if (formCode !== undefined) {
+      return [...(this.schemas.get(FormSchemaRegistry.normalizeFormCode(formCode)) || [])];
+    }
+    return Array.from(this.schemas.values()).flat();
+  }
+
+  /**
+   * Select the layout for a barcode header. Falls back to the nearest known version
+   * (exactMatch: false) when no layout covers the requested version.
+   */
+  resolve(formCode: string, supplement: string, version: string): SchemaResolution | undefined {
+    const candidates = this.getSchemas(formCode);
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    // Layouts limited to this supplement take precedence over generic ones
+    const normalizedSupplement = supplement.trim().toLowerCase();
+    const supplementSpecific = candidates.filter(
+      schema => schema.supplement !== undefined && schema.supplement.toLowerCase() === normalizedSupplement
+    );
+    const generic = candidates.filter(schema => schema.supplement === undefined);
+    const pool = supplementSpecific.length > 0 ? supplementSpecific : generic.length > 0 ? generic : candidates;
+
+    const requestedVersion = this.parseVersion(version);
+    const resolution = (schema: FormSchema, exactMatch: boolean): SchemaResolution => ({
+      schema,
+      exactMatch,
+      requestedVersion: version,
+      requestedSupplement: supplement
+    });
+
+    if (requestedVersion === undefined) {
+      return resolution(this.newest(pool), false);
+    }
+
+    const exact = pool.find(schema => this.distance(schema, requestedVersion) === 0);
+    if (exact) {
+      return resolution(exact, supplementSpecific.length > 0 || generic.length > 0);
+    }
+
+    const nearest = pool.reduce((best, schema) =>
+      this.distance(schema, requestedVersion) < this.distance(best, requestedVersion) ? schema : best
+    );
+    return resolution(nearest, false);
+  }
+
+  /**
+   * Distance between a version and a layout's validity range (0 if covered)
+   */
+  private distance(schema: FormSchema, version: number): number {
+    const from = this.parseVersion(schema.validFromVersion) ?? 0;
+    const until = this.parseVersion(schema.validUntilVersion) ?? Number.POSITIVE_INFINITY;
+
+    if (version < from) return from - version;
+    if (version > until) return version - until;
+    return 0;
+  }
+
+  /**
+   * Layout with the highest validity range
+   */
+  private newest(schemas: FormSchema[]): FormSchema {
+    const rank = (schema: FormSchema) =>
+      this.parseVersion(schema.validUntilVersion) ?? this.parseVersion(schema.validFromVersion) ?? 0;
+    return schemas.reduce((best, schema) => {
+      if (schema.validUntilVersion === undefined && best.validUntilVersion !== undefined) return schema;
+      if (best.validUntilVersion === undefined && schema.validUntilVersion !== undefined) return best;
+      return rank(schema) > rank(best) ? schema : best;
+    });
+  }
+
+  private parseVersion(version: string | undefined): number | undefined {
+    if (!version || !/^\d+$/.test(version.trim())) {
+      return undefined;
+    }
+    return parseInt(version.trim(), 10);
+  }
+}
@@ -0,0 +1,233 @@
+// Purpose: Tabular export (CSV, XLSX) of batches of parsed healthcare forms
+// Columns use stable schema field names; XLSX workbooks get one sheet per Muster
+
+import { strToU8, zipSync } from 'fflate';
+import { FormSchema, ParsedBarcodeData } from '@/types/healthcare';
+import { FormSchemaRegistry } from './schema-registry';
+import { getDefaultFormSchemas } from './form-schemas';
+
+export interface TabularExportOptions {
+  columns?: string[]; // Column names to export, in order (defaults to all columns of the forms)
+  locale?: string; // Date formatting locale (default 'de-DE')
+  delimiter?: string; // CSV delimiter (default ';' for German locales, ',' otherwise)
+  registry?: FormSchemaRegistry; // Layouts used to find columns and date fields
+}
+
+export interface TabularData {
+  columns: string[];
+  rows: string[][];
+}
+
+// Columns describing the parse result rather than a barcode field
+export const META_COLUMNS = ['formType', 'isValid', 'issueCount'];
+
+export class TabularExporter {
+  private registry: FormSchemaRegistry;
+  private locale: string;
+  private delimiter: string;
+  private columns?: string[];
+
+  constructor(options: TabularExportOptions = {}) {
+    this.registry = options.registry || new FormSchemaRegistry(getDefaultFormSchemas());
+    this.locale = options.locale || 'de-DE';
+    this.delimiter = options.delimiter || (this.locale.startsWith('de') ? ';' : ',');
+    this.columns = options.columns;
+  }
+
+  /**
+   * All columns available for the forms: meta columns, then schema fields in layout order
+   * ("group[i].field" for repeated blocks), then enrichment fields found in the data
+   */
+  getAvailableColumns(forms: ParsedBarcodeData[]): string[] {
+    const columns = new Set(META_COLUMNS);
+    forms.forEach(form => {
+      const schema = this.findSchema(form);
+      schema?.fields
+        .filter(field => !field.name.startsWith('reserved'))
+        .forEach(field => columns.add(field.name));
+      schema?.groups?.forEach(group => {
+        for (let entryIndex = 0; entryIndex < group.count; entryIndex++) {
+          group.fields.forEach(field => columns.add(`${group.name}[${entryIndex}].${field.name}`));
+        }
+      });
+      Object.entries(form.data)
+        .filter(([, value]) => !Array.isArray(value))
+        .forEach(([name]) => columns.add(name));
+    });
+    return Array.from(columns);
+  }
+
+  /**
+   * Header and rows for the forms; columns no form uses are dropped unless configured explicitly
+   */
+  toTable(forms: ParsedBarcodeData[]): TabularData {
+    const columns = this.columns || this.getAvailableColumns(forms).filter(column =>
+      META_COLUMNS.includes(column) || forms.some(form => this.getCellValue(form, column) !== '')
+    );
+    return {
+      columns,
+      rows: forms.map(form => columns.map(column => this.getCellValue(form, column)))
+    };
+  }
+
+  /**
+   * CSV of all forms (mixed form types share one header); starts with a BOM so Excel detects UTF-8
+   */
+  toCSV(forms: ParsedBarcodeData[]): string {
+    const { columns, rows } = this.toTable(forms);
+    const escape = (value: string) =>
+      /[",\r\n]/.test(value) || value.includes(this.delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+    const lines = [columns, ...rows].map(row => row.map(escape).join(this.delimiter));
+
+    console.log(`[TabularExporter] CSV with ${rows.length} rows and ${columns.length} columns`);
+    return '\uFEFF' + lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * XLSX workbook with one sheet per Muster
+   */
+  toXLSX(forms: ParsedBarcodeData[]): Uint8Array {
+    const byFormType = new Map<string, ParsedBarcodeData[]>();
+    forms.forEach(form => byFormType.set(form.formType, [...(byFormType.get(form.formType) || []), form]));
+    const sheets = Array.from(byFormType.entries())
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .map(([formType, sheetForms]) => ({ name: `Muster ${formType}`, table: this.toTable(sheetForms) }));
+
+    const files: Record<string, Uint8Array> = {
+      '[Content_Types].xml': strToU8(xml(
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        sheets.map((_, i) =>
+          `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ).join('') +
+        '</Types>'
+      )),
+      '_rels/.rels': strToU8(xml(
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+      )),
+      'xl/workbook.xml': strToU8(xml(
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        sheets.map((sheet, i) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+        '</sheets></workbook>'
+      )),
+      'xl/_rels/workbook.xml.rels': strToU8(xml(
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets.map((_, i) =>
+          `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+        ).join('') +
+        '</Relationships>'
+      ))
+    };
+    sheets.forEach((sheet, i) => {
+      files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(this.toSheetXml(sheet.table));
+    });
+
+    console.log(`[TabularExporter] XLSX with ${sheets.length} sheets for ${forms.length} forms`);
+    return zipSync(files);
+  }
+
+  /**
+   * Worksheet with inline strings; all cells are text so IDs keep their leading zeros
+   */
+  private toSheetXml({ columns, rows }: TabularData): string {
+    const cell = (value: string, column: number, row: number) =>
+      `<c r="${columnLetter(column)}${row}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    const sheetRows = [columns, ...rows].map((values, rowIndex) =>
+      `<row r="${rowIndex + 1}">${values.map((value, column) => value === '' ? '' : cell(value, column, rowIndex + 1)).join('')}</row>`
+    );
+    return xml(
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>' +
+      `<sheetData>${sheetRows.join('')}</sheetData></worksheet>`
+    );
+  }
+
+  private getCellValue(form: ParsedBarcodeData, column: string): string {
+    switch (column) {
+      case 'formType':
+        return form.formType;
+      case 'isValid':
+        return form.isValid ? 'true' : 'false';
+      case 'issueCount':
+        return String(form.issues.length);
+    }
+
+    const groupMatch = column.match(/^(\w+)\[(\d+)\]\.(\w+)$/);
+    const value = groupMatch
+      ? (form.data[groupMatch[1]] as Record<string, unknown>[] | undefined)?.[Number(groupMatch[2])]?.[groupMatch[3]]
+      : form.data[column];
+    if (value === undefined || value === null || typeof value === 'object') {
+      return '';
+    }
+    const text = String(value);
+    return this.isDateColumn(form, column) ? this.formatDate(text) : text;
+  }
+
+  private isDateColumn(form: ParsedBarcodeData, column: string): boolean {
+    const schema = this.findSchema(form);
+    const groupMatch = column.match(/^(\w+)\[\d+\]\.(\w+)$/);
+    const fieldDef = groupMatch
+      ? schema?.groups?.find(group => group.name === groupMatch[1])?.fields.find(field => field.name === groupMatch[2])
+      : schema?.fields.find(field => field.name === column);
+    return fieldDef?.type === 'date';
+  }
+
+  /**
+   * Locale date for ISO values; partial dates keep their precision
+   */
+  private formatDate(isoDate: string): string {
+    const match = isoDate.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/);
+    if (!match) {
+      return isoDate;
+    }
+    const [, year, month, day] = match;
+    const date = new Date(Date.UTC(Number(year), Number(month || 1) - 1, Number(day || 1)));
+    return new Intl.DateTimeFormat(this.locale, {
+      timeZone: 'UTC',
+      year: 'numeric',
+      month: month ? '2-digit' : undefined,
+      day: day ? '2-digit' : undefined
+    }).format(date);
+  }
+
+  /**
+   * Layout the form was parsed with, falling back to the layout resolved from the header
+   */
+  private findSchema(form: ParsedBarcodeData): FormSchema | undefined {
+    const candidates = this.registry.getSchemas(form.formType);
+    return candidates.find(schema =>
+      schema.name === form.schema?.name && schema.validFromVersion === form.schema?.validFromVersion
+    ) || this.registry.resolve(
+      form.formType,
+      String(form.data.formularcodeergaenzung || ''),
+      String(form.data.versionsnummer || '')
+    )?.schema;
+  }
+}
+
+function xml(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+}
+
+function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
@@ -0,0 +1,88 @@
+// Purpose: Tests for the date helpers: calendar validation, partial birth dates and format conversions
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatDate, isPartialDate, parseDateParts, parseDisplayDate, parseGermanDate, toGermanDate, validateDate } from './utils';
+
+describe('validateDate', () => {
+  it('accepts real calendar dates including leap days', () => {
+    ['20240229', '20000229', '19850615', '20241231', '19000101', '21001231'].forEach(date =>
+      assert.equal(validateDate(date), true, date)
+    );
+  });
+
+  it('rejects days that do not exist', () => {
+    ['20230229', '19000229', '20240431', '20240230', '20240132'].forEach(date =>
+      assert.equal(validateDate(date), false, date)
+    );
+  });
+
+  it('rejects month 13, years outside 1900-2100 and malformed values', () => {
+    ['20241301', '18991231', '21010101', '00000000', '2024-02-29', '2024021', ''].forEach(date =>
+      assert.equal(validateDate(date), false, date)
+    );
+  });
+
+  it('accepts partial dates only when allowed', () => {
+    ['19740000', '19740400'].forEach(date => {
+      assert.equal(validateDate(date), false, date);
+      assert.equal(validateDate(date, true), true, date);
+    });
+  });
+
+  it('rejects partial dates with a day but no month or with month 13', () => {
+    assert.equal(validateDate('19740014', true), false);
+    assert.equal(validateDate('19741300', true), false);
+  });
+});
+
+describe('parseDateParts and isPartialDate', () => {
+  it('marks unknown month and day as absent', () => {
+    assert.deepEqual(parseDateParts('19740414'), { year: 1974, month: 4, day: 14 });
+    assert.deepEqual(parseDateParts('19740400'), { year: 1974, month: 4, day: undefined });
+    assert.deepEqual(parseDateParts('19740000'), { year: 1974, month: undefined, day: undefined });
+    assert.equal(parseDateParts('00000000'), null);
+  });
+
+  it('treats dates without a day as partial', () => {
+    assert.equal(isPartialDate('19740000'), true);
+    assert.equal(isPartialDate('19740400'), true);
+    assert.equal(isPartialDate('19740414'), false);
+    assert.equal(isPartialDate(undefined), false);
+  });
+});
+
+describe('parseGermanDate', () => {
+  it('converts YYYYMMDD to ISO 8601 and keeps the precision of partial dates', () => {
+    assert.equal(parseGermanDate('19740414'), '1974-04-14');
+    assert.equal(parseGermanDate('19740400'), '1974-04');
+    assert.equal(parseGermanDate('19740000'), '1974');
+  });
+
+  it('returns null for impossible dates', () => {
+    assert.equal(parseGermanDate('20230229'), null);
+    assert.equal(parseGermanDate('20241301'), null);
+    assert.equal(parseGermanDate('19740014'), null);
+  });
+});
+
+describe('date format conversions', () => {
+  it('turns ISO dates back into YYYYMMDD with 00 for unknown parts', () => {
+    assert.equal(toGermanDate('1974-04-14'), '19740414');
+    assert.equal(toGermanDate('1974-04'), '19740400');
+    assert.equal(toGermanDate('1974'), '19740000');
+    assert.equal(toGermanDate('19740414'), '19740414');
+    assert.equal(toGermanDate('14.04.1974'), null);
+  });
+
+  it('formats for display and parses display input', () => {
+    assert.equal(formatDate('19740414'), '14.04.1974');
+    assert.equal(formatDate('19740400'), '04.1974');
+    assert.equal(formatDate('1974-04-14'), '14.04.1974');
+    assert.equal(formatDate('00000000'), null);
+    assert.equal(parseDisplayDate('14.04.1974'), '1974-04-14');
+    assert.equal(parseDisplayDate('04.1974'), '1974-04');
+    assert.equal(parseDisplayDate('1974'), '1974');
+    assert.equal(parseDisplayDate('14/04/1974'), null);
+  });
+});
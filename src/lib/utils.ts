@@ -4,46 +4,108 @@ export function cn(...classes: (string | undefined | null | boolean)[]): string
   return classes.filter(Boolean).join(' ');
 }
 
+export interface DateParts {
+  year: number;
+  month?: number; // Absent when the month is unknown (encoded as 00)
+  day?: number; // Absent when the day is unknown (encoded as 00)
+}
+
+/**
+ * Split a YYYYMMDD date into its parts; 00 marks an unknown month or day
+ */
+export function parseDateParts(dateStr: string | null | undefined): DateParts | null {
+  if (!dateStr || !/^\d{8}$/.test(dateStr) || dateStr === '00000000') return null;
+
+  const year = parseInt(dateStr.substring(0, 4));
+  const month = parseInt(dateStr.substring(4, 6));
+  const day = parseInt(dateStr.substring(6, 8));
+
+  // A known day requires a known month
+  if (month === 0 && day !== 0) return null;
+
+  return {
+    year,
+    month: month === 0 ? undefined : month,
+    day: day === 0 ? undefined : day
+  };
+}
+
+/**
+ * Whether a YYYYMMDD date leaves the day or month unknown (e.g., 19740000, 19740300)
+ */
+export function isPartialDate(dateStr: string | null | undefined): boolean {
+  const parts = parseDateParts(dateStr);
+  return !!parts && parts.day === undefined;
+}
+
 export function formatDate(dateStr: string | null | undefined): string | null {
   if (!dateStr || dateStr === '00000000') return null;
 
-  // Handle ISO format dates (YYYY-MM-DD)
-  if (dateStr.includes('-') && dateStr.length === 10) {
-    const [year, month, day] = dateStr.split('-');
-    return `${day}.${month}.${year}`;
+  // Handle ISO format dates (YYYY-MM-DD) and partial dates (YYYY-MM, YYYY)
+  if (/^\d{4}(-\d{2}){0,2}$/.test(dateStr)) {
+    return dateStr.split('-').reverse().join('.');
   }
 
-  // Handle 8-digit format dates (YYYYMMDD)
+  // Handle 8-digit format dates (YYYYMMDD), dropping unknown month or day
   if (dateStr.length === 8) {
-    const year = dateStr.substring(0, 4);
-    const month = dateStr.substring(4, 6);
-    const day = dateStr.substring(6, 8);
-    return `${day}.${month}.${year}`;
+    const parts = parseDateParts(dateStr);
+    if (!parts) return null;
+    return formatDate(toIsoDate(parts));
   }
 
   return null;
 }
 
+/**
+ * Convert a YYYYMMDD date to ISO 8601; partial dates keep their precision ("1974", "1974-03")
+ */
 export function parseGermanDate(dateStr: string): string | null {
-  if (!dateStr || dateStr === '00000000' || dateStr.length !== 8) return null;
+  if (!validateDate(dateStr, true)) return null;
+  return toIsoDate(parseDateParts(dateStr)!);
+}
 
-  const year = dateStr.substring(0, 4);
-  const month = dateStr.substring(4, 6);
-  const day = dateStr.substring(6, 8);
+/**
+ * Check that a YYYYMMDD date exists in the calendar. Partial dates are accepted only with allowPartial.
+ */
+export function validateDate(dateStr: string, allowPartial = false): boolean {
+  const parts = parseDateParts(dateStr);
+  if (!parts) return false;
 
-  return `${year}-${month}-${day}`;
+  const { year, month, day } = parts;
+  if (year < 1900 || year > 2100) return false;
+  if (month === undefined || day === undefined) {
+    return allowPartial && (month === undefined || month <= 12);
+  }
+  if (month > 12) return false;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
 }
 
-export function validateDate(dateStr: string): boolean {
-  if (!dateStr || dateStr.length !== 8) return false;
+/**
+ * Convert an ISO 8601 (possibly partial) date back to YYYYMMDD with 00 for unknown parts
+ */
+export function toGermanDate(isoDate: string): string | null {
+  if (/^\d{8}$/.test(isoDate)) return isoDate;
+  if (!/^\d{4}(-\d{2}){0,2}$/.test(isoDate)) return null;
 
-  const year = parseInt(dateStr.substring(0, 4));
-  const month = parseInt(dateStr.substring(4, 6));
-  const day = parseInt(dateStr.substring(6, 8));
+  const [year, month = '00', day = '00'] = isoDate.split('-');
+  return `${year}${month}${day}`;
+}
+
+/**
+ * Convert a displayed date (DD.MM.YYYY, MM.YYYY or YYYY) to ISO 8601
+ */
+export function parseDisplayDate(displayDate: string): string | null {
+  if (!/^(\d{2}\.){0,2}\d{4}$/.test(displayDate)) return null;
+  return displayDate.split('.').reverse().join('-');
+}
 
-  return year >= 1900 && year <= 2100 &&
-         month >= 1 && month <= 12 &&
-         day >= 1 && day <= 31;
+function toIsoDate({ year, month, day }: DateParts): string {
+  return [year, month, day]
+    .filter((part): part is number => part !== undefined)
+    .map((part, i) => String(part).padStart(i === 0 ? 4 : 2, '0'))
+    .join('-');
 }
 
 export function sanitizeInput(input: string): string {
@@ -0,0 +1,103 @@
+// Purpose: Line format shared by the KBV xDT interfaces (LDT, GDT)
+// Each line is "lll" (total length incl. CRLF) + "ffff" (field id) + content + CRLF, encoded as ISO-8859-15
+
+export interface XdtField {
+  id: string; // 4-digit field identifier (Feldkennung)
+  value: string;
+}
+
+export interface XdtRecord {
+  type: string; // Satzart (written as field 8000)
+  fields: XdtField[];
+}
+
+export interface XdtSerializeOptions {
+  recordLength?: boolean; // Write field 8100 (record length in bytes) after the Satzart
+}
+
+const LINE_OVERHEAD = 9; // 3 length digits + 4 field id digits + CRLF
+const MAX_CONTENT_LENGTH = 999 - LINE_OVERHEAD;
+const RECORD_LENGTH_LINE = LINE_OVERHEAD + 5; // Field 8100 carries a 5-digit length
+
+// ISO-8859-15 differs from ISO-8859-1 in eight positions (e.g., € instead of ¤)
+const ISO_8859_15_SPECIALS: Record<string, number> = {
+  '€': 0xa4, 'Š': 0xa6, 'š': 0xa8, 'Ž': 0xb4, 'ž': 0xb8, 'Œ': 0xbc, 'œ': 0xbd, 'Ÿ': 0xbe
+};
+const ISO_8859_15_REPLACED = new Set(Object.values(ISO_8859_15_SPECIALS));
+
+/**
+ * Format one xDT line; line breaks in the content are replaced and overlong content is cut
+ */
+export function formatXdtLine(id: string, value: string): string {
+  // Lengths count bytes; every character is one byte in ISO-8859-15
+  let characters = Array.from(value.replace(/[\r\n]+/g, ' '));
+  if (characters.length > MAX_CONTENT_LENGTH) {
+    console.log(`[xDT] Field ${id} truncated to ${MAX_CONTENT_LENGTH} characters`);
+    characters = characters.slice(0, MAX_CONTENT_LENGTH);
+  }
+  const length = String(characters.length + LINE_OVERHEAD).padStart(3, '0');
+  return `${length}${id}${characters.join('')}\r\n`;
+}
+
+/**
+ * Serialize records to xDT text; empty fields are skipped
+ */
+export function serializeXdtRecords(records: XdtRecord[], options: XdtSerializeOptions = {}): string {
+  return records.map(record => {
+    const lines = record.fields
+      .filter(field => field.value !== '')
+      .map(field => formatXdtLine(field.id, field.value));
+    const satzart = formatXdtLine('8000', record.type);
+
+    if (!options.recordLength) {
+      return satzart + lines.join('');
+    }
+    const recordLength = [satzart, ...lines].reduce((sum, line) => sum + Array.from(line).length, RECORD_LENGTH_LINE);
+    return satzart + formatXdtLine('8100', String(recordLength).padStart(5, '0')) + lines.join('');
+  }).join('');
+}
+
+/**
+ * Encode text as ISO-8859-15; characters outside the charset become "?"
+ */
+export function encodeIso885915(text: string): Uint8Array {
+  return Uint8Array.from(Array.from(text), char => {
+    const special = ISO_8859_15_SPECIALS[char];
+    if (special !== undefined) return special;
+
+    const code = char.codePointAt(0) ?? 0x3f;
+    return code <= 0xff && !ISO_8859_15_REPLACED.has(code) ? code : 0x3f;
+  });
+}
+
+/**
+ * Decode ISO-8859-15 bytes
+ */
+export function decodeIso885915(bytes: Uint8Array): string {
+  const specials = new Map(Object.entries(ISO_8859_15_SPECIALS).map(([char, code]) => [code, char]));
+  return Array.from(bytes, byte => specials.get(byte) ?? String.fromCharCode(byte)).join('');
+}
+
+/**
+ * Split xDT text into records at each Satzart line (8000); lines with a wrong length prefix are kept but logged
+ */
+export function parseXdtRecords(text: string): XdtRecord[] {
+  const records: XdtRecord[] = [];
+
+  text.split(/\r?\n/).filter(line => line.length >= 7).forEach((line, lineIndex) => {
+    const declaredLength = Number(line.slice(0, 3));
+    if (declaredLength !== Array.from(line).length + 2) {
+      console.log(`[xDT] Line ${lineIndex + 1} declares length ${declaredLength}, found ${Array.from(line).length + 2}`);
+    }
+
+    const id = line.slice(3, 7);
+    const value = line.slice(7);
+    if (id === '8000') {
+      records.push({ type: value, fields: [] });
+    } else if (records.length > 0) {
+      records[records.length - 1].fields.push({ id, value });
+    }
+  });
+
+  return records;
+}
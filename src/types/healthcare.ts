@@ -1,7 +1,7 @@
 // Purpose: TypeScript types for PDF417 healthcare barcode schema
 // Healthcare forms based on German Blankoformularbedruckung standards
 
-export type FormType = '10' | '12' | '6' | '16' | '17' | '18' | '39' | '52';
+export type FormType = '10' | '12' | '6' | '16' | '17' | '18' | '39' | '52' | '61';
 
 export interface StandardBarcodeFields {
   formularcode: string; // 2-digit form number
@@ -12,7 +12,7 @@ export interface StandardBarcodeFields {
 export interface PatientInfo {
   nachname?: string; // Last name (max 45 chars)
   vorname?: string; // First name (max 45 chars)
-  geburtsdatum?: string; // Birth date YYYYMMDD
+  geburtsdatum?: string; // Birth date as ISO 8601, "YYYY-MM" or "YYYY" when day or month is unknown
   geschlecht?: 'M' | 'W' | 'X' | 'D'; // Gender
   titel?: string; // Title (max 20 chars)
   strasse?: string; // Street (max 46 chars)
@@ -30,6 +30,18 @@ export interface InsuranceInfo {
   besonderePersonengruppe?: '00' | '04' | '06' | '07' | '08' | '09'; // Special person group
   dmpKennzeichnung?: string; // Disease Management Program ID (2 digits)
   wopKennzeichen?: string; // WOP identifier
+  kostentraegernameVerzeichnis?: string; // Insurer name from the local Kostenträger directory
+  kostentraegerTyp?: KostentraegerTyp; // Payer type derived from directory or printed name
+  kostentraegernameAbweichung?: boolean; // Printed name does not match the directory entry
+}
+
+export type KostentraegerTyp = 'GKV' | 'BG' | 'Sozialamt' | 'sonstige';
+
+export interface KostentraegerEntry {
+  ik: string; // Institutionskennzeichen (9 digits)
+  name: string; // Official insurer name
+  typ: KostentraegerTyp;
+  aliases?: string[]; // Abbreviations and former names accepted as matching
 }
 
 export interface ProviderInfo {
@@ -56,25 +68,259 @@ export interface Muster6Fields extends StandardBarcodeFields, PatientInfo, Insur
   kurativePraeventivKur?: string; // Curative/preventive treatment
 }
 
+export interface ArzneimittelVerordnung {
+  pzn?: string; // Pharmazentralnummer (8 digits incl. check digit)
+  arzneimittel?: string; // Product name or free-text prescription
+  packungsanzahl?: string; // Number of packages
+  normgroesse?: 'N1' | 'N2' | 'N3'; // Package size
+  dosierung?: string; // Dosage instructions
+  autIdem?: '0' | '1'; // 1 = substitution by the pharmacy excluded
+}
+
+export interface Muster16Fields extends StandardBarcodeFields, PatientInfo, InsuranceInfo, ProviderInfo {
+  gebuehrFrei?: '0' | '1'; // Exempt from co-payment
+  gebuehrPflichtig?: '0' | '1'; // Co-payment due
+  noctu?: '0' | '1'; // Night/holiday dispensing fee
+  sonstige?: '0' | '1'; // Other payer
+  unfall?: '0' | '1'; // Accident
+  arbeitsunfall?: '0' | '1'; // Work accident
+  unfalltag?: string; // Accident date YYYYMMDD
+  unfallbetrieb?: string; // Employer at time of the accident
+  bvg?: '0' | '1'; // Federal Pensions Act (BVG) entitlement
+  hilfsmittel?: '0' | '1'; // Medical aid
+  impfstoff?: '0' | '1'; // Vaccine
+  sprechstundenbedarf?: '0' | '1'; // Practice supplies
+  begruendungspflicht?: '0' | '1'; // Justification required
+  verordnungen?: ArzneimittelVerordnung[]; // Up to 3 prescription lines
+}
+
+export interface Muster61Fields extends StandardBarcodeFields, PatientInfo, InsuranceInfo, ProviderInfo {
+  rehaDiagnose?: string; // Rehabilitation-relevant diagnoses
+  icd10Code?: string; // ICD-10 code of the leading diagnosis
+  rehabilitationsziel?: string; // Rehabilitation goals
+  rehaForm?: '1' | '2' | '3'; // 1 = outpatient, 2 = inpatient, 3 = mobile
+  rehaBegruendung?: string; // Justification of need and prognosis
+  zuweisungsempfehlung?: string; // Recommended facility
+  begleitpersonErforderlich?: '0' | '1'; // Accompanying person required
+}
+
+export interface HeilmittelVerordnungFields extends StandardBarcodeFields, PatientInfo, InsuranceInfo, ProviderInfo {
+  icd10Code?: string; // ICD-10 code of the treatment-relevant diagnosis
+  diagnosegruppe?: string; // Diagnosis group from the Heilmittel catalogue
+  leitsymptomatik?: string; // Leading symptoms (a, b, c or free text)
+  heilmittel?: string; // Prescribed therapy
+  anzahlBehandlungen?: string; // Number of treatment units
+  therapiefrequenz?: string; // Treatment frequency (e.g., 1-2x weekly)
+  hausbesuch?: '0' | '1'; // Home visit
+  therapiebericht?: '0' | '1'; // Therapy report requested
+  dringlicherBehandlungsbedarf?: '0' | '1'; // Treatment must start within 14 days
+  therapieziele?: string; // Therapy goals
+}
+
+export interface Muster17Fields extends HeilmittelVerordnungFields {
+  fussbefund?: string; // Findings of the foot (neuropathy, angiopathy)
+}
+
+export interface Muster18Fields extends HeilmittelVerordnungFields {
+  ergaenzendesHeilmittel?: string; // Complementary therapy
+  gruppentherapie?: '0' | '1'; // Group therapy
+}
+
+export interface Muster39Fields extends StandardBarcodeFields, PatientInfo, InsuranceInfo, ProviderInfo {
+  untersuchungsart?: '1' | '2'; // 1 = primary screening, 2 = follow-up diagnostics
+  wiederholungsuntersuchung?: '0' | '1'; // Repeat examination
+  letztePeriode?: string; // First day of last menstrual period YYYYMMDD
+  graviditaet?: '0' | '1'; // Pregnancy
+  intrauterinpessar?: '0' | '1'; // IUD in place
+  hormonanwendung?: '0' | '1'; // Hormone use (e.g., contraceptives)
+  hpvImpfung?: '0' | '1' | '2'; // HPV vaccination: 0 = no, 1 = yes, 2 = unknown
+  vorbefund?: string; // Previous cytology group (Münchner Nomenklatur III)
+  klinischerBefund?: string; // Clinical findings
+  hpvTestErgebnis?: string; // Result of the most recent HPV test
+}
+
+export interface Muster52Fields extends StandardBarcodeFields, PatientInfo, InsuranceInfo, ProviderInfo {
+  arbeitsunfaehigSeit?: string; // Incapacity for work since YYYYMMDD
+  voraussichtlichArbeitsunfaehigBis?: string; // Expected end of incapacity YYYYMMDD
+  diagnose?: string; // Diagnoses causing the incapacity
+  icd10Code?: string; // ICD-10 code of the leading diagnosis
+  behandlungsmassnahmen?: string; // Current and planned treatment
+  stufenweiseWiedereingliederung?: '0' | '1'; // Gradual reintegration recommended
+  rehabilitationEmpfohlen?: '0' | '1'; // Rehabilitation measures recommended
+  anfragedatum?: string; // Date of the insurer's request YYYYMMDD
+}
+
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+export type ValidationRuleCode =
+  | 'insufficientFields' // Barcode has fewer than the 3 identification fields
+  | 'unsupportedForm' // No schema registered for the form code
+  | 'required' // Required field is empty
+  | 'maxLength' // Value longer than the schema allows
+  | 'allowedValues' // Value not in the schema's list of allowed values
+  | 'numeric' // Non-digit characters in a numeric field
+  | 'dateFormat' // Date field not in YYYYMMDD format
+  | 'calendarDate' // Date does not exist in the calendar (e.g., 20230231) or is incomplete
+  | 'datePlausibility' // Dates contradict each other or lie in the future
+  | 'plausibility' // Cross-field plausibility rule failed
+  | 'checkDigit' // Identifier fails its check digit algorithm
+  | 'identifierFormat' // Identifier has the wrong length or characters for its type
+  | 'identifierRegion' // Identifier names an unknown region (e.g., BSNR KV region)
+  | 'kostentraegerMismatch' // Printed insurer name differs from the directory entry for the IK
+  | 'kostentraegerLookup' // Insurer name filled in from the directory
+  | 'schemaVersionFallback' // No layout for the exact form version, nearest version used
+  | 'layoutFit'; // Values fit the chosen layout poorly (columns may be shifted)
+
+export interface ValidationIssue {
+  field?: string; // Schema field name (absent for barcode-level issues)
+  index?: number; // Raw field index in the barcode
+  code: ValidationRuleCode;
+  severity: ValidationSeverity;
+  value?: string; // Raw value as read from the barcode
+  message: string;
+  rule?: string; // Id of the plausibility rule that reported the issue
+}
+
 export interface ParsedBarcodeData {
   formType: FormType;
-  isValid: boolean;
-  errors: string[];
+  isValid: boolean; // False if any issue has severity 'error'
+  issues: ValidationIssue[];
+  schema?: SchemaReference; // Layout actually used to map the fields
+  layoutFit?: LayoutFit; // How well the values fit the chosen layout
+  layoutCandidates?: LayoutFit[]; // All layouts scored for the form code, best fit first
+  rawFields: string[]; // Barcode split on TAB, before any mapping
+  fieldRecords: ParsedFieldRecord[]; // One record per raw field, in barcode order
+  unmappedFields: ParsedFieldRecord[]; // Reserved or extra fields that carry a value
   data: StandardBarcodeFields & Partial<PatientInfo & InsuranceInfo & ProviderInfo> & Record<string, unknown>;
 }
 
+export type FieldRecordStatus =
+  | 'mapped' // Mapped to a schema field
+  | 'reserved' // Column the layout marks as reserved
+  | 'unmapped'; // No column in the layout (e.g., trailing fields beyond the schema)
+
+export interface ParsedFieldRecord {
+  index: number; // Raw field index in the barcode
+  name?: string; // Schema field name ("group[i].field" for repeated blocks)
+  rawValue: string;
+  value?: unknown; // Transformed value (mapped fields only)
+  status: FieldRecordStatus;
+}
+
 export interface BarcodeFieldDefinition {
   name: string;
   index: number;
   type?: 'string' | 'date' | 'numeric';
+  allowPartialDate?: boolean; // Date may leave day or month unknown (encoded as 00)
   maxLength?: number;
   allowedValues?: string[];
   required?: boolean;
+  format?: IdentifierFormat; // Identifier whose check digit is verified
   transform?: (value: string) => unknown;
 }
 
+export type IdentifierFormat =
+  | 'pzn' // Pharmazentralnummer
+  | 'kvnr' // Krankenversichertennummer (unchangeable part, 10 characters)
+  | 'lanr' // Lebenslange Arztnummer
+  | 'bsnr' // Betriebsstättennummer
+  | 'ik'; // Institutionskennzeichen
+
+export interface BarcodeFieldGroupDefinition {
+  name: string; // Result key holding the array of entries (e.g., 'verordnungen')
+  startIndex: number; // Raw index of the first entry's first field
+  count: number; // Maximum number of entries
+  fields: BarcodeFieldDefinition[]; // Entry fields; index is relative to the entry start
+}
+
 export interface FormSchema {
   formCode: string;
   name: string;
+  supplement?: string; // formularcodeergaenzung this layout is limited to (any if omitted)
+  validFromVersion?: string; // First versionsnummer using this layout (inclusive)
+  validUntilVersion?: string; // Last versionsnummer using this layout (inclusive, open-ended if omitted)
   fields: BarcodeFieldDefinition[];
+  groups?: BarcodeFieldGroupDefinition[]; // Repeated blocks such as prescription lines
+}
+
+export type SchemaReference = Omit<FormSchema, 'fields' | 'groups'>;
+
+export type LayoutConfidence = 'high' | 'medium' | 'low';
+
+export interface LayoutFit {
+  schema: SchemaReference;
+  score: number; // Share of checked fields whose values fit the layout (0-1)
+  confidence: LayoutConfidence;
+  checkedFields: number;
+  mismatchedFields: string[]; // Field names (or "[index]" for unmapped values) that do not fit
+}
+
+// Cross-field plausibility rules
+export interface PlausibilitySettings {
+  practiceBsnr?: string[]; // Betriebsstättennummern of the scanning practice
+  referenceDate?: Date; // "Today" for age and future-date checks (defaults to the current date)
+}
+
+export interface PlausibilityRuleContext {
+  formType: FormType;
+  schema: FormSchema;
+  data: Record<string, unknown>; // Mapped form data
+  settings: PlausibilitySettings;
+  getRawValue: (fieldName: string) => string; // Raw barcode value of a top-level schema field
+  getFieldDefinition: (fieldName: string) => BarcodeFieldDefinition | undefined;
+}
+
+export interface PlausibilityRule {
+  id: string; // Stable identifier used to enable or disable the rule
+  description: string;
+  formTypes?: FormType[]; // Forms the rule applies to (all forms if omitted)
+  enabled?: boolean; // Initial state (defaults to true)
+  check: (context: PlausibilityRuleContext) => ValidationIssue[];
+}
+
+export interface SchemaResolution {
+  schema: FormSchema;
+  exactMatch: boolean; // False if the requested version lies outside every known layout
+  requestedVersion: string;
+  requestedSupplement: string;
+}
+
+// Print layouts for rendering filled forms (all coordinates in mm from the top-left corner)
+export interface PrintFieldPosition {
+  field: string | string[]; // Data field name(s); several names are joined with a space
+  label?: string; // Caption printed above the value in full-page mode
+  x: number;
+  y: number; // Baseline of the first text line
+  width: number; // Box width; longer text is wrapped or shrunk
+  lines?: number; // Maximum number of text lines (default 1)
+  fontSize?: number; // In pt (default 9)
+  format?: 'text' | 'date' | 'checkbox'; // checkbox prints "X" for "1"
+}
+
+export interface FormPrintLayout {
+  formCode: string;
+  name: string;
+  pageWidth: number;
+  pageHeight: number;
+  fields: PrintFieldPosition[];
+  barcode: { x: number; y: number; width: number; height: number }; // Area reserved for the PDF417 symbol
+}
+
+// FHIR R4 export (only the structure needed to assemble transaction Bundles)
+export interface FhirResource {
+  resourceType: string;
+  [element: string]: unknown;
+}
+
+export interface FhirBundleEntry {
+  fullUrl: string; // urn:uuid reference used inside the Bundle
+  resource: FhirResource;
+  request: { method: 'POST' | 'PUT'; url: string; ifNoneExist?: string };
+}
+
+export interface FhirBundle extends FhirResource {
+  resourceType: 'Bundle';
+  type: 'transaction';
+  timestamp: string;
+  entry: FhirBundleEntry[];
 }